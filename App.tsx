@@ -2,12 +2,82 @@ import React, { useState, useRef, useEffect } from 'react';
 import Camera, { CameraHandle } from './components/Camera';
 import ControlPanel from './components/ControlPanel';
 import Gallery from './components/Gallery';
-import { BackgroundOption, PRESET_BACKGROUNDS, GeneratedImage, AppState, CameraSettings, LightingOption, PRESET_LIGHTING } from './types';
-import { generateStudioShot } from './services/geminiService';
-import { Camera as CameraIcon, Sparkles, X, Download } from 'lucide-react';
+import BatchProgress from './components/BatchProgress';
+import ImportDropzone from './components/ImportDropzone';
+import ProjectBar from './components/ProjectBar';
+import RefineDialog from './components/RefineDialog';
+import VersionHistory from './components/VersionHistory';
+import RegenerateDialog from './components/RegenerateDialog';
+import VariantPicker from './components/VariantPicker';
+import ProductSetPanel from './components/ProductSetPanel';
+import ProductSetEditor from './components/ProductSetEditor';
+import FramingEditor from './components/FramingEditor';
+import MaskEditor from './components/MaskEditor';
+import ComparisonViewer from './components/ComparisonViewer';
+import ExportDialog from './components/ExportDialog';
+import UsageDashboard from './components/UsageDashboard';
+import { BackgroundOption, PRESET_BACKGROUNDS, GeneratedImage, AppState, CameraSettings, LightingOption, PRESET_LIGHTING, ControlTab, BatchSelection, GenerationJob, Framing, DEFAULT_FRAMING, BrandKit, PromptTemplate, FidelitySettings, Project, ProjectSetup, MaskMode, SubjectMask, CaptureMode, PreviewQualitySettings, ProductSet } from './types';
+import { StudioShotResult } from './services/studioShotProvider';
+import { buildCombinations } from './services/batchService';
+import { useGenerationQueue } from './hooks/useGenerationQueue';
+import { useLightingPresets } from './hooks/useLightingPresets';
+import { useBackgroundLibrary } from './hooks/useBackgroundLibrary';
+import { useBrandKits } from './hooks/useBrandKits';
+import { useProjects } from './hooks/useProjects';
+import { useProductSets } from './hooks/useProductSets';
+import { useUsageLedger } from './hooks/useUsageLedger';
+import { formatCost, getPeriodSpend } from './services/usageService';
+import { createProductSet, getAcceptedShots, getNextAngle, getReferenceShot, getSetShots, toProductSetRef, toggleAccepted } from './services/productSetService';
+import { toBrandKitRef } from './services/brandKitService';
+import { usePromptTemplates } from './hooks/usePromptTemplates';
+import { DEFAULT_PROMPT_TEMPLATE, toPromptTemplateRef } from './services/promptTemplateService';
+import { checkFidelity, isLowFidelity, loadFidelitySettings, saveFidelitySettings } from './services/fidelityService';
+import { ShotMetadata, readMetadata } from './services/metadataService';
+import { getImageSetup, getRootId, getVersions, latestVersions } from './services/versionService';
+import { buildZipFilename, downloadBlob, downloadShot, exportZip } from './services/exportService';
+import { useExportProfiles } from './hooks/useExportProfiles';
+import { CAPTURE_MODES } from './services/captureService';
+import { QualityWarning, hasCriticalWarning, loadPreviewQualitySettings, savePreviewQualitySettings } from './services/previewQualityService';
+import { importImageFile, isImportableFile, ACCEPTED_IMPORT_TYPES } from './services/importService';
+import { loadImages, saveImage, deleteImage, createWriteChain, getStorageUsage, requestPersistentStorage, StorageUsage } from './services/storageService';
+import { Camera as CameraIcon, Sparkles, X, Download, Layers, ImagePlus, Crop, FlipHorizontal2, Store, Wand2, Shuffle, Brush, Timer, Images, Hand, Boxes, Receipt } from 'lucide-react';
+
+const newId = () => crypto.randomUUID ? crypto.randomUUID() : Math.random().toString(36).substring(2);
+
+const buildGeneratedImage = (
+  originalUrl: string,
+  background: BackgroundOption,
+  lighting: LightingOption,
+  settings: CameraSettings,
+  result: StudioShotResult,
+  template: PromptTemplate | undefined,
+  extra: Partial<GeneratedImage> = {}
+): GeneratedImage => ({
+  id: newId(),
+  originalUrl,
+  generatedUrl: result.imageUrl,
+  timestamp: Date.now(),
+  settings: {
+    backgroundName: background.name,
+    type: background.type,
+    value: background.value,
+    previewClass: background.previewClass,
+    lightingName: lighting.name,
+    lightingDirection: settings.lightingDirection,
+    aspectRatio: settings.aspectRatio,
+  },
+  generation: {
+    provider: result.metadata.provider,
+    model: result.metadata.model,
+    promptTemplate: template ? toPromptTemplateRef(template) : undefined,
+    prompt: result.metadata.prompt,
+  },
+  ...extra,
+});
 
 export default function App() {
   const cameraRef = useRef<CameraHandle>(null);
+  const importInputRef = useRef<HTMLInputElement>(null);
   const [appState, setAppState] = useState<AppState>(AppState.IDLE);
   
   // State
@@ -15,53 +85,389 @@ export default function App() {
   const [selectedLighting, setSelectedLighting] = useState<LightingOption>(PRESET_LIGHTING[0]);
   
   const [gallery, setGallery] = useState<GeneratedImage[]>([]);
+  const galleryRef = useRef(gallery); // Latest gallery, for async work that outlives a render
+  galleryRef.current = gallery;
   const [errorMessage, setErrorMessage] = useState<string | null>(null);
   const [viewedImage, setViewedImage] = useState<GeneratedImage | null>(null);
+  const [comparedImage, setComparedImage] = useState<GeneratedImage | null>(null);
+  const [exportingImage, setExportingImage] = useState<GeneratedImage | null>(null);
+  const [refiningImage, setRefiningImage] = useState<GeneratedImage | null>(null);
+  const [regeneratingImage, setRegeneratingImage] = useState<GeneratedImage | null>(null);
+  const [pickingGroupId, setPickingGroupId] = useState<string | null>(null);
+  const exportProfiles = useExportProfiles();
   
   const [settings, setSettings] = useState<CameraSettings>({
     aspectRatio: '1:1',
     lightingDirection: 'front'
   });
   
-  const [activeTab, setActiveTab] = useState<'background' | 'adjustments'>('background');
+  const [activeTab, setActiveTab] = useState<ControlTab>('background');
+  const [batch, setBatch] = useState<BatchSelection>({
+    enabled: false,
+    backgroundIds: PRESET_BACKGROUNDS.slice(0, 4).map(bg => bg.id),
+    lightingIds: PRESET_LIGHTING.slice(0, 3).map(light => light.id),
+    concurrency: 2,
+  });
+  const [activeBatchId, setActiveBatchId] = useState<string | null>(null);
+  const userLighting = useLightingPresets();
+  const library = useBackgroundLibrary(setErrorMessage);
+  const brandKits = useBrandKits(setErrorMessage);
+  const projects = useProjects(setErrorMessage);
+  const productSets = useProductSets(setErrorMessage);
+  const [chosenAngle, setChosenAngle] = useState<string | null>(null); // null = next angle still to shoot
+  const [editingSet, setEditingSet] = useState(false);
+  const usage = useUsageLedger(setErrorMessage);
+  const [showUsage, setShowUsage] = useState(false);
+  // Applied kit; any manual change to its background, lighting or options detaches it
+  const [activeKit, setActiveKit] = useState<BrandKit | null>(null);
+  const promptTemplates = usePromptTemplates();
+  const [selectedTemplate, setSelectedTemplate] = useState<PromptTemplate>(DEFAULT_PROMPT_TEMPLATE);
+  const [promptInstructions, setPromptInstructions] = useState('');
+  const [fidelitySettings, setFidelitySettings] = useState<FidelitySettings>(loadFidelitySettings);
 
-  const handleCapture = async (originalImageBase64: string) => {
-    setAppState(AppState.PROCESSING);
-    setErrorMessage(null);
+  // Optional review step: the full frame is captured and framed by hand before generating
+  const [reviewFraming, setReviewFraming] = useState(false);
+  const [lastFraming, setLastFraming] = useState<Framing>(DEFAULT_FRAMING);
+  const [pendingFrame, setPendingFrame] = useState<string | null>(null);
+  // Optional mask step after framing: the product is painted by hand to guide isolation or composite it as is
+  const [maskSubject, setMaskSubject] = useState(false);
+  const [lastMaskMode, setLastMaskMode] = useState<MaskMode>('guide');
+  const [pendingMask, setPendingMask] = useState<{ src: string; framing?: Framing } | null>(null);
+  const [captureMode, setCaptureMode] = useState<CaptureMode>('instant');
+  // Timed and steady captures wait on the viewfinder and can be called off with the shutter button
+  const canCancelCapture = captureMode !== 'instant' && captureMode !== 'burst';
+  const [previewQuality, setPreviewQuality] = useState<PreviewQualitySettings>(loadPreviewQualitySettings);
+  const [previewWarnings, setPreviewWarnings] = useState<QualityWarning[]>([]);
+  const captureBlocked = previewQuality.enabled && previewQuality.blockCritical && hasCriticalWarning(previewWarnings);
+  const [storageUsage, setStorageUsage] = useState<StorageUsage | null>(null);
+
+  const refreshStorageUsage = () => {
+    getStorageUsage().then(setStorageUsage);
+  };
+
+  // Restore the persisted gallery (and the open project's setup) on startup
+  useEffect(() => {
+    if (projects.activeProject?.lastSetup) applySetup(projects.activeProject.lastSetup);
+    requestPersistentStorage();
+    loadImages()
+      .then(images => {
+        // Keep anything generated while loading was in flight
+        setGallery(prev => [...prev, ...images.filter(img => !prev.some(p => p.id === img.id))]);
+      })
+      .catch(e => console.warn("Could not load saved gallery:", e))
+      .finally(refreshStorageUsage);
+  }, []);
+
+  const writeImage = useRef(createWriteChain()).current;
+
+  const persistImage = async (image: GeneratedImage) => {
+    try {
+      const evicted = await writeImage(image.id, () => saveImage(image));
+      if (evicted.length > 0) {
+        setGallery(prev => prev.filter(img => !evicted.includes(img.id)));
+        setErrorMessage(`Storage full: removed ${evicted.length} oldest photo${evicted.length > 1 ? 's' : ''} to make room.`);
+      }
+    } catch (e) {
+      console.error("Could not save image:", e);
+      setErrorMessage("Storage full: this photo won't survive a reload. Download it or delete older shots.");
+    } finally {
+      refreshStorageUsage();
+    }
+  };
+
+  const handleRemove = (id: string) => {
+    setGallery(prev => prev.filter(img => img.id !== id));
+    writeImage(id, () => deleteImage(id))
+      .catch(e => console.warn("Could not delete saved image:", e))
+      .finally(refreshStorageUsage);
+  };
+
+  const handleDownload = (image: GeneratedImage) => {
+    downloadShot(image).catch(e => {
+      console.error("Download failed:", e);
+      setErrorMessage("Could not save the photo.");
+    });
+  };
+
+  const handleExportZip = async (images: GeneratedImage[], includeOriginals: boolean, label?: string) => {
+    try {
+      downloadBlob(buildZipFilename(label), await exportZip(images, { includeOriginals }));
+    } catch (e) {
+      console.error("ZIP export failed:", e);
+      setErrorMessage("Could not create the ZIP file. Try exporting fewer photos.");
+    }
+  };
+
+  const handleJobComplete = (job: GenerationJob, result: StudioShotResult) => {
+    const newImage = buildGeneratedImage(job.originalUrl, job.background, job.lighting, job.settings, result, job.template, {
+      batchId: job.batchId,
+      framing: job.framing,
+      brandKit: job.brandKit,
+      projectId: job.projectId,
+      refinement: job.refinement,
+      variantGroupId: job.variantGroupId,
+      maskMode: job.mask?.mode,
+      productSet: job.productSet,
+    });
+    setGallery(prev => [newImage, ...prev]);
+    // Someone looking at the shot being refined sees the new version arrive
+    setViewedImage(prev => prev && job.refinement && getRootId(prev) === job.refinement.rootId ? newImage : prev);
+    persistImage(newImage);
+    if (fidelitySettings.enabled) runFidelityCheck(job, newImage);
+  };
 
+  // Scores the shot after it is shown, then re-queues it if it fails and auto-regenerate is on
+  const runFidelityCheck = async (job: GenerationJob, image: GeneratedImage) => {
     try {
-      const generatedImageBase64 = await generateStudioShot(
-        originalImageBase64, 
-        selectedBg, 
-        selectedLighting, 
-        settings
-      );
-
-      const newImage: GeneratedImage = {
-        id: crypto.randomUUID ? crypto.randomUUID() : Math.random().toString(36).substring(2),
-        originalUrl: originalImageBase64,
-        generatedUrl: generatedImageBase64,
-        timestamp: Date.now(),
-        settings: {
-          backgroundName: selectedBg.name,
-          type: selectedBg.type,
-          value: selectedBg.value,
-          previewClass: selectedBg.previewClass,
-          lightingName: selectedLighting.name,
-          lightingDirection: settings.lightingDirection
-        },
-      };
-
-      setGallery(prev => [newImage, ...prev]);
-      setAppState(AppState.SUCCESS);
-    } catch (error: any) {
-      console.error("Failed:", error);
-      setErrorMessage(error.message || "Failed to generate image.");
-      setAppState(AppState.ERROR);
+      const report = await checkFidelity(image.originalUrl, image.generatedUrl);
+      // Deleted while it was being scored; don't write it back or regenerate it
+      const current = galleryRef.current.find(img => img.id === image.id);
+      if (!report || !current) return;
+      // Only the score is patched in, so moves and grouping made meanwhile survive
+      setGallery(prev => prev.map(img => img.id === image.id ? { ...img, fidelity: report } : img));
+      persistImage({ ...current, fidelity: report });
+
+      const attempts = job.regeneration || 0;
+      if (isLowFidelity(report, fidelitySettings) && fidelitySettings.autoRegenerate && attempts < fidelitySettings.maxRegenerations) {
+        const { id, status, createdAt, error, errorKind, ...rest } = job;
+        queue.enqueue([{ ...rest, regeneration: attempts + 1 }]);
+      }
+    } catch (e) {
+      console.warn("Fidelity check failed:", e);
+    }
+  };
+
+  const handleUpdateFidelity = (next: FidelitySettings) => {
+    setFidelitySettings(next);
+    saveFidelitySettings(next);
+  };
+
+  const handleUpdatePreviewQuality = (next: PreviewQualitySettings) => {
+    setPreviewQuality(next);
+    savePreviewQualitySettings(next);
+  };
+
+  const queue = useGenerationQueue({
+    concurrency: batch.concurrency,
+    onComplete: handleJobComplete,
+    onCall: (job, call) => usage.record(call, job.projectId),
+    isBudgetExhausted: () => usage.status === 'blocked',
+  });
+
+  const activeJobCount = queue.jobs.filter(job => job.status !== 'failed').length;
+
+  const activeSet = productSets.activeSet;
+  const setAngle = activeSet
+    ? (chosenAngle && activeSet.angles.includes(chosenAngle) ? chosenAngle : getNextAngle(activeSet, gallery, queue.jobs) || activeSet.angles[0])
+    : null;
+
+  // Kit rules first, then the user's own instructions
+  const promptAdditions = [activeKit?.promptAdditions, promptInstructions]
+    .map(text => text?.trim())
+    .filter(Boolean)
+    .join('\n');
+
+  // Snapshotted into every job at capture time
+  const jobFields = {
+    brandKit: activeKit ? toBrandKitRef(activeKit) : undefined,
+    template: selectedTemplate,
+    promptAdditions: promptAdditions || undefined,
+    projectId: projects.activeProject?.id,
+  };
+
+  const handleBatchCapture = (originalImageBase64: string, framing?: Framing, mask?: SubjectMask) => {
+    const backgrounds = [selectedBg, ...PRESET_BACKGROUNDS, ...library.backgrounds]
+      .filter((bg, i, all) => batch.backgroundIds.includes(bg.id) && all.findIndex(b => b.id === bg.id) === i);
+    const lightings = [...PRESET_LIGHTING, ...userLighting.presets].filter(light => batch.lightingIds.includes(light.id));
+    const combinations = buildCombinations(backgrounds, lightings);
+
+    if (combinations.length === 0) {
+      setErrorMessage("Pick at least one background and one lighting for batch mode.");
+      return;
     }
+
+    const batchId = newId();
+    queue.enqueue(combinations.map(c => ({ originalUrl: originalImageBase64, ...c, settings, batchId, framing, mask, ...jobFields })));
+    setActiveBatchId(batchId);
+  };
+
+  // Set captures ignore batch mode and the current selection: every angle gets the set's locked setup,
+  // and all but the reference's own angle are sent the reference shot to match
+  const handleSetCapture = (set: ProductSet, angle: string, originalImageBase64: string, framing?: Framing, mask?: SubjectMask) => {
+    const reference = getReferenceShot(set, gallery);
+    queue.enqueue([{
+      originalUrl: originalImageBase64,
+      ...set.setup,
+      framing,
+      mask,
+      ...jobFields,
+      projectId: set.projectId || jobFields.projectId,
+      productSet: toProductSetRef(set, angle),
+      styleReferenceUrl: reference && reference.productSet?.angle !== angle ? reference.generatedUrl : undefined,
+    }]);
+    setChosenAngle(null);
+  };
+
+  // Every capture becomes a queued job, so the camera is free again right away
+  const handleCapture = (originalImageBase64: string, framing?: Framing, mask?: SubjectMask) => {
+    setAppState(AppState.IDLE);
+    setErrorMessage(null);
+    projects.remember({ settings, background: selectedBg, lighting: selectedLighting });
+
+    if (activeSet && setAngle) return handleSetCapture(activeSet, setAngle, originalImageBase64, framing, mask);
+    if (batch.enabled) return handleBatchCapture(originalImageBase64, framing, mask);
+
+    queue.enqueue([{ originalUrl: originalImageBase64, background: selectedBg, lighting: selectedLighting, settings, framing, mask, ...jobFields }]);
+  };
+
+  const getSetupOf = (image: GeneratedImage) => getImageSetup(image, {
+    backgrounds: [...PRESET_BACKGROUNDS, ...library.backgrounds],
+    lightings: [...PRESET_LIGHTING, ...userLighting.presets],
+    settings,
+  });
+
+  // The finished shot goes back to the provider with the instruction; the result becomes its next version
+  const handleRefine = (image: GeneratedImage, instruction: string) => {
+    const setup = getSetupOf(image);
+    queue.enqueue([{
+      originalUrl: image.originalUrl,
+      sourceUrl: image.generatedUrl,
+      ...setup,
+      // No template or prompt additions: the refinement prompt replaces them, and the
+      // current kit's rules must not leak into a shot made under another kit
+      batchId: image.batchId,
+      framing: image.framing,
+      brandKit: image.brandKit,
+      projectId: image.projectId,
+      variantGroupId: image.variantGroupId,
+      productSet: image.productSet,
+      refinement: { parentId: image.id, rootId: getRootId(image), instruction },
+    }]);
+  };
+
+  // New shots from the stored capture join a variation group with their source, so the best one can be kept
+  const handleRegenerate = (image: GeneratedImage, count: number, setup: ProjectSetup) => {
+    const variantGroupId = image.variantGroupId || newId();
+    if (!image.variantGroupId) {
+      const grouped = { ...image, variantGroupId };
+      setGallery(prev => prev.map(img => img.id === image.id ? grouped : img));
+      persistImage(grouped);
+    }
+    queue.enqueue(Array.from({ length: count }, () => ({
+      originalUrl: image.originalUrl,
+      ...setup,
+      ...jobFields,
+      framing: image.framing,
+      projectId: image.projectId,
+      productSet: image.productSet,
+      variantGroupId,
+    })));
+  };
+
+  // Keeps one variation (with its refined versions) and deletes the rest of its group
+  const handleKeepVariant = (id: string) => {
+    const kept = gallery.find(img => img.id === id);
+    if (!kept?.variantGroupId) return;
+    const group = gallery.filter(img => img.variantGroupId === kept.variantGroupId);
+    group.filter(img => getRootId(img) !== getRootId(kept)).forEach(img => handleRemove(img.id));
+
+    const ungrouped = group
+      .filter(img => getRootId(img) === getRootId(kept))
+      .map(img => ({ ...img, variantGroupId: undefined }));
+    setGallery(prev => prev.map(img => ungrouped.find(u => u.id === img.id) || img));
+    ungrouped.forEach(persistImage);
+  };
+
+  // Framed captures go through the mask editor first when masking is on
+  const handleFramedCapture = (src: string, framing?: Framing) => {
+    if (!maskSubject) return handleCapture(src, framing);
+    setAppState(AppState.IDLE);
+    setPendingMask({ src, framing });
+  };
+
+  const handleCameraCapture = (imageSrc: string) => {
+    if (!reviewFraming) return handleFramedCapture(imageSrc);
+    setAppState(AppState.IDLE);
+    setPendingFrame(imageSrc);
+  };
+
+  const handleFramingConfirm = (croppedSrc: string, framing: Framing) => {
+    setPendingFrame(null);
+    setLastFraming(framing);
+    handleFramedCapture(croppedSrc, framing);
+  };
+
+  const handleMaskConfirm = (mask?: SubjectMask) => {
+    if (!pendingMask) return;
+    setPendingMask(null);
+    if (mask) setLastMaskMode(mask.mode);
+    handleCapture(pendingMask.src, pendingMask.framing, mask);
+  };
+
+  // Settings embedded in a shot downloaded from this app; anything that no longer matches stays as it is
+  const restoreSettings = (meta: ShotMetadata) => {
+    const backgrounds = [...PRESET_BACKGROUNDS, ...library.backgrounds];
+    const bg = backgrounds.find(b => b.type === meta.backgroundType && b.value === meta.backgroundValue)
+      || backgrounds.find(b => b.name === meta.backgroundName);
+    if (bg) {
+      setSelectedBg(bg);
+    } else if (meta.backgroundType !== 'image') {
+      setSelectedBg({ id: 'custom-restored', name: meta.backgroundName, type: meta.backgroundType, value: meta.backgroundValue, previewClass: '' });
+    }
+
+    const lighting = [...PRESET_LIGHTING, ...userLighting.presets].find(light => light.name === meta.lightingName);
+    if (lighting) setSelectedLighting(lighting);
+
+    setSettings(prev => ({
+      ...prev,
+      ...(meta.aspectRatio && { aspectRatio: meta.aspectRatio }),
+      ...(meta.lightingDirection && { lightingDirection: meta.lightingDirection }),
+    }));
+    setActiveKit(null);
+  };
+
+  // Imported photos go through the same pipeline as camera captures, one job (or batch) per file.
+  // A shot exported from this app instead restores the settings it was made with. Only the first
+  // one does, after the plain photos are queued, so those all use the settings they were dropped with.
+  const handleImportFiles = async (files: File[]) => {
+    const importable = files.filter(isImportableFile);
+    const skipped = files.length - importable.length;
+    const failed: string[] = [];
+    const tagged: { file: File; meta: ShotMetadata }[] = [];
+
+    setErrorMessage(null);
+    for (const file of importable) {
+      try {
+        const embedded = await readMetadata(file);
+        if (embedded) {
+          tagged.push({ file, meta: embedded });
+          continue;
+        }
+        handleCapture(await importImageFile(file, settings.aspectRatio));
+      } catch (e) {
+        console.error("Import failed:", file.name, e);
+        failed.push(file.name);
+      }
+    }
+
+    const parts = [];
+    if (tagged.length > 0) {
+      restoreSettings(tagged[0].meta);
+      parts.push(`Restored the settings of ${tagged[0].file.name}.`);
+      if (tagged.length > 1) parts.push(`${tagged.length - 1} other studio shot${tagged.length > 2 ? 's were' : ' was'} not used; import them one at a time.`);
+    }
+    if (failed.length > 0) parts.push(`Could not read ${failed.join(', ')}.`);
+    if (skipped > 0) parts.push(`${skipped} file${skipped > 1 ? 's are' : ' is'} not a photo.`);
+    if (parts.length > 0) setErrorMessage(parts.join(' '));
   };
 
   const triggerCapture = () => {
+    if (appState === AppState.CAPTURING) {
+      cameraRef.current?.cancel();
+      setAppState(AppState.IDLE);
+      return;
+    }
+    if (captureBlocked) return;
     if (cameraRef.current) {
       setAppState(AppState.CAPTURING);
       setTimeout(() => cameraRef.current?.capture(), 50);
@@ -70,6 +476,75 @@ export default function App() {
 
   const handleUpdateSettings = (key: keyof CameraSettings, val: any) => {
       setSettings(prev => ({ ...prev, [key]: val }));
+      setActiveKit(null);
+  };
+
+  const handleSelectBg = (bg: BackgroundOption) => {
+    setSelectedBg(bg);
+    setActiveKit(null);
+  };
+
+  const handleSelectLighting = (light: LightingOption) => {
+    setSelectedLighting(light);
+    setActiveKit(null);
+  };
+
+  const applySetup = (setup: ProjectSetup) => {
+    setSelectedBg(setup.background);
+    setSelectedLighting(setup.lighting);
+    setSettings(setup.settings);
+    setActiveKit(null);
+  };
+
+  // The project being left keeps the current setup; the one being opened brings its own back
+  const handleSelectProject = (project: Project | null) => {
+    projects.select(project?.id || null, { settings, background: selectedBg, lighting: selectedLighting });
+    if (project?.lastSetup) applySetup(project.lastSetup);
+  };
+
+  const handleStartSet = (name: string, angles: string[]) => {
+    const set = createProductSet(name, angles, { settings, background: selectedBg, lighting: selectedLighting }, projects.activeProject?.id);
+    productSets.save(set);
+    productSets.select(set.id);
+    setChosenAngle(null);
+  };
+
+  const handleResumeSet = (set: ProductSet) => {
+    productSets.select(set.id);
+    applySetup(set.setup);
+    setChosenAngle(null);
+  };
+
+  const handleToggleAccepted = (image: GeneratedImage) => {
+    if (activeSet) productSets.save(toggleAccepted(activeSet, image, gallery));
+  };
+
+  // Accepted shots when there are any, otherwise every shot of the set
+  const handleExportSet = (setId: string) => {
+    const set = productSets.sets.find(s => s.id === setId);
+    const accepted = set ? getAcceptedShots(set, gallery) : [];
+    const images = accepted.length > 0 ? accepted : getSetShots(gallery, setId);
+    if (images.length === 0) return;
+    handleExportZip(images, false, set?.name || images[0].productSet?.name);
+  };
+
+  // The gallery shows latest versions only; earlier versions move along so a history stays in one project
+  const handleMoveToProject = (ids: string[], projectId: string | null) => {
+    const rootIds = new Set(gallery.filter(img => ids.includes(img.id)).map(getRootId));
+    const moved = gallery
+      .filter(img => rootIds.has(getRootId(img)))
+      .map(img => ({ ...img, projectId: projectId || undefined }));
+    setGallery(prev => prev.map(img => moved.find(m => m.id === img.id) || img));
+    moved.forEach(persistImage);
+  };
+
+  // Applies the whole kit at once; null just detaches the current one
+  const handleApplyKit = (kit: BrandKit | null) => {
+    setActiveKit(kit);
+    if (!kit) return;
+    setSelectedBg(kit.background);
+    setSelectedLighting(kit.lighting);
+    setSettings(kit.settings);
   };
 
   return (
@@ -82,43 +557,212 @@ export default function App() {
           </div>
           <h1 className="font-bold text-lg text-white">Instant Studio</h1>
         </div>
+        <button
+          onClick={() => setShowUsage(true)}
+          className={`flex items-center gap-1.5 px-3 py-1.5 rounded-full text-xs font-medium border transition-colors ${
+            usage.status === 'blocked'
+              ? 'bg-red-500/20 border-red-500/40 text-red-200'
+              : usage.status === 'warning'
+                ? 'bg-amber-500/20 border-amber-500/40 text-amber-200'
+                : 'bg-studio-800 border-white/5 text-gray-300 hover:text-white'
+          }`}
+          title={`Estimated spend ${usage.settings.period === 'day' ? 'today' : 'this month'}`}
+        >
+          <Receipt size={14} />
+          {formatCost(getPeriodSpend(usage.entries, usage.settings.period))}
+        </button>
       </header>
 
       {/* Main Content */}
+      <ImportDropzone onFiles={handleImportFiles}>
       <main className="flex-1 overflow-y-auto no-scrollbar p-4 space-y-6">
+        <ProjectBar
+          projects={projects.projects}
+          activeProject={projects.activeProject}
+          onSelect={handleSelectProject}
+          onSave={projects.save}
+          onDelete={projects.remove}
+        />
+
+        {activeSet && setAngle && (
+          <ProductSetPanel
+            set={activeSet}
+            images={gallery}
+            jobs={queue.jobs}
+            currentAngle={setAngle}
+            onSelectAngle={setChosenAngle}
+            onToggleAccepted={handleToggleAccepted}
+            onView={setViewedImage}
+            onExport={() => handleExportSet(activeSet.id)}
+            onClose={() => productSets.select(null)}
+          />
+        )}
+
         {/* Camera */}
         <div className="w-full relative">
            <div className="w-full aspect-square rounded-3xl overflow-hidden shadow-2xl bg-black ring-1 ring-white/10 relative z-0">
             <Camera 
               ref={cameraRef}
-              onCapture={handleCapture}
-              isProcessing={appState === AppState.PROCESSING}
+              onCapture={handleCameraCapture}
+              activeJobs={activeJobCount}
               aspectRatio={settings.aspectRatio}
+              fullFrame={reviewFraming}
+              captureMode={captureMode}
+              onCaptureCancel={() => setAppState(AppState.IDLE)}
+              qualityCheck={previewQuality.enabled}
+              onWarningsChange={setPreviewWarnings}
             />
           </div>
         </div>
 
         {/* Capture Button */}
-        <div className="flex justify-center -mt-4 relative z-20">
+        <div className="flex justify-center items-center gap-6 -mt-4 relative z-20">
+          <button
+            onClick={() => importInputRef.current?.click()}
+            className="w-12 h-12 rounded-full bg-studio-800 border border-white/10 text-gray-300 flex items-center justify-center hover:bg-studio-700 hover:text-white transition-colors shadow-lg"
+            title="Import Photos"
+          >
+            <ImagePlus size={20} />
+            <input
+              type="file"
+              ref={importInputRef}
+              onChange={(e) => {
+                const files = Array.from(e.target.files || []);
+                e.target.value = ''; // Allow picking the same files again
+                if (files.length > 0) handleImportFiles(files);
+              }}
+              accept={ACCEPTED_IMPORT_TYPES}
+              multiple
+              className="hidden"
+            />
+          </button>
+
           <button
             onClick={triggerCapture}
-            disabled={appState === AppState.PROCESSING || appState === AppState.CAPTURING}
+            disabled={appState === AppState.CAPTURING ? !canCancelCapture : captureBlocked}
             className={`
-              w-20 h-20 rounded-full border-4 border-studio-900 shadow-xl flex items-center justify-center transition-all
-              ${appState === AppState.PROCESSING 
-                ? 'bg-studio-700 cursor-not-allowed' 
-                : 'bg-white hover:bg-gray-100 hover:scale-105 active:scale-95'
+              relative w-20 h-20 rounded-full border-4 border-studio-900 shadow-xl flex items-center justify-center transition-all
+              ${appState === AppState.CAPTURING 
+                ? canCancelCapture ? 'bg-studio-700 hover:bg-studio-600' : 'bg-studio-700 cursor-not-allowed'
+                : captureBlocked
+                  ? 'bg-gray-400 cursor-not-allowed'
+                  : 'bg-white hover:bg-gray-100 hover:scale-105 active:scale-95'
               }
             `}
+            title={appState === AppState.CAPTURING && canCancelCapture
+              ? 'Cancel capture'
+              : captureBlocked
+                ? 'Fix the critical preview warning first'
+                : CAPTURE_MODES.find(m => m.mode === captureMode)?.hint}
           >
-            {appState === AppState.PROCESSING ? (
-              <div className="w-8 h-8 border-2 border-gray-400 border-t-transparent rounded-full animate-spin" />
+            {activeJobCount > 0 && (
+              <span className="absolute -top-1 -right-1 min-w-[22px] h-[22px] px-1 rounded-full bg-studio-accent text-white text-[11px] font-bold flex items-center justify-center border-2 border-studio-900">
+                {activeJobCount}
+              </span>
+            )}
+            {appState === AppState.CAPTURING && canCancelCapture ? (
+              <X size={32} className="text-white" />
+            ) : captureMode === 'timer2' || captureMode === 'timer5' ? (
+              <span className="flex flex-col items-center text-studio-900 leading-none">
+                <Timer size={26} />
+                <span className="text-[10px] font-bold mt-0.5">{captureMode === 'timer2' ? '2s' : '5s'}</span>
+              </span>
+            ) : captureMode === 'burst' ? (
+              <Images size={32} className="text-studio-900" />
+            ) : captureMode === 'stable' ? (
+              <Hand size={32} className="text-studio-900" />
+            ) : batch.enabled ? (
+              <Layers size={32} className="text-studio-900" />
             ) : (
               <CameraIcon size={32} className="text-studio-900" />
             )}
+            {batch.enabled && captureMode !== 'instant' && (
+              <span className="absolute -bottom-1 -right-1 w-[22px] h-[22px] rounded-full bg-studio-800 text-white flex items-center justify-center border-2 border-studio-900">
+                <Layers size={11} />
+              </span>
+            )}
+          </button>
+
+          <button
+            onClick={() => setReviewFraming(prev => !prev)}
+            className={`w-12 h-12 rounded-full border flex items-center justify-center transition-colors shadow-lg ${
+              reviewFraming
+                ? 'bg-studio-accent border-studio-accent text-white'
+                : 'bg-studio-800 border-white/10 text-gray-300 hover:bg-studio-700 hover:text-white'
+            }`}
+            title={reviewFraming ? 'Framing review on' : 'Review framing before generating'}
+          >
+            <Crop size={20} />
+          </button>
+
+          <button
+            onClick={() => setMaskSubject(prev => !prev)}
+            className={`w-12 h-12 rounded-full border flex items-center justify-center transition-colors shadow-lg ${
+              maskSubject
+                ? 'bg-studio-accent border-studio-accent text-white'
+                : 'bg-studio-800 border-white/10 text-gray-300 hover:bg-studio-700 hover:text-white'
+            }`}
+            title={maskSubject ? 'Product masking on' : 'Paint a product mask before generating'}
+          >
+            <Brush size={20} />
           </button>
         </div>
 
+        {/* Capture Mode */}
+        <div className="flex justify-center gap-1">
+          {CAPTURE_MODES.map(option => (
+            <button
+              key={option.mode}
+              onClick={() => setCaptureMode(option.mode)}
+              disabled={appState === AppState.CAPTURING}
+              className={`px-3 py-1 rounded-full text-[11px] font-medium transition-colors ${
+                captureMode === option.mode ? 'bg-studio-accent text-white' : 'text-gray-400 hover:text-white'
+              }`}
+              title={option.hint}
+            >
+              {option.label}
+            </button>
+          ))}
+          {!activeSet && (
+            <>
+              <span className="w-px my-1 mx-1 bg-white/10" />
+              <button
+                onClick={() => setEditingSet(true)}
+                className="flex items-center gap-1 px-3 py-1 rounded-full text-[11px] font-medium text-gray-400 hover:text-white transition-colors"
+                title="Shoot several angles of one product with identical styling"
+              >
+                <Boxes size={12} /> Set
+              </button>
+            </>
+          )}
+        </div>
+
+        {/* Batch Progress */}
+        {activeBatchId && (
+          <BatchProgress
+            jobs={queue.jobs.filter(job => job.batchId === activeBatchId)}
+            completed={gallery.filter(img => img.batchId === activeBatchId)}
+            onCancel={() => queue.cancelBatch(activeBatchId)}
+            onDismiss={() => setActiveBatchId(null)}
+          />
+        )}
+
+        {/* Budget */}
+        {usage.status !== 'ok' && (
+          <button
+            onClick={() => setShowUsage(true)}
+            className={`w-full p-3 rounded-xl text-sm text-center border ${
+              usage.status === 'blocked'
+                ? 'bg-red-500/10 border-red-500/20 text-red-200'
+                : 'bg-amber-500/10 border-amber-500/20 text-amber-200'
+            }`}
+          >
+            {usage.status === 'blocked'
+              ? 'Spending budget used up. New shots will wait as failed jobs until you raise it.'
+              : `Over ${Math.round(usage.settings.warnAt * 100)}% of the ${usage.settings.period === 'day' ? 'daily' : 'monthly'} budget spent.`}
+          </button>
+        )}
+
         {/* Error Message */}
         {errorMessage && (
           <div className="bg-red-500/10 border border-red-500/20 text-red-200 p-3 rounded-xl text-sm text-center animate-pulse">
@@ -130,26 +774,103 @@ export default function App() {
         <div className="bg-studio-800/50 rounded-2xl p-4 border border-white/5 backdrop-blur-sm">
           <ControlPanel 
             selectedBg={selectedBg} 
-            onSelectBg={setSelectedBg}
+            onSelectBg={handleSelectBg}
             selectedLighting={selectedLighting}
-            onSelectLighting={setSelectedLighting}
+            onSelectLighting={handleSelectLighting}
+            userLighting={userLighting.presets}
+            onSaveLighting={userLighting.save}
+            onDeleteLighting={userLighting.remove}
+            onImportLighting={userLighting.merge}
+            libraryBackgrounds={library.backgrounds}
+            onSaveBackground={library.save}
+            onDeleteBackground={library.remove}
+            onToggleFavoriteBackground={library.toggleFavorite}
+            onImportBackgrounds={library.merge}
+            brandKits={brandKits.kits}
+            activeKit={activeKit}
+            onApplyKit={handleApplyKit}
+            onSaveKit={brandKits.save}
+            onDeleteKit={brandKits.remove}
+            promptTemplates={promptTemplates.templates}
+            selectedTemplate={selectedTemplate}
+            onSelectTemplate={setSelectedTemplate}
+            onSaveTemplate={promptTemplates.save}
+            onDeleteTemplate={promptTemplates.remove}
+            promptInstructions={promptInstructions}
+            onUpdateInstructions={setPromptInstructions}
+            promptAdditions={promptAdditions}
+            fidelity={fidelitySettings}
+            onUpdateFidelity={handleUpdateFidelity}
+            previewQuality={previewQuality}
+            onUpdatePreviewQuality={handleUpdatePreviewQuality}
+            onError={setErrorMessage}
             settings={settings}
             onUpdateSettings={handleUpdateSettings}
             activeTab={activeTab}
             setActiveTab={setActiveTab}
-            disabled={appState === AppState.PROCESSING}
+            batch={batch}
+            onUpdateBatch={setBatch}
           />
         </div>
 
         {/* Gallery */}
         <Gallery 
           images={gallery} 
-          onRemove={(id) => setGallery(prev => prev.filter(img => img.id !== id))}
+          jobs={queue.jobs}
+          onRetryJob={queue.retry}
+          onRemoveJob={queue.remove}
+          onRemove={handleRemove}
           onView={setViewedImage}
+          onDownload={handleDownload}
+          onCompare={setComparedImage}
+          onRefine={setRefiningImage}
+          onRegenerate={setRegeneratingImage}
+          onPickVariant={setPickingGroupId}
+          onExportSet={handleExportSet}
+          fidelityThreshold={fidelitySettings.enabled ? fidelitySettings.threshold : undefined}
+          storageUsage={storageUsage}
+          onExportZip={handleExportZip}
+          projects={projects.projects}
+          activeProjectId={projects.activeProject?.id}
+          onMoveToProject={handleMoveToProject}
         />
         
         <div className="h-8" />
       </main>
+      </ImportDropzone>
+
+      {/* Framing Review */}
+      {pendingFrame && (
+        <FramingEditor
+          imageSrc={pendingFrame}
+          aspectRatio={settings.aspectRatio}
+          initialFraming={lastFraming}
+          onConfirm={handleFramingConfirm}
+          onCancel={() => setPendingFrame(null)}
+        />
+      )}
+
+      {editingSet && (
+        <ProductSetEditor
+          setup={{ settings, background: selectedBg, lighting: selectedLighting }}
+          sets={productSets.sets}
+          onStart={handleStartSet}
+          onResume={handleResumeSet}
+          onDelete={productSets.remove}
+          onClose={() => setEditingSet(false)}
+        />
+      )}
+
+      {/* Subject Mask */}
+      {pendingMask && (
+        <MaskEditor
+          imageSrc={pendingMask.src}
+          initialMode={lastMaskMode}
+          onConfirm={handleMaskConfirm}
+          onSkip={() => handleMaskConfirm()}
+          onCancel={() => setPendingMask(null)}
+        />
+      )}
 
       {/* Fullscreen Preview */}
       {viewedImage && (
@@ -164,7 +885,14 @@ export default function App() {
           <img 
             src={viewedImage.generatedUrl} 
             alt="Full size" 
-            className="max-w-full max-h-[80vh] object-contain rounded-lg shadow-2xl mb-6"
+            className="max-w-full max-h-[70vh] object-contain rounded-lg shadow-2xl mb-4"
+          />
+
+          <VersionHistory
+            versions={getVersions(gallery, viewedImage)}
+            current={viewedImage}
+            pending={queue.jobs.filter(job => job.status !== 'failed' && job.refinement?.rootId === getRootId(viewedImage)).length}
+            onSelect={setViewedImage}
           />
           
           <div className="flex flex-col items-center gap-2">
@@ -180,17 +908,150 @@ export default function App() {
                     <span>{viewedImage.settings.lightingName}</span>
                   </>
                 )}
+                {viewedImage.brandKit && (
+                  <>
+                    <span className="text-gray-600">|</span>
+                    <span className="text-studio-accent">{viewedImage.brandKit.name}</span>
+                  </>
+                )}
+                {viewedImage.maskMode && (
+                  <>
+                    <span className="text-gray-600">|</span>
+                    <span title={viewedImage.maskMode === 'composite' ? 'Product pixels composited over a generated set' : 'Generated with a subject mask'}>
+                      {viewedImage.maskMode === 'composite' ? 'Pixel-exact' : 'Masked'}
+                    </span>
+                  </>
+                )}
+                {viewedImage.fidelity && (
+                  <>
+                    <span className="text-gray-600">|</span>
+                    <span
+                      className={isLowFidelity(viewedImage.fidelity, fidelitySettings) ? 'text-amber-400' : ''}
+                      title="Product fidelity vs. the original capture"
+                    >
+                      Fidelity {Math.round(viewedImage.fidelity.score * 100)}%
+                    </span>
+                  </>
+                )}
+                {viewedImage.generation?.promptTemplate && (
+                  <>
+                    <span className="text-gray-600">|</span>
+                    <span title={viewedImage.generation.prompt}>
+                      {viewedImage.generation.promptTemplate.name} v{viewedImage.generation.promptTemplate.version}
+                    </span>
+                  </>
+                )}
+             </div>
+             <div className="flex flex-wrap justify-center items-center gap-2 mt-2">
+               <button
+                 onClick={() => handleDownload(viewedImage)}
+                 className="flex items-center gap-2 px-6 py-3 bg-white text-black rounded-full font-bold hover:bg-gray-100 transition-colors"
+               >
+                 <Download size={18} /> Save Photo
+               </button>
+               <button
+                 onClick={() => setRegeneratingImage(viewedImage)}
+                 className="flex items-center gap-2 px-4 py-3 bg-white/10 text-white rounded-full font-medium hover:bg-white/20 transition-colors"
+                 title="Run the original capture again, with the same or new settings"
+               >
+                 <Shuffle size={18} /> Regenerate
+               </button>
+               <button
+                 onClick={() => setRefiningImage(viewedImage)}
+                 className="flex items-center gap-2 px-4 py-3 bg-white/10 text-white rounded-full font-medium hover:bg-white/20 transition-colors"
+                 title="Ask for a small change to this shot"
+               >
+                 <Wand2 size={18} /> Refine
+               </button>
+               <button
+                 onClick={() => setComparedImage(viewedImage)}
+                 className="flex items-center gap-2 px-4 py-3 bg-white/10 text-white rounded-full font-medium hover:bg-white/20 transition-colors"
+                 title="Compare with the original capture"
+               >
+                 <FlipHorizontal2 size={18} /> Compare
+               </button>
+               <button
+                 onClick={() => setExportingImage(viewedImage)}
+                 className="flex items-center gap-2 px-4 py-3 bg-white/10 text-white rounded-full font-medium hover:bg-white/20 transition-colors"
+                 title="Export at marketplace specs"
+               >
+                 <Store size={18} /> Export
+               </button>
+               {viewedImage.framing && (
+                 <button
+                   onClick={() => {
+                     setLastFraming(viewedImage.framing!);
+                     setReviewFraming(true);
+                     setViewedImage(null);
+                   }}
+                   className="flex items-center gap-2 px-4 py-3 bg-white/10 text-white rounded-full font-medium hover:bg-white/20 transition-colors"
+                   title="Start the next capture with this framing"
+                 >
+                   <Crop size={18} /> Reuse Framing
+                 </button>
+               )}
              </div>
-             <a 
-               href={viewedImage.generatedUrl} 
-               download={`studio-shot-${viewedImage.timestamp}.png`}
-               className="flex items-center gap-2 px-6 py-3 bg-white text-black rounded-full font-bold hover:bg-gray-100 transition-colors mt-2"
-             >
-               <Download size={18} /> Save Photo
-             </a>
           </div>
         </div>
       )}
+
+      {/* Before/After Comparison (above the fullscreen preview it may be opened from) */}
+      {comparedImage && (
+        <ComparisonViewer
+          beforeSrc={comparedImage.originalUrl}
+          afterSrc={comparedImage.generatedUrl}
+          onClose={() => setComparedImage(null)}
+        />
+      )}
+
+      {refiningImage && (
+        <RefineDialog
+          image={refiningImage}
+          onRefine={(instruction) => handleRefine(refiningImage, instruction)}
+          onClose={() => setRefiningImage(null)}
+        />
+      )}
+
+      {regeneratingImage && (
+        <RegenerateDialog
+          image={regeneratingImage}
+          original={getSetupOf(regeneratingImage)}
+          current={{ settings, background: selectedBg, lighting: selectedLighting }}
+          onConfirm={(count, setup) => handleRegenerate(regeneratingImage, count, setup)}
+          onClose={() => setRegeneratingImage(null)}
+        />
+      )}
+
+      {pickingGroupId && (
+        <VariantPicker
+          variants={latestVersions(gallery.filter(img => img.variantGroupId === pickingGroupId)).sort((a, b) => a.timestamp - b.timestamp)}
+          onKeep={handleKeepVariant}
+          onClose={() => setPickingGroupId(null)}
+        />
+      )}
+
+      {exportingImage && (
+        <ExportDialog
+          image={exportingImage}
+          profiles={exportProfiles.profiles}
+          onSaveProfile={exportProfiles.save}
+          onDeleteProfile={exportProfiles.remove}
+          onResetProfiles={exportProfiles.reset}
+          onClose={() => setExportingImage(null)}
+        />
+      )}
+
+      {showUsage && (
+        <UsageDashboard
+          entries={usage.entries}
+          settings={usage.settings}
+          status={usage.status}
+          projects={projects.projects}
+          onUpdateSettings={usage.updateSettings}
+          onClear={usage.clear}
+          onClose={() => setShowUsage(false)}
+        />
+      )}
     </div>
   );
 }
\ No newline at end of file
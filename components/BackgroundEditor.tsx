@@ -0,0 +1,174 @@
+import React, { useRef, useState } from 'react';
+import { BackgroundType, LibraryBackground } from '../types';
+import { createLibraryBackground, parseTags } from '../services/backgroundLibraryService';
+import { X, Trash2, Save, Star, Upload } from 'lucide-react';
+
+interface BackgroundEditorProps {
+  background: LibraryBackground; // Existing entry, or a draft from createLibraryBackground
+  isNew: boolean;
+  onSave: (background: LibraryBackground) => void;
+  onDelete: (id: string) => void;
+  onClose: () => void;
+}
+
+const TYPES: { type: BackgroundType; label: string }[] = [
+  { type: 'solid', label: 'Colour' },
+  { type: 'gradient', label: 'Gradient' },
+  { type: 'texture', label: 'Texture' },
+  { type: 'image', label: 'Scene' },
+];
+
+const BackgroundEditor: React.FC<BackgroundEditorProps> = ({ background, isNew, onSave, onDelete, onClose }) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [name, setName] = useState(background.name);
+  const [type, setType] = useState<BackgroundType>(background.type);
+  const [value, setValue] = useState(background.value);
+  const [imageSrc, setImageSrc] = useState(background.imageSrc);
+  const [tags, setTags] = useState(background.tags.join(', '));
+  const [favorite, setFavorite] = useState(background.favorite);
+
+  const changeType = (next: BackgroundType) => {
+    setType(next);
+    // Values don't carry over between a hex and a prompt
+    if (next === 'solid' && !/^#[0-9a-f]{6}$/i.test(value)) setValue('#FFFFFF');
+    if (next !== 'solid' && type === 'solid') setValue(next === 'image' ? 'custom image background' : '');
+  };
+
+  const handleFileUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) {
+      const reader = new FileReader();
+      reader.onloadend = () => setImageSrc(reader.result as string);
+      reader.readAsDataURL(file);
+    }
+  };
+
+  const canSave = name.trim() && value.trim() && (type !== 'image' || imageSrc);
+
+  const handleSave = () => {
+    if (!canSave) return;
+    onSave(createLibraryBackground({
+      id: background.id,
+      createdAt: background.createdAt,
+      name: name.trim(),
+      type,
+      value: value.trim(),
+      imageSrc,
+      tags: parseTags(tags),
+      favorite,
+    }));
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/80 backdrop-blur flex items-end sm:items-center justify-center animate-in fade-in duration-200">
+      <div className="w-full max-w-md bg-studio-900 rounded-t-3xl sm:rounded-3xl border border-white/10 p-5 space-y-4 max-h-[90vh] overflow-y-auto no-scrollbar">
+        <div className="flex items-center justify-between">
+          <p className="text-sm text-white font-bold">{isNew ? 'Save Background' : 'Edit Background'}</p>
+          <div className="flex items-center gap-1">
+            <button
+              onClick={() => setFavorite(prev => !prev)}
+              className={`p-2 rounded-full hover:bg-white/10 ${favorite ? 'text-yellow-400' : 'text-gray-500'}`}
+              title="Favourite"
+            >
+              <Star size={18} fill={favorite ? 'currentColor' : 'none'} />
+            </button>
+            <button onClick={onClose} className="p-2 rounded-full text-gray-400 hover:bg-white/10 hover:text-white">
+              <X size={18} />
+            </button>
+          </div>
+        </div>
+
+        <input
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          placeholder="Background name"
+          className="w-full bg-studio-800 border border-studio-700 rounded-lg px-3 py-2 text-sm text-white focus:outline-none focus:ring-2 focus:ring-studio-accent"
+        />
+
+        <div className="grid grid-cols-4 gap-1.5">
+          {TYPES.map(t => (
+            <button
+              key={t.type}
+              onClick={() => changeType(t.type)}
+              className={`
+                py-1.5 rounded-lg text-[11px] font-medium transition-all border
+                ${type === t.type
+                  ? 'bg-studio-accent border-studio-accent text-white'
+                  : 'bg-studio-800 border-studio-700 text-gray-400 hover:bg-studio-700 hover:text-white'}
+              `}
+            >
+              {t.label}
+            </button>
+          ))}
+        </div>
+
+        {type === 'solid' && (
+          <div className="flex items-center gap-3">
+            <input
+              type="color"
+              value={/^#[0-9a-f]{6}$/i.test(value) ? value : '#ffffff'}
+              onChange={(e) => setValue(e.target.value.toUpperCase())}
+              className="w-12 h-10 rounded-lg bg-transparent border border-studio-700 cursor-pointer"
+            />
+            <input
+              value={value}
+              onChange={(e) => setValue(e.target.value)}
+              className="flex-1 bg-studio-800 border border-studio-700 rounded-lg px-3 py-2 text-sm text-white font-mono focus:outline-none focus:ring-2 focus:ring-studio-accent"
+            />
+          </div>
+        )}
+
+        {(type === 'gradient' || type === 'texture') && (
+          <textarea
+            value={value}
+            onChange={(e) => setValue(e.target.value)}
+            rows={3}
+            placeholder={type === 'gradient' ? 'e.g. soft peach to lavender gradient studio background' : 'e.g. dark slate stone surface with subtle veining'}
+            className="w-full bg-studio-800 border border-studio-700 rounded-lg px-3 py-2 text-sm text-white focus:outline-none focus:ring-2 focus:ring-studio-accent resize-none"
+          />
+        )}
+
+        {type === 'image' && (
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            className="w-full aspect-video rounded-xl border border-dashed border-studio-600 bg-studio-800 overflow-hidden flex items-center justify-center text-gray-400 hover:text-white"
+          >
+            {imageSrc
+              ? <img src={imageSrc} alt="Scene" className="w-full h-full object-cover" />
+              : <span className="flex items-center gap-2 text-sm"><Upload size={16} /> Upload Scene</span>}
+            <input type="file" ref={fileInputRef} onChange={handleFileUpload} accept="image/*" className="hidden" />
+          </button>
+        )}
+
+        <input
+          value={tags}
+          onChange={(e) => setTags(e.target.value)}
+          placeholder="Tags, comma separated (e.g. client-a, summer)"
+          className="w-full bg-studio-800 border border-studio-700 rounded-lg px-3 py-2 text-sm text-white focus:outline-none focus:ring-2 focus:ring-studio-accent"
+        />
+
+        <div className="flex gap-2">
+          {!isNew && (
+            <button
+              onClick={() => { onDelete(background.id); onClose(); }}
+              className="px-4 py-2.5 rounded-full bg-red-500/20 text-red-200 hover:bg-red-500/40 transition-colors"
+              title="Delete Background"
+            >
+              <Trash2 size={16} />
+            </button>
+          )}
+          <button
+            onClick={handleSave}
+            disabled={!canSave}
+            className="flex-1 flex items-center justify-center gap-2 py-2.5 rounded-full bg-white text-black font-bold hover:bg-gray-100 transition-colors disabled:opacity-50"
+          >
+            <Save size={16} /> Save to Library
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default BackgroundEditor;
@@ -0,0 +1,176 @@
+import React, { useRef, useState } from 'react';
+import { BackgroundOption, LibraryBackground } from '../types';
+import { createLibraryBackground, exportBackgroundLibrary, parseBackgroundLibraryExport } from '../services/backgroundLibraryService';
+import { downloadJson, readJsonFile } from '../services/localStore';
+import BackgroundEditor from './BackgroundEditor';
+import { Bookmark, BookmarkPlus, Plus, Pencil, Star, FileDown, FileUp } from 'lucide-react';
+
+interface BackgroundLibraryProps {
+  backgrounds: LibraryBackground[];
+  selectedBg: BackgroundOption;
+  onSelectBg: (bg: BackgroundOption) => void;
+  onSave: (bg: LibraryBackground) => void;
+  onDelete: (id: string) => void;
+  onToggleFavorite: (id: string) => void;
+  onImport: (bgs: LibraryBackground[]) => void;
+  onError: (message: string) => void;
+  disabled?: boolean;
+}
+
+const BackgroundLibrary: React.FC<BackgroundLibraryProps> = ({
+  backgrounds,
+  selectedBg,
+  onSelectBg,
+  onSave,
+  onDelete,
+  onToggleFavorite,
+  onImport,
+  onError,
+  disabled = false
+}) => {
+  const importRef = useRef<HTMLInputElement>(null);
+  const [tagFilter, setTagFilter] = useState<string | null>(null);
+  const [editing, setEditing] = useState<{ background: LibraryBackground; isNew: boolean } | null>(null);
+
+  const allTags = Array.from(new Set(backgrounds.flatMap(bg => bg.tags))).sort();
+  const visible = tagFilter ? backgrounds.filter(bg => bg.tags.includes(tagFilter)) : backgrounds;
+
+  // The picker and upload produce throwaway 'custom-*' backgrounds; those can be kept
+  const canSaveCurrent = selectedBg.id.startsWith('custom-');
+
+  const openNew = (from?: BackgroundOption) => setEditing({
+    isNew: true,
+    background: createLibraryBackground(from
+      ? { name: from.type === 'solid' ? from.value.toUpperCase() : 'My Scene', type: from.type, value: from.value, imageSrc: from.imageSrc }
+      : { name: '', type: 'texture', value: '' }),
+  });
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      onImport(parseBackgroundLibraryExport(await readJsonFile(file)));
+    } catch (err: any) {
+      onError(err.message || "Could not import backgrounds.");
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex justify-between items-center text-xs text-gray-400 uppercase tracking-wider font-medium">
+        <span className="flex items-center gap-1"><Bookmark size={12} className="text-studio-accent" /> My Backgrounds</span>
+        <span className="flex items-center gap-2">
+          {canSaveCurrent && (
+            <button
+              onClick={() => openNew(selectedBg)}
+              disabled={disabled}
+              className="flex items-center gap-1 text-gray-400 hover:text-white transition-colors normal-case tracking-normal"
+              title="Save Current Background"
+            >
+              <BookmarkPlus size={12} /> Save
+            </button>
+          )}
+          <button
+            onClick={() => importRef.current?.click()}
+            className="text-gray-500 hover:text-white transition-colors"
+            title="Import Backgrounds"
+          >
+            <FileUp size={12} />
+            <input type="file" ref={importRef} onChange={handleImport} accept="application/json,.json" className="hidden" />
+          </button>
+          <button
+            onClick={() => downloadJson('background-library.json', exportBackgroundLibrary(backgrounds))}
+            disabled={backgrounds.length === 0}
+            className="text-gray-500 hover:text-white transition-colors disabled:opacity-30"
+            title="Export Backgrounds"
+          >
+            <FileDown size={12} />
+          </button>
+        </span>
+      </div>
+
+      {allTags.length > 0 && (
+        <div className="flex gap-1.5 overflow-x-auto no-scrollbar">
+          {[null, ...allTags].map(tag => (
+            <button
+              key={tag ?? 'all'}
+              onClick={() => setTagFilter(tag)}
+              className={`
+                flex-none px-2 py-0.5 rounded-full text-[10px] font-medium transition-all border
+                ${tagFilter === tag
+                  ? 'bg-studio-accent border-studio-accent text-white'
+                  : 'bg-studio-800 border-studio-700 text-gray-400 hover:text-white'}
+              `}
+            >
+              {tag ?? 'All'}
+            </button>
+          ))}
+        </div>
+      )}
+
+      <div className="flex gap-2 overflow-x-auto no-scrollbar pb-2 snap-x">
+        {visible.map(bg => (
+          <button
+            key={bg.id}
+            onClick={() => onSelectBg(bg)}
+            disabled={disabled}
+            className={`
+              flex-none px-3 py-2 rounded-lg flex items-center gap-2 text-xs font-medium transition-all snap-start border
+              ${selectedBg.id === bg.id
+                ? 'bg-studio-700 border-studio-accent text-white shadow-lg'
+                : 'bg-studio-800 border-studio-800 text-gray-400 hover:bg-studio-700 hover:border-studio-600'}
+            `}
+            title={bg.tags.length > 0 ? bg.tags.join(', ') : bg.name}
+          >
+            {bg.type === 'image' && bg.imageSrc ? (
+              <img src={bg.imageSrc} alt="" className="w-4 h-4 rounded-full object-cover" />
+            ) : (
+              <div
+                className={`w-4 h-4 rounded-full ${bg.previewClass}`}
+                style={bg.type === 'solid' ? { backgroundColor: bg.value } : {}}
+              />
+            )}
+            {bg.name}
+            <span
+              onClick={(e) => { e.stopPropagation(); onToggleFavorite(bg.id); }}
+              className={bg.favorite ? 'text-yellow-400' : 'text-gray-600 hover:text-gray-300'}
+              title={bg.favorite ? 'Unfavourite' : 'Favourite'}
+            >
+              <Star size={12} fill={bg.favorite ? 'currentColor' : 'none'} />
+            </span>
+            {selectedBg.id === bg.id && (
+              <span
+                onClick={(e) => { e.stopPropagation(); setEditing({ background: bg, isNew: false }); }}
+                className="p-0.5 -mr-1 rounded text-gray-400 hover:text-white"
+                title="Edit Background"
+              >
+                <Pencil size={12} />
+              </span>
+            )}
+          </button>
+        ))}
+        <button
+          onClick={() => openNew()}
+          disabled={disabled}
+          className="flex-none px-3 py-2 rounded-lg flex items-center gap-1 text-xs font-medium transition-all snap-start border border-dashed border-studio-600 text-gray-400 hover:bg-studio-700 hover:text-white"
+          title="New Background"
+        >
+          <Plus size={14} /> New
+        </button>
+      </div>
+
+      {editing && (
+        <BackgroundEditor
+          background={editing.background}
+          isNew={editing.isNew}
+          onSave={(bg) => { onSave(bg); onSelectBg(bg); }}
+          onDelete={onDelete}
+          onClose={() => setEditing(null)}
+        />
+      )}
+    </div>
+  );
+};
+
+export default BackgroundLibrary;
@@ -0,0 +1,89 @@
+import React from 'react';
+import { GeneratedImage, GenerationJob } from '../types';
+import { Check, X, Loader2, Clock } from 'lucide-react';
+
+interface BatchProgressProps {
+  jobs: GenerationJob[]; // Queued/running/failed jobs of this batch
+  completed: GeneratedImage[]; // Shots of this batch already in the gallery
+  onCancel: () => void;
+  onDismiss: () => void;
+}
+
+const JobStatusIcon = ({ job }: { job: GenerationJob }) => {
+  switch (job.status) {
+    case 'running': return <Loader2 size={14} className="text-studio-accent animate-spin" />;
+    case 'failed': return <X size={14} className="text-red-400" />;
+    default: return <Clock size={14} className="text-gray-500" />;
+  }
+};
+
+const BatchProgress: React.FC<BatchProgressProps> = ({ jobs, completed, onCancel, onDismiss }) => {
+  const total = jobs.length + completed.length;
+  if (total === 0) return null;
+
+  const failed = jobs.filter(job => job.status === 'failed').length;
+  const finished = completed.length + failed;
+  const isRunning = jobs.some(job => job.status !== 'failed');
+
+  return (
+    <div className="bg-studio-800/50 rounded-2xl p-4 border border-white/5 space-y-3">
+      <div className="flex items-center justify-between">
+        <div>
+          <p className="text-sm text-white font-medium">Batch Shoot</p>
+          <p className="text-xs text-gray-500">
+            {finished} / {total} finished{failed > 0 && <span className="text-red-400"> · {failed} failed</span>}
+          </p>
+        </div>
+        {isRunning ? (
+          <button
+            onClick={onCancel}
+            className="px-3 py-1.5 rounded-full text-xs font-medium bg-red-500/20 text-red-200 hover:bg-red-500/40 transition-colors"
+          >
+            Cancel
+          </button>
+        ) : (
+          <button
+            onClick={onDismiss}
+            className="p-1.5 rounded-full text-gray-400 hover:bg-white/10 hover:text-white transition-colors"
+            title="Dismiss"
+          >
+            <X size={14} />
+          </button>
+        )}
+      </div>
+
+      <div className="h-1 bg-studio-700 rounded-full overflow-hidden">
+        <div className="h-full bg-studio-accent transition-all" style={{ width: `${(finished / total) * 100}%` }} />
+      </div>
+
+      <div className="grid grid-cols-2 gap-1.5">
+        {jobs.map(job => (
+          <div
+            key={job.id}
+            className="flex items-center gap-2 px-2 py-1.5 rounded-lg bg-studio-800 text-[11px] text-gray-300"
+            title={job.error}
+          >
+            <div
+              className={`w-3 h-3 flex-none rounded-full ${job.background.previewClass}`}
+              style={job.background.type === 'solid' ? { backgroundColor: job.background.value } : {}}
+            />
+            <span className="truncate flex-1">{job.background.name} · {job.lighting.icon}</span>
+            <JobStatusIcon job={job} />
+          </div>
+        ))}
+        {completed.map(img => (
+          <div key={img.id} className="flex items-center gap-2 px-2 py-1.5 rounded-lg bg-studio-800 text-[11px] text-gray-300">
+            <div
+              className={`w-3 h-3 flex-none rounded-full ${img.settings.previewClass}`}
+              style={img.settings.type === 'solid' ? { backgroundColor: img.settings.value } : {}}
+            />
+            <span className="truncate flex-1">{img.settings.backgroundName} · {img.settings.lightingName}</span>
+            <Check size={14} className="text-green-400" />
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default BatchProgress;
@@ -0,0 +1,106 @@
+import React, { useState } from 'react';
+import { BackgroundOption, BrandKit, CameraSettings, LightingOption } from '../types';
+import { createBrandKit } from '../services/brandKitService';
+import { X, Trash2, Save } from 'lucide-react';
+
+interface BrandKitEditorProps {
+  kit: BrandKit | null; // null = create a new kit from the current setup
+  current: { settings: CameraSettings; background: BackgroundOption; lighting: LightingOption };
+  onSave: (kit: BrandKit) => void;
+  onDelete: (id: string) => void;
+  onClose: () => void;
+}
+
+const BrandKitEditor: React.FC<BrandKitEditorProps> = ({ kit, current, onSave, onDelete, onClose }) => {
+  const [name, setName] = useState(kit?.name || 'New Brand Kit');
+  const [promptAdditions, setPromptAdditions] = useState(kit?.promptAdditions || '');
+  // Editing keeps the stored look unless the user asks to overwrite it
+  const [useCurrent, setUseCurrent] = useState(!kit);
+
+  const look = useCurrent || !kit ? current : kit;
+
+  const handleSave = () => {
+    onSave(createBrandKit(name.trim() || 'New Brand Kit', look.settings, look.background, look.lighting, promptAdditions, kit || undefined));
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/80 backdrop-blur flex items-end sm:items-center justify-center animate-in fade-in duration-200">
+      <div className="w-full max-w-md bg-studio-900 rounded-t-3xl sm:rounded-3xl border border-white/10 p-5 space-y-4 max-h-[90vh] overflow-y-auto no-scrollbar">
+        <div className="flex items-center justify-between">
+          <p className="text-sm text-white font-bold">{kit ? 'Edit Brand Kit' : 'New Brand Kit'}</p>
+          <button onClick={onClose} className="p-2 rounded-full text-gray-400 hover:bg-white/10 hover:text-white">
+            <X size={18} />
+          </button>
+        </div>
+
+        <input
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          placeholder="Client or brand name"
+          className="w-full bg-studio-800 border border-studio-700 rounded-lg px-3 py-2 text-sm text-white focus:outline-none focus:ring-2 focus:ring-studio-accent"
+        />
+
+        {/* Look summary */}
+        <div className="space-y-1.5">
+          <div className="text-xs text-gray-400 uppercase tracking-wider font-medium">Look</div>
+          <div className="flex flex-wrap items-center gap-2 bg-studio-800 rounded-lg p-3 text-xs text-gray-300">
+            <div
+              className={`w-3 h-3 rounded-full ${look.background.previewClass}`}
+              style={look.background.type === 'solid' ? { backgroundColor: look.background.value } : {}}
+            />
+            <span>{look.background.name}</span>
+            <span className="text-gray-600">|</span>
+            <span>{look.lighting.icon} {look.lighting.name}</span>
+            <span className="text-gray-600">|</span>
+            <span className="capitalize">{look.settings.lightingDirection.replace('-', ' ')}</span>
+            <span className="text-gray-600">|</span>
+            <span>{look.settings.aspectRatio}</span>
+          </div>
+          {kit && (
+            <label className="flex items-center gap-2 text-xs text-gray-400">
+              <input
+                type="checkbox"
+                checked={useCurrent}
+                onChange={(e) => setUseCurrent(e.target.checked)}
+                className="accent-studio-accent"
+              />
+              Replace with the current background, lighting and options
+            </label>
+          )}
+        </div>
+
+        <div className="space-y-1.5">
+          <div className="text-xs text-gray-400 uppercase tracking-wider font-medium">Prompt Rules</div>
+          <textarea
+            value={promptAdditions}
+            onChange={(e) => setPromptAdditions(e.target.value)}
+            rows={3}
+            placeholder="e.g. Always leave 20% headroom for text."
+            className="w-full bg-studio-800 border border-studio-700 rounded-lg px-3 py-2 text-sm text-white focus:outline-none focus:ring-2 focus:ring-studio-accent resize-none"
+          />
+        </div>
+
+        <div className="flex gap-2">
+          {kit && (
+            <button
+              onClick={() => { onDelete(kit.id); onClose(); }}
+              className="px-4 py-2.5 rounded-full bg-red-500/20 text-red-200 hover:bg-red-500/40 transition-colors"
+              title="Delete Kit"
+            >
+              <Trash2 size={16} />
+            </button>
+          )}
+          <button
+            onClick={handleSave}
+            className="flex-1 flex items-center justify-center gap-2 py-2.5 rounded-full bg-white text-black font-bold hover:bg-gray-100 transition-colors"
+          >
+            <Save size={16} /> Save Kit
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default BrandKitEditor;
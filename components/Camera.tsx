@@ -1,18 +1,37 @@
 import React, { useRef, useEffect, useState, forwardRef, useImperativeHandle } from 'react';
-import { Camera as CameraIcon, AlertCircle, ChevronDown } from 'lucide-react';
-import { AspectRatio } from '../types';
+import { Camera as CameraIcon, AlertCircle, ChevronDown, SlidersHorizontal, X, AlertTriangle } from 'lucide-react';
+import { AspectRatio, CameraControlSettings, CaptureMode } from '../types';
+import { getRatio, getCenterCrop, CropRect } from '../services/imageUtils';
+import { BURST_FRAMES, BURST_INTERVAL_MS, STABILITY_HOLD_MS, STABILITY_INTERVAL_MS, TIMER_SECONDS, GrayFrame, isStill, sampleMotion, scoreSharpness } from '../services/captureService';
+import { CameraCapabilities, applyCameraControls, focusAt, getCapabilities, getRange, hasAnyControl, loadCameraControls, saveCameraControls, supportsTapToFocus } from '../services/cameraControlService';
+import { PREVIEW_CHECK_INTERVAL_MS, QualityWarning, analyzePreview } from '../services/previewQualityService';
+import CameraControls from './CameraControls';
 
 interface CameraProps {
   onCapture: (imageSrc: string) => void;
-  isProcessing: boolean;
+  activeJobs: number; // Generations still queued or rendering
   aspectRatio: AspectRatio;
+  fullFrame?: boolean; // Skip the center crop, e.g. when framing is adjusted afterwards
+  captureMode?: CaptureMode;
+  onCaptureCancel?: () => void; // A timed or steady capture was called off from the viewfinder
+  qualityCheck?: boolean; // Analyse the preview and show warning badges
+  onWarningsChange?: (warnings: QualityWarning[]) => void;
 }
 
 export interface CameraHandle {
   capture: () => void;
+  cancel: () => void;
 }
 
-const Camera = forwardRef<CameraHandle, CameraProps>(({ onCapture, isProcessing, aspectRatio }, ref) => {
+// What the viewfinder shows while a timed, burst or steady capture is under way
+type PendingCapture =
+  | { kind: 'timer'; remaining: number }
+  | { kind: 'burst'; taken: number }
+  | { kind: 'stable'; still: boolean };
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+const Camera = forwardRef<CameraHandle, CameraProps>(({ onCapture, activeJobs, aspectRatio, fullFrame = false, captureMode = 'instant', onCaptureCancel, qualityCheck = false, onWarningsChange }, ref) => {
   const videoRef = useRef<HTMLVideoElement>(null);
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const [error, setError] = useState<string | null>(null);
@@ -26,15 +45,84 @@ const Camera = forwardRef<CameraHandle, CameraProps>(({ onCapture, isProcessing,
   const isMobile = typeof navigator !== 'undefined' && /Android|iPhone|iPad|iPod/i.test(navigator.userAgent);
   const [facingMode, setFacingMode] = useState<'user' | 'environment'>(isMobile ? 'environment' : 'user');
 
+  // Pro controls of the running track, restored per device
+  const trackRef = useRef<MediaStreamTrack | null>(null);
+  const [capabilities, setCapabilities] = useState<CameraCapabilities>({});
+  const [controls, setControls] = useState<CameraControlSettings>({});
+  const [showControls, setShowControls] = useState(false);
+  const [focusPoint, setFocusPoint] = useState<{ x: number; y: number } | null>(null);
+
+  // Bumped to abandon the capture in progress
+  const captureRunRef = useRef(0);
+  const [pending, setPending] = useState<PendingCapture | null>(null);
+  const [warnings, setWarnings] = useState<QualityWarning[]>([]);
+
   const stopStream = () => {
     if (videoRef.current && videoRef.current.srcObject) {
       const stream = videoRef.current.srcObject as MediaStream;
       stream.getTracks().forEach(track => track.stop());
       videoRef.current.srcObject = null;
     }
+    trackRef.current = null;
     setStreamStarted(false);
   };
 
+  const initControls = async (track: MediaStreamTrack) => {
+    trackRef.current = track;
+    setCapabilities(getCapabilities(track));
+    const deviceId = track.getSettings().deviceId;
+    const saved = deviceId ? loadCameraControls(deviceId) : {};
+    setControls(saved);
+    try {
+      await applyCameraControls(track, saved);
+    } catch (e) { console.warn("Saved camera controls not applied", e); }
+  };
+
+  const updateControls = async (next: CameraControlSettings) => {
+    setControls(next);
+    const track = trackRef.current;
+    if (!track) return;
+    const deviceId = track.getSettings().deviceId;
+    if (deviceId) saveCameraControls(deviceId, next);
+    try {
+      await applyCameraControls(track, next);
+    } catch (e) { console.warn("Camera control not supported", e); }
+  };
+
+  const handleControlChange = (patch: Partial<CameraControlSettings>) => updateControls({ ...controls, ...patch });
+
+  // Explicit automatic values, since dropping a constraint doesn't undo it on the track
+  const handleControlReset = () => {
+    const zoom = getRange(capabilities, 'zoom');
+    updateControls({
+      exposureMode: 'continuous',
+      exposureCompensation: 0,
+      whiteBalanceMode: 'continuous',
+      zoom: zoom ? zoom.min : undefined,
+      torch: false,
+    });
+  };
+
+  // Maps a tap on the object-cover preview to 0..1 coordinates of the video frame
+  const handleTapToFocus = async (e: React.MouseEvent<HTMLVideoElement>) => {
+    const video = videoRef.current;
+    const track = trackRef.current;
+    if (!video || !track || !supportsTapToFocus(capabilities) || !video.videoWidth) return;
+    const rect = video.getBoundingClientRect();
+    const scale = Math.max(rect.width / video.videoWidth, rect.height / video.videoHeight);
+    const offsetX = (rect.width - video.videoWidth * scale) / 2;
+    const offsetY = (rect.height - video.videoHeight * scale) / 2;
+    let x = (e.clientX - rect.left - offsetX) / (video.videoWidth * scale);
+    const y = (e.clientY - rect.top - offsetY) / (video.videoHeight * scale);
+    if (facingMode === 'user') x = 1 - x; // The preview is mirrored, the frame isn't
+
+    setFocusPoint({ x: e.clientX - rect.left, y: e.clientY - rect.top });
+    setTimeout(() => setFocusPoint(null), 1000);
+    try {
+      await focusAt(track, Math.min(1, Math.max(0, x)), Math.min(1, Math.max(0, y)));
+    } catch (err) { console.warn("Tap to focus not supported", err); }
+  };
+
   const getDevices = async () => {
     try {
       if (!navigator.mediaDevices?.enumerateDevices) return;
@@ -99,6 +187,7 @@ const Camera = forwardRef<CameraHandle, CameraProps>(({ onCapture, isProcessing,
           await track.applyConstraints({ advanced: [{ focusMode: 'continuous' }] } as any);
         } catch (e) { console.warn("Autofocus not supported", e); }
       }
+      await initControls(track);
 
       if (videoRef.current) {
         videoRef.current.srcObject = stream;
@@ -153,6 +242,7 @@ const Camera = forwardRef<CameraHandle, CameraProps>(({ onCapture, isProcessing,
         const track = stream.getVideoTracks()[0];
         const settings = track.getSettings();
         if (settings.deviceId) setCurrentDeviceId(settings.deviceId);
+        await initControls(track);
       }
       setError(null);
     } catch (e: any) {
@@ -162,52 +252,118 @@ const Camera = forwardRef<CameraHandle, CameraProps>(({ onCapture, isProcessing,
 
   useEffect(() => {
     startCamera();
-    return () => stopStream();
+    return () => {
+      captureRunRef.current++;
+      stopStream();
+    };
   }, []);
 
-  const getRatio = (ratio: AspectRatio): number => {
-    const map: Record<string, number> = { '1:1': 1, '3:4': 3/4, '4:3': 4/3, '16:9': 16/9, '9:16': 9/16 };
-    return map[ratio] || 1;
+  // Throttled preview analysis; always on the aspect-ratio frame, since that is what ends up in the shot
+  useEffect(() => {
+    if (!qualityCheck || !streamStarted) {
+      setWarnings([]);
+      return;
+    }
+    const interval = setInterval(() => {
+      const video = videoRef.current;
+      if (!video?.videoWidth || document.hidden) return;
+      try {
+        const next = analyzePreview(video, getCenterCrop(video.videoWidth, video.videoHeight, aspectRatio));
+        const key = (list: QualityWarning[]) => list.map(w => `${w.id}:${w.severity}`).join(',');
+        setWarnings(prev => key(prev) === key(next) ? prev : next);
+      } catch (e) {
+        console.warn("Preview analysis failed:", e);
+      }
+    }, PREVIEW_CHECK_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [qualityCheck, streamStarted, aspectRatio]);
+
+  useEffect(() => {
+    onWarningsChange?.(warnings);
+  }, [warnings]);
+
+  const getCrop = (video: HTMLVideoElement): CropRect => fullFrame
+    ? { x: 0, y: 0, width: video.videoWidth, height: video.videoHeight }
+    : getCenterCrop(video.videoWidth, video.videoHeight, aspectRatio);
+
+  const grabFrame = (video: HTMLVideoElement, canvas: HTMLCanvasElement) => {
+    const { x: cropX, y: cropY, width: cropW, height: cropH } = getCrop(video);
+    canvas.width = cropW;
+    canvas.height = cropH;
+    // IMPORTANT: Capture raw image (not mirrored) so product text is readable
+    canvas.getContext('2d')?.drawImage(video, cropX, cropY, cropW, cropH, 0, 0, cropW, cropH);
   };
 
-  useImperativeHandle(ref, () => ({
-    capture: () => {
-      if (videoRef.current && canvasRef.current && streamStarted) {
-        const video = videoRef.current;
-        const canvas = canvasRef.current;
-        
-        const videoW = video.videoWidth;
-        const videoH = video.videoHeight;
-        const videoRatio = videoW / videoH;
-        const targetRatio = getRatio(aspectRatio);
-
-        let cropW, cropH, cropX, cropY;
-
-        if (videoRatio > targetRatio) {
-          cropH = videoH;
-          cropW = videoH * targetRatio;
-          cropX = (videoW - cropW) / 2;
-          cropY = 0;
-        } else {
-          cropW = videoW;
-          cropH = videoW / targetRatio;
-          cropX = 0;
-          cropY = (videoH - cropH) / 2;
-        }
+  // Grabs frames for the burst and keeps only the sharpest one in `canvas`
+  const captureBurst = async (video: HTMLVideoElement, canvas: HTMLCanvasElement, isCurrent: () => boolean) => {
+    const frame = document.createElement('canvas');
+    let best = -1;
+    for (let i = 0; i < BURST_FRAMES && isCurrent(); i++) {
+      if (i > 0) await wait(BURST_INTERVAL_MS);
+      setPending({ kind: 'burst', taken: i + 1 });
+      grabFrame(video, frame);
+      const score = scoreSharpness(frame, { x: 0, y: 0, width: frame.width, height: frame.height });
+      if (score > best) {
+        best = score;
+        canvas.width = frame.width;
+        canvas.height = frame.height;
+        canvas.getContext('2d')?.drawImage(frame, 0, 0);
+      }
+    }
+  };
+
+  // Resolves once consecutive low-res frames have barely changed for STABILITY_HOLD_MS
+  const waitForStillness = async (video: HTMLVideoElement, isCurrent: () => boolean) => {
+    let previous: GrayFrame | null = null;
+    let stillSince: number | null = null;
+    while (isCurrent()) {
+      const current = sampleMotion(video, getCrop(video));
+      const still = !!previous && isStill(previous, current);
+      stillSince = still ? stillSince ?? Date.now() : null;
+      setPending({ kind: 'stable', still });
+      if (stillSince !== null && Date.now() - stillSince >= STABILITY_HOLD_MS) return;
+      previous = current;
+      await wait(STABILITY_INTERVAL_MS);
+    }
+  };
 
-        canvas.width = cropW;
-        canvas.height = cropH;
+  const capture = async () => {
+    const video = videoRef.current;
+    const canvas = canvasRef.current;
+    if (!video || !canvas || !streamStarted) return;
+    const run = ++captureRunRef.current;
+    const isCurrent = () => captureRunRef.current === run;
 
-        const ctx = canvas.getContext('2d');
-        if (ctx) {
-          // IMPORTANT: Capture raw image (not mirrored) so product text is readable
-          ctx.drawImage(video, cropX, cropY, cropW, cropH, 0, 0, cropW, cropH);
-          const imageSrc = canvas.toDataURL('image/jpeg', 0.95);
-          onCapture(imageSrc);
+    try {
+      const seconds = TIMER_SECONDS[captureMode];
+      if (seconds) {
+        for (let remaining = seconds; remaining > 0 && isCurrent(); remaining--) {
+          setPending({ kind: 'timer', remaining });
+          await wait(1000);
         }
+      } else if (captureMode === 'stable') {
+        await waitForStillness(video, isCurrent);
       }
+      if (!isCurrent()) return;
+
+      if (captureMode === 'burst') {
+        await captureBurst(video, canvas, isCurrent);
+        if (!isCurrent()) return;
+      } else {
+        grabFrame(video, canvas);
+      }
+      onCapture(canvas.toDataURL('image/jpeg', 0.95));
+    } finally {
+      if (isCurrent()) setPending(null);
     }
-  }));
+  };
+
+  const cancel = () => {
+    captureRunRef.current++;
+    setPending(null);
+  };
+
+  useImperativeHandle(ref, () => ({ capture, cancel }));
 
   if (error) {
     return (
@@ -230,8 +386,17 @@ const Camera = forwardRef<CameraHandle, CameraProps>(({ onCapture, isProcessing,
         autoPlay
         playsInline
         muted
+        onClick={handleTapToFocus}
         className={`w-full h-full object-cover transition-transform duration-300 ${isMirrored ? 'scale-x-[-1]' : 'scale-x-1'}`}
       />
+
+      {/* Tap-to-focus marker */}
+      {focusPoint && (
+        <div
+          className="absolute z-10 w-14 h-14 -ml-7 -mt-7 rounded-full border-2 border-studio-accent pointer-events-none animate-in fade-in duration-200"
+          style={{ left: focusPoint.x, top: focusPoint.y }}
+        />
+      )}
       
       {/* Aspect Ratio Overlay */}
       {streamStarted && (
@@ -303,6 +468,74 @@ const Camera = forwardRef<CameraHandle, CameraProps>(({ onCapture, isProcessing,
          </div>
       )}
 
+      {/* Capture Progress */}
+      {pending && (
+        <div className="absolute inset-0 z-20 pointer-events-none flex flex-col items-center justify-center gap-3">
+          {pending.kind === 'timer' && (
+            <span key={pending.remaining} className="text-7xl font-bold text-white drop-shadow-lg animate-in zoom-in duration-300">
+              {pending.remaining}
+            </span>
+          )}
+          {pending.kind === 'burst' && (
+            <span className="px-3 py-1.5 rounded-full bg-black/50 backdrop-blur-md text-white text-xs font-medium">
+              Burst {pending.taken}/{BURST_FRAMES}
+            </span>
+          )}
+          {pending.kind === 'stable' && (
+            <span className={`px-3 py-1.5 rounded-full backdrop-blur-md text-white text-xs font-medium ${pending.still ? 'bg-studio-accent/80' : 'bg-black/50'}`}>
+              {pending.still ? 'Steady…' : 'Hold still'}
+            </span>
+          )}
+          {pending.kind !== 'burst' && (
+            <button
+              onClick={() => {
+                cancel();
+                onCaptureCancel?.();
+              }}
+              className="pointer-events-auto flex items-center gap-1 px-3 py-1.5 rounded-full bg-black/50 backdrop-blur-md text-gray-200 text-xs hover:text-white"
+            >
+              <X size={12} /> Cancel
+            </button>
+          )}
+        </div>
+      )}
+
+      {/* Quality Warnings (Bottom Left) */}
+      {streamStarted && warnings.length > 0 && !pending && (
+        <div className="absolute bottom-4 left-4 right-16 z-20 flex flex-wrap gap-1.5 pointer-events-none">
+          {warnings.map(warning => (
+            <span
+              key={warning.id}
+              className={`flex items-center gap-1 px-2 py-1 rounded-full backdrop-blur-md text-[10px] font-medium text-white shadow-lg ${
+                warning.severity === 'critical' ? 'bg-red-500/70' : 'bg-amber-500/60'
+              }`}
+            >
+              <AlertTriangle size={10} /> {warning.label}
+            </span>
+          ))}
+        </div>
+      )}
+
+      {/* Pro Controls (Bottom Right) */}
+      {streamStarted && hasAnyControl(capabilities) && !showControls && (
+        <button
+          onClick={() => setShowControls(true)}
+          className="absolute bottom-4 right-4 z-20 p-2.5 rounded-full bg-black/40 backdrop-blur-md border border-white/10 text-white hover:bg-black/60 shadow-lg"
+          title="Camera controls"
+        >
+          <SlidersHorizontal size={16} />
+        </button>
+      )}
+      {streamStarted && showControls && (
+        <CameraControls
+          capabilities={capabilities}
+          controls={controls}
+          onChange={handleControlChange}
+          onReset={handleControlReset}
+          onClose={() => setShowControls(false)}
+        />
+      )}
+
       {/* Loading */}
       {!streamStarted && !error && (
         <div className="absolute inset-0 flex items-center justify-center text-gray-500">
@@ -310,11 +543,11 @@ const Camera = forwardRef<CameraHandle, CameraProps>(({ onCapture, isProcessing,
         </div>
       )}
 
-      {/* Processing */}
-      {isProcessing && (
-        <div className="absolute inset-0 bg-black/80 backdrop-blur-sm flex flex-col items-center justify-center z-30 animate-in fade-in duration-300">
-           <div className="w-12 h-12 border-4 border-studio-accent border-t-transparent rounded-full animate-spin mb-4"></div>
-           <p className="text-white font-medium animate-pulse tracking-wide">Developing Photo...</p>
+      {/* Queue indicator: the camera stays live while shots develop */}
+      {activeJobs > 0 && (
+        <div className="absolute top-4 left-4 z-20 flex items-center gap-2 px-3 py-2 rounded-full bg-black/40 backdrop-blur-md border border-white/10 text-white text-xs font-medium shadow-lg">
+           <div className="w-3 h-3 border-2 border-studio-accent border-t-transparent rounded-full animate-spin"></div>
+           Developing {activeJobs}
         </div>
       )}
     </div>
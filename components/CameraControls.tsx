@@ -0,0 +1,123 @@
+import React from 'react';
+import { CameraControlSettings } from '../types';
+import { CameraCapabilities, RangeCapability, getRange, supportsManualExposure, supportsManualWhiteBalance } from '../services/cameraControlService';
+import { X, Sun, Thermometer, ZoomIn, Flashlight, RotateCcw } from 'lucide-react';
+
+interface CameraControlsProps {
+  capabilities: CameraCapabilities;
+  controls: CameraControlSettings;
+  onChange: (patch: Partial<CameraControlSettings>) => void;
+  onReset: () => void;
+  onClose: () => void;
+}
+
+// exposureTime is reported in 100µs units
+const formatExposureTime = (value: number) => {
+  const seconds = value / 10000;
+  return seconds >= 1 ? `${seconds.toFixed(1)}s` : `1/${Math.round(1 / seconds)}s`;
+};
+
+const CameraControls: React.FC<CameraControlsProps> = ({ capabilities, controls, onChange, onReset, onClose }) => {
+  const compensation = getRange(capabilities, 'exposureCompensation');
+  const exposureTime = getRange(capabilities, 'exposureTime');
+  const iso = getRange(capabilities, 'iso');
+  const temperature = getRange(capabilities, 'colorTemperature');
+  const zoom = getRange(capabilities, 'zoom');
+  const manualExposure = controls.exposureMode === 'manual';
+  const manualWhiteBalance = controls.whiteBalanceMode === 'manual';
+
+  const renderSlider = (label: string, range: RangeCapability, value: number | undefined, fallback: number, format: (v: number) => string, onValue: (v: number) => void) => {
+    const current = value ?? fallback;
+    return (
+      <div className="space-y-1">
+        <div className="flex justify-between text-[10px] text-gray-400 uppercase tracking-wider font-medium">
+          <span>{label}</span>
+          <span className="text-white">{format(current)}</span>
+        </div>
+        <input
+          type="range" min={range.min} max={range.max} step={range.step}
+          value={current}
+          onChange={(e) => onValue(Number(e.target.value))}
+          className="w-full accent-studio-accent"
+        />
+      </div>
+    );
+  };
+
+  const renderModeToggle = (manual: boolean, onToggle: (manual: boolean) => void) => (
+    <div className="flex rounded-lg bg-studio-900 p-0.5 text-[10px] font-medium">
+      {[false, true].map(isManual => (
+        <button
+          key={String(isManual)}
+          onClick={() => onToggle(isManual)}
+          className={`px-2 py-1 rounded-md ${manual === isManual ? 'bg-studio-700 text-white' : 'text-gray-400 hover:text-white'}`}
+        >
+          {isManual ? 'Manual' : 'Auto'}
+        </button>
+      ))}
+    </div>
+  );
+
+  return (
+    <div className="absolute inset-x-3 bottom-3 z-30 max-h-[70%] overflow-y-auto bg-studio-900/90 backdrop-blur-md rounded-2xl border border-white/10 p-4 space-y-4 shadow-2xl animate-in fade-in duration-200">
+      <div className="flex items-center justify-between">
+        <p className="text-xs text-gray-300 font-medium uppercase tracking-wider">Camera Controls</p>
+        <div className="flex gap-1">
+          <button onClick={onReset} className="p-1.5 text-gray-400 hover:text-white" title="Back to automatic">
+            <RotateCcw size={14} />
+          </button>
+          <button onClick={onClose} className="p-1.5 text-gray-400 hover:text-white" title="Close">
+            <X size={14} />
+          </button>
+        </div>
+      </div>
+
+      {(compensation || supportsManualExposure(capabilities)) && (
+        <div className="space-y-2">
+          <div className="flex items-center justify-between">
+            <span className="flex items-center gap-1 text-xs text-gray-300"><Sun size={12} /> Exposure</span>
+            {supportsManualExposure(capabilities) && renderModeToggle(manualExposure, manual => onChange({ exposureMode: manual ? 'manual' : 'continuous' }))}
+          </div>
+          {manualExposure ? (
+            <>
+              {exposureTime && renderSlider('Shutter', exposureTime, controls.exposureTime, exposureTime.min + (exposureTime.max - exposureTime.min) / 10, formatExposureTime, v => onChange({ exposureTime: v }))}
+              {iso && renderSlider('ISO', iso, controls.iso, iso.min, v => String(Math.round(v)), v => onChange({ iso: v }))}
+            </>
+          ) : compensation && (
+            renderSlider('Compensation', compensation, controls.exposureCompensation, 0, v => `${v > 0 ? '+' : ''}${v.toFixed(1)} EV`, v => onChange({ exposureCompensation: v }))
+          )}
+        </div>
+      )}
+
+      {supportsManualWhiteBalance(capabilities) && temperature && (
+        <div className="space-y-2">
+          <div className="flex items-center justify-between">
+            <span className="flex items-center gap-1 text-xs text-gray-300"><Thermometer size={12} /> White Balance</span>
+            {renderModeToggle(manualWhiteBalance, manual => onChange({ whiteBalanceMode: manual ? 'manual' : 'continuous' }))}
+          </div>
+          {manualWhiteBalance && renderSlider('Temperature', temperature, controls.colorTemperature, Math.min(temperature.max, Math.max(temperature.min, 5500)), v => `${Math.round(v)}K`, v => onChange({ colorTemperature: v }))}
+        </div>
+      )}
+
+      {zoom && (
+        <div className="space-y-2">
+          <span className="flex items-center gap-1 text-xs text-gray-300"><ZoomIn size={12} /> Zoom</span>
+          {renderSlider('Zoom', zoom, controls.zoom, zoom.min, v => `${v.toFixed(1)}x`, v => onChange({ zoom: v }))}
+        </div>
+      )}
+
+      {capabilities.torch && (
+        <button
+          onClick={() => onChange({ torch: !controls.torch })}
+          className={`w-full flex items-center justify-center gap-2 py-2 rounded-lg text-xs font-medium ${
+            controls.torch ? 'bg-studio-accent text-white' : 'bg-studio-700 text-gray-300 hover:text-white'
+          }`}
+        >
+          <Flashlight size={14} /> Torch {controls.torch ? 'On' : 'Off'}
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default CameraControls;
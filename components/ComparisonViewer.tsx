@@ -0,0 +1,276 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { IDENTITY_VIEW, ViewTransform, getContainRect, panBy, toContentFraction, zoomAt } from '../services/viewportService';
+import { X, FlipHorizontal2, Columns2, ToggleLeft, ScanSearch, MoveHorizontal } from 'lucide-react';
+
+interface ComparisonViewerProps {
+  beforeSrc: string; // Original capture
+  afterSrc: string; // Generated shot
+  onClose: () => void;
+}
+
+type CompareMode = 'split' | 'side' | 'toggle';
+
+interface NaturalSize {
+  width: number;
+  height: number;
+}
+
+interface LoupeState {
+  px: number; // Pointer position inside the stage (CSS px)
+  py: number;
+  width: number; // Stage size at the time
+  height: number;
+}
+
+const LOUPE_SIZE = 112;
+
+const MODES: { mode: CompareMode; label: string; icon: React.ReactNode }[] = [
+  { mode: 'split', label: 'Split', icon: <FlipHorizontal2 size={14} /> },
+  { mode: 'side', label: 'Side by Side', icon: <Columns2 size={14} /> },
+  { mode: 'toggle', label: 'Toggle', icon: <ToggleLeft size={14} /> },
+];
+
+const useNaturalSize = (src: string) => {
+  const [size, setSize] = useState<NaturalSize | null>(null);
+  useEffect(() => {
+    const img = new Image();
+    img.onload = () => setSize({ width: img.naturalWidth, height: img.naturalHeight });
+    img.src = src;
+  }, [src]);
+  return size;
+};
+
+const ComparisonViewer: React.FC<ComparisonViewerProps> = ({ beforeSrc, afterSrc, onClose }) => {
+  const [mode, setMode] = useState<CompareMode>('split');
+  const [view, setView] = useState<ViewTransform>(IDENTITY_VIEW);
+  const [split, setSplit] = useState(50); // % of the stage showing the original
+  const [showBefore, setShowBefore] = useState(false);
+  const [loupeEnabled, setLoupeEnabled] = useState(false);
+  const [loupe, setLoupe] = useState<LoupeState | null>(null);
+
+  const beforeSize = useNaturalSize(beforeSrc);
+  const afterSize = useNaturalSize(afterSrc);
+
+  const pointers = useRef(new Map<number, { x: number; y: number }>());
+  const draggingSplit = useRef(false);
+
+  // Both views share one transform, so zooming either keeps them in sync
+  const ratio = afterSize ? afterSize.width / afterSize.height : 1;
+  const stageWidth = mode === 'side'
+    ? `min(calc(50% - 4px), calc(65vh * ${ratio}))`
+    : `min(100%, calc(65vh * ${ratio}))`;
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    pointers.current.set(e.pointerId, { x: e.clientX, y: e.clientY });
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    const px = e.clientX - rect.left;
+    const py = e.clientY - rect.top;
+
+    if (draggingSplit.current) {
+      setSplit(Math.max(0, Math.min(100, px / rect.width * 100)));
+      return;
+    }
+
+    // With the loupe on, a single pointer moves the loupe instead of panning
+    if (loupeEnabled && pointers.current.size < 2) {
+      setLoupe({ px, py, width: rect.width, height: rect.height });
+      return;
+    }
+
+    const prev = pointers.current.get(e.pointerId);
+    if (!prev) return;
+    const next = { x: e.clientX, y: e.clientY };
+
+    if (pointers.current.size === 2) {
+      // Pinch: scale by the change in finger distance around their midpoint
+      const other = Array.from(pointers.current.entries()).find(([id]) => id !== e.pointerId)![1];
+      const prevDist = Math.hypot(prev.x - other.x, prev.y - other.y);
+      const nextDist = Math.hypot(next.x - other.x, next.y - other.y);
+      const midX = (next.x + other.x) / 2 - rect.left;
+      const midY = (next.y + other.y) / 2 - rect.top;
+      if (prevDist > 0) setView(v => zoomAt(v, nextDist / prevDist, midX, midY, rect.width, rect.height));
+    } else {
+      setView(v => panBy(v, next.x - prev.x, next.y - prev.y, rect.width, rect.height));
+    }
+    pointers.current.set(e.pointerId, next);
+  };
+
+  const handlePointerUp = (e: React.PointerEvent<HTMLDivElement>) => {
+    pointers.current.delete(e.pointerId);
+    draggingSplit.current = false;
+  };
+
+  const handleWheel = (e: React.WheelEvent<HTMLDivElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    const factor = e.deltaY < 0 ? 1.15 : 1 / 1.15;
+    setView(v => zoomAt(v, factor, e.clientX - rect.left, e.clientY - rect.top, rect.width, rect.height));
+  };
+
+  const contentStyle: React.CSSProperties = {
+    transform: `translate(${view.x}px, ${view.y}px) scale(${view.scale})`,
+    transformOrigin: '0 0',
+  };
+
+  // Past 2x, show the actual pixels instead of a smoothed upscale
+  const imageStyle: React.CSSProperties = { imageRendering: view.scale > 2 ? 'pixelated' : 'auto' };
+
+  const renderImage = (src: string, alt: string) => (
+    <div className="absolute inset-0" style={contentStyle}>
+      <img src={src} alt={alt} draggable={false} className="w-full h-full object-contain select-none" style={imageStyle} />
+    </div>
+  );
+
+  const renderLabel = (text: string, side: 'left' | 'right') => (
+    <span className={`absolute top-2 ${side === 'left' ? 'left-2' : 'right-2'} px-2 py-0.5 rounded-full bg-black/60 text-[10px] text-white font-bold uppercase tracking-wider pointer-events-none`}>
+      {text}
+    </span>
+  );
+
+  // One pane of the loupe: the source image at 100% around the pointer
+  const renderLoupePane = (src: string, size: NaturalSize | null, state: LoupeState) => {
+    if (!size) return <div className="bg-black" style={{ width: LOUPE_SIZE, height: LOUPE_SIZE }} />;
+    const { u, v } = toContentFraction(view, state.px, state.py, state.width, state.height);
+    const rect = getContainRect(size.width, size.height, state.width, state.height);
+    const ix = (u * state.width - rect.x) / rect.width * size.width;
+    const iy = (v * state.height - rect.y) / rect.height * size.height;
+    return (
+      <div
+        className="bg-black"
+        style={{
+          width: LOUPE_SIZE,
+          height: LOUPE_SIZE,
+          backgroundImage: `url(${src})`,
+          backgroundRepeat: 'no-repeat',
+          backgroundSize: `${size.width}px ${size.height}px`,
+          backgroundPosition: `${LOUPE_SIZE / 2 - ix}px ${LOUPE_SIZE / 2 - iy}px`,
+          imageRendering: 'pixelated',
+        }}
+      />
+    );
+  };
+
+  const renderLoupe = () => {
+    if (!loupeEnabled || !loupe) return null;
+    const left = Math.max(0, Math.min(loupe.width - LOUPE_SIZE * 2, loupe.px - LOUPE_SIZE));
+    const top = loupe.py - LOUPE_SIZE - 16 >= 0 ? loupe.py - LOUPE_SIZE - 16 : loupe.py + 16;
+    return (
+      <div className="absolute pointer-events-none flex rounded-lg overflow-hidden border-2 border-white shadow-2xl" style={{ left, top }}>
+        {renderLoupePane(beforeSrc, beforeSize, loupe)}
+        <div className="w-0.5 bg-white" />
+        {renderLoupePane(afterSrc, afterSize, loupe)}
+      </div>
+    );
+  };
+
+  const renderStage = (key: string, children: React.ReactNode) => (
+    <div
+      key={key}
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+      onPointerCancel={handlePointerUp}
+      onPointerLeave={() => setLoupe(null)}
+      onWheel={handleWheel}
+      onDoubleClick={() => setView(IDENTITY_VIEW)}
+      className={`relative overflow-hidden rounded-lg bg-black touch-none ${loupeEnabled ? 'cursor-crosshair' : 'cursor-move'}`}
+      style={{ width: stageWidth, aspectRatio: `${ratio}` }}
+    >
+      {children}
+      {renderLoupe()}
+    </div>
+  );
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/95 backdrop-blur flex flex-col items-center justify-center p-4 gap-4 animate-in fade-in duration-200">
+      <div className="w-full max-w-4xl flex items-center justify-between gap-2">
+        <div className="flex p-1 bg-studio-800 rounded-xl">
+          {MODES.map(m => (
+            <button
+              key={m.mode}
+              onClick={() => setMode(m.mode)}
+              className={`flex items-center gap-1.5 px-3 py-1.5 text-xs font-medium rounded-lg transition-all ${
+                mode === m.mode ? 'bg-studio-700 text-white shadow-md' : 'text-gray-400 hover:text-white'
+              }`}
+            >
+              {m.icon}
+              <span className="hidden sm:inline">{m.label}</span>
+            </button>
+          ))}
+        </div>
+        <div className="flex items-center gap-2">
+          <button
+            onClick={() => { setLoupeEnabled(prev => !prev); setLoupe(null); }}
+            className={`p-2.5 rounded-full transition-colors ${loupeEnabled ? 'bg-studio-accent text-white' : 'bg-white/10 text-white hover:bg-white/20'}`}
+            title="100% Loupe"
+          >
+            <ScanSearch size={18} />
+          </button>
+          <button
+            onClick={() => setView(IDENTITY_VIEW)}
+            className="px-3 py-2 rounded-full bg-white/10 text-white text-xs font-medium hover:bg-white/20 min-w-[56px]"
+            title="Reset Zoom"
+          >
+            {Math.round(view.scale * 100)}%
+          </button>
+          <button onClick={onClose} className="p-2.5 bg-white/10 rounded-full text-white hover:bg-white/20" title="Close">
+            <X size={18} />
+          </button>
+        </div>
+      </div>
+
+      <div className="w-full max-w-4xl flex justify-center gap-2">
+        {mode === 'split' && renderStage('split', (
+          <>
+            {renderImage(afterSrc, 'Generated')}
+            <div className="absolute inset-0" style={{ clipPath: `inset(0 ${100 - split}% 0 0)` }}>
+              {renderImage(beforeSrc, 'Original')}
+            </div>
+            <div className="absolute inset-y-0 w-0.5 bg-white shadow-lg pointer-events-none" style={{ left: `${split}%` }} />
+            <div
+              onPointerDown={() => { draggingSplit.current = true; }}
+              className="absolute top-1/2 -translate-x-1/2 -translate-y-1/2 w-9 h-9 rounded-full bg-white text-studio-900 shadow-xl flex items-center justify-center cursor-ew-resize"
+              style={{ left: `${split}%` }}
+            >
+              <MoveHorizontal size={18} />
+            </div>
+            {renderLabel('Before', 'left')}
+            {renderLabel('After', 'right')}
+          </>
+        ))}
+
+        {mode === 'side' && (
+          <>
+            {renderStage('before', <>{renderImage(beforeSrc, 'Original')}{renderLabel('Before', 'left')}</>)}
+            {renderStage('after', <>{renderImage(afterSrc, 'Generated')}{renderLabel('After', 'left')}</>)}
+          </>
+        )}
+
+        {mode === 'toggle' && renderStage('toggle', (
+          <>
+            {renderImage(showBefore ? beforeSrc : afterSrc, showBefore ? 'Original' : 'Generated')}
+            {renderLabel(showBefore ? 'Before' : 'After', 'left')}
+          </>
+        ))}
+      </div>
+
+      {mode === 'toggle' && (
+        <button
+          onClick={() => setShowBefore(prev => !prev)}
+          className="px-6 py-2.5 rounded-full bg-white text-black text-sm font-bold hover:bg-gray-100 transition-colors"
+        >
+          Show {showBefore ? 'After' : 'Before'}
+        </button>
+      )}
+
+      <p className="text-[10px] text-center text-gray-500">
+        Scroll or pinch to zoom · drag to pan · double-click to reset{loupeEnabled ? ' · loupe shows before | after at 100%' : ''}
+      </p>
+    </div>
+  );
+};
+
+export default ComparisonViewer;
@@ -1,18 +1,53 @@
 
 import React, { useRef, useState, useEffect } from 'react';
-import { BackgroundOption, PRESET_BACKGROUNDS, CameraSettings, AspectRatio, PRESET_LIGHTING, LightingOption, LightingDirection } from '../types';
-import { Upload, Sliders, Palette, Ratio, Lightbulb, Move } from 'lucide-react';
+import { BackgroundOption, PRESET_BACKGROUNDS, CameraSettings, AspectRatio, PRESET_LIGHTING, LightingOption, LightingDirection, ControlTab, BatchSelection, LibraryBackground, BrandKit, PromptTemplate, FidelitySettings, PreviewQualitySettings } from '../types';
+import { Upload, Sliders, Palette, Ratio, Lightbulb, Move, Layers, Check, Plus, Pencil, FileDown, FileUp, Briefcase, ShieldCheck, ScanEye } from 'lucide-react';
+import LightingEditor from './LightingEditor';
+import BackgroundLibrary from './BackgroundLibrary';
+import BrandKitEditor from './BrandKitEditor';
+import PromptPanel from './PromptPanel';
+import { exportLightingPresets, parseLightingExport } from '../services/lightingService';
+import { downloadJson, readJsonFile } from '../services/localStore';
 
 interface ControlPanelProps {
   selectedBg: BackgroundOption;
   onSelectBg: (bg: BackgroundOption) => void;
   selectedLighting: LightingOption;
   onSelectLighting: (light: LightingOption) => void;
+  userLighting: LightingOption[];
+  onSaveLighting: (light: LightingOption) => void;
+  onDeleteLighting: (id: string) => void;
+  onImportLighting: (lights: LightingOption[]) => void;
+  libraryBackgrounds: LibraryBackground[];
+  onSaveBackground: (bg: LibraryBackground) => void;
+  onDeleteBackground: (id: string) => void;
+  onToggleFavoriteBackground: (id: string) => void;
+  onImportBackgrounds: (bgs: LibraryBackground[]) => void;
+  brandKits: BrandKit[];
+  activeKit: BrandKit | null;
+  onApplyKit: (kit: BrandKit | null) => void;
+  onSaveKit: (kit: BrandKit) => void;
+  onDeleteKit: (id: string) => void;
+  promptTemplates: PromptTemplate[];
+  selectedTemplate: PromptTemplate;
+  onSelectTemplate: (template: PromptTemplate) => void;
+  onSaveTemplate: (template: PromptTemplate) => void;
+  onDeleteTemplate: (id: string) => void;
+  promptInstructions: string;
+  onUpdateInstructions: (instructions: string) => void;
+  promptAdditions: string; // Kit rules + instructions, as they will be sent
+  fidelity: FidelitySettings;
+  onUpdateFidelity: (settings: FidelitySettings) => void;
+  previewQuality: PreviewQualitySettings;
+  onUpdatePreviewQuality: (settings: PreviewQualitySettings) => void;
+  onError: (message: string) => void;
   settings: CameraSettings;
   onUpdateSettings: (key: keyof CameraSettings, val: any) => void;
-  activeTab: 'background' | 'adjustments';
-  setActiveTab: (tab: 'background' | 'adjustments') => void;
-  disabled: boolean;
+  activeTab: ControlTab;
+  setActiveTab: (tab: ControlTab) => void;
+  batch: BatchSelection;
+  onUpdateBatch: (batch: BatchSelection) => void;
+  disabled?: boolean;
 }
 
 const ControlPanel: React.FC<ControlPanelProps> = ({ 
@@ -20,13 +55,50 @@ const ControlPanel: React.FC<ControlPanelProps> = ({
   onSelectBg, 
   selectedLighting,
   onSelectLighting,
+  userLighting,
+  onSaveLighting,
+  onDeleteLighting,
+  onImportLighting,
+  libraryBackgrounds,
+  onSaveBackground,
+  onDeleteBackground,
+  onToggleFavoriteBackground,
+  onImportBackgrounds,
+  brandKits,
+  activeKit,
+  onApplyKit,
+  onSaveKit,
+  onDeleteKit,
+  promptTemplates,
+  selectedTemplate,
+  onSelectTemplate,
+  onSaveTemplate,
+  onDeleteTemplate,
+  promptInstructions,
+  onUpdateInstructions,
+  promptAdditions,
+  fidelity,
+  onUpdateFidelity,
+  previewQuality,
+  onUpdatePreviewQuality,
+  onError,
   settings,
   onUpdateSettings,
   activeTab,
   setActiveTab,
-  disabled 
+  batch,
+  onUpdateBatch,
+  disabled = false
 }) => {
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const lightingImportRef = useRef<HTMLInputElement>(null);
+
+  // undefined = closed, null = new preset
+  const [editingLighting, setEditingLighting] = useState<LightingOption | null | undefined>(undefined);
+  const allLighting = [...PRESET_LIGHTING, ...userLighting];
+
+  // undefined = closed, null = new kit from the current setup
+  const [editingKit, setEditingKit] = useState<BrandKit | null | undefined>(undefined);
 
   // Color Picker State (HSV Model)
   const [hue, setHue] = useState(0); // 0-360
@@ -125,7 +197,29 @@ const ControlPanel: React.FC<ControlPanelProps> = ({
     }
   };
 
+  const handleLightingImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      onImportLighting(parseLightingExport(await readJsonFile(file)));
+    } catch (err: any) {
+      onError(err.message || "Could not import presets.");
+    }
+  };
+
   const ratios: AspectRatio[] = ['1:1', '3:4', '4:3', '16:9', '9:16'];
+
+  // Custom colours/uploads and saved backgrounds can join a batch alongside the presets
+  const savedBackgrounds = [...PRESET_BACKGROUNDS, ...libraryBackgrounds];
+  const batchBackgrounds = savedBackgrounds.some(bg => bg.id === selectedBg.id)
+    ? savedBackgrounds
+    : [selectedBg, ...savedBackgrounds];
+
+  const toggleId = (ids: string[], id: string) =>
+    ids.includes(id) ? ids.filter(x => x !== id) : [...ids, id];
+
+  const batchCount = batch.backgroundIds.filter(id => batchBackgrounds.some(bg => bg.id === id)).length * batch.lightingIds.length;
   const currentColorHex = hsvToHex(hue, saturation / 100, value / 100);
 
   const LightDirBtn = ({ dir, rotate, label }: { dir: LightingDirection, rotate: number, label?: string }) => (
@@ -145,6 +239,65 @@ const ControlPanel: React.FC<ControlPanelProps> = ({
 
   return (
     <div className="w-full flex flex-col gap-4">
+      {/* Brand Kits */}
+      <div className="space-y-2">
+        <div className="flex justify-between text-xs text-gray-400 uppercase tracking-wider font-medium">
+          <span className="flex items-center gap-1"><Briefcase size={12} className="text-studio-accent" /> Brand Kit</span>
+          <span className="text-white normal-case tracking-normal">{activeKit ? activeKit.name : 'None'}</span>
+        </div>
+        <div className="flex gap-2 overflow-x-auto no-scrollbar pb-1 snap-x">
+          <button
+            onClick={() => onApplyKit(null)}
+            disabled={disabled}
+            className={`
+              flex-none px-3 py-2 rounded-lg text-xs font-medium transition-all snap-start border
+              ${!activeKit
+                ? 'bg-studio-700 border-studio-accent text-white shadow-lg'
+                : 'bg-studio-800 border-studio-800 text-gray-400 hover:bg-studio-700 hover:border-studio-600'}
+            `}
+          >
+            None
+          </button>
+          {brandKits.map(kit => (
+            <button
+              key={kit.id}
+              onClick={() => onApplyKit(kit)}
+              disabled={disabled}
+              className={`
+                flex-none px-3 py-2 rounded-lg flex items-center gap-2 text-xs font-medium transition-all snap-start border
+                ${activeKit?.id === kit.id
+                  ? 'bg-studio-700 border-studio-accent text-white shadow-lg'
+                  : 'bg-studio-800 border-studio-800 text-gray-400 hover:bg-studio-700 hover:border-studio-600'}
+              `}
+              title={kit.promptAdditions || kit.name}
+            >
+              <div
+                className={`w-3 h-3 rounded-full ${kit.background.previewClass}`}
+                style={kit.background.type === 'solid' ? { backgroundColor: kit.background.value } : {}}
+              />
+              {kit.name}
+              {activeKit?.id === kit.id && (
+                <span
+                  onClick={(e) => { e.stopPropagation(); setEditingKit(kit); }}
+                  className="p-0.5 -mr-1 rounded text-gray-400 hover:text-white"
+                  title="Edit Kit"
+                >
+                  <Pencil size={12} />
+                </span>
+              )}
+            </button>
+          ))}
+          <button
+            onClick={() => setEditingKit(null)}
+            disabled={disabled}
+            className="flex-none px-3 py-2 rounded-lg flex items-center gap-1 text-xs font-medium transition-all snap-start border border-dashed border-studio-600 text-gray-400 hover:bg-studio-700 hover:text-white"
+            title="Save the current setup as a brand kit"
+          >
+            <Plus size={14} /> Kit
+          </button>
+        </div>
+      </div>
+
       {/* Tab Switcher */}
       <div className="flex p-1 bg-studio-800 rounded-xl">
         <button
@@ -165,6 +318,15 @@ const ControlPanel: React.FC<ControlPanelProps> = ({
           <Sliders size={16} />
           Options
         </button>
+        <button
+          onClick={() => setActiveTab('batch')}
+          className={`flex-1 flex items-center justify-center gap-2 py-2 text-sm font-medium rounded-lg transition-all ${
+            activeTab === 'batch' ? 'bg-studio-700 text-white shadow-md' : 'text-gray-400 hover:text-white'
+          }`}
+        >
+          <Layers size={16} />
+          Batch
+        </button>
       </div>
 
       <div className="min-h-[120px]">
@@ -175,10 +337,28 @@ const ControlPanel: React.FC<ControlPanelProps> = ({
             <div className="space-y-2">
               <div className="flex justify-between text-xs text-gray-400 uppercase tracking-wider font-medium">
                   <span className="flex items-center gap-1"><Lightbulb size={12} className="text-yellow-400"/> Lighting Effect</span>
-                  <span className="text-white">{selectedLighting.name}</span>
+                  <span className="flex items-center gap-2">
+                    <span className="text-white">{selectedLighting.name}</span>
+                    <button
+                      onClick={() => lightingImportRef.current?.click()}
+                      className="text-gray-500 hover:text-white transition-colors"
+                      title="Import Lighting Presets"
+                    >
+                      <FileUp size={12} />
+                      <input type="file" ref={lightingImportRef} onChange={handleLightingImport} accept="application/json,.json" className="hidden" />
+                    </button>
+                    <button
+                      onClick={() => downloadJson('lighting-presets.json', exportLightingPresets(userLighting))}
+                      disabled={userLighting.length === 0}
+                      className="text-gray-500 hover:text-white transition-colors disabled:opacity-30"
+                      title="Export Lighting Presets"
+                    >
+                      <FileDown size={12} />
+                    </button>
+                  </span>
               </div>
               <div className="flex gap-2 overflow-x-auto no-scrollbar pb-2 snap-x">
-                 {PRESET_LIGHTING.map(light => (
+                 {allLighting.map(light => (
                    <button
                     key={light.id}
                     onClick={() => onSelectLighting(light)}
@@ -192,8 +372,25 @@ const ControlPanel: React.FC<ControlPanelProps> = ({
                    >
                      <span>{light.icon}</span>
                      {light.name}
+                     {light.setup && selectedLighting.id === light.id && (
+                       <span
+                         onClick={(e) => { e.stopPropagation(); setEditingLighting(light); }}
+                         className="p-0.5 -mr-1 rounded text-gray-400 hover:text-white"
+                         title="Edit Preset"
+                       >
+                         <Pencil size={12} />
+                       </span>
+                     )}
                    </button>
                  ))}
+                 <button
+                   onClick={() => setEditingLighting(null)}
+                   disabled={disabled}
+                   className="flex-none px-3 py-2 rounded-lg flex items-center gap-1 text-xs font-medium transition-all snap-start border border-dashed border-studio-600 text-gray-400 hover:bg-studio-700 hover:text-white"
+                   title="Build Custom Lighting"
+                 >
+                   <Plus size={14} /> Custom
+                 </button>
               </div>
             </div>
 
@@ -273,6 +470,108 @@ const ControlPanel: React.FC<ControlPanelProps> = ({
                />
             </div>
 
+            <div className="w-full h-px bg-white/5 my-1" />
+
+            <BackgroundLibrary
+              backgrounds={libraryBackgrounds}
+              selectedBg={selectedBg}
+              onSelectBg={onSelectBg}
+              onSave={onSaveBackground}
+              onDelete={onDeleteBackground}
+              onToggleFavorite={onToggleFavoriteBackground}
+              onImport={onImportBackgrounds}
+              onError={onError}
+              disabled={disabled}
+            />
+
+          </div>
+        ) : activeTab === 'batch' ? (
+          <div className="space-y-4 px-1">
+
+            {/* Batch Mode Toggle */}
+            <button
+              onClick={() => onUpdateBatch({ ...batch, enabled: !batch.enabled })}
+              disabled={disabled}
+              className={`
+                w-full flex items-center justify-between px-3 py-2.5 rounded-lg text-sm font-medium transition-all border
+                ${batch.enabled
+                  ? 'bg-studio-accent border-studio-accent text-white shadow-lg'
+                  : 'bg-studio-800 border-studio-700 text-gray-400 hover:bg-studio-700 hover:text-white'}
+              `}
+            >
+              <span className="flex items-center gap-2"><Layers size={14} /> Batch Mode</span>
+              <span className="text-xs">{batch.enabled ? `${batchCount} shots per capture` : 'Off'}</span>
+            </button>
+
+            {/* Background Matrix */}
+            <div className="space-y-2">
+              <div className="text-xs text-gray-400 uppercase tracking-wider font-medium">Backgrounds</div>
+              <div className="grid grid-cols-3 gap-2">
+                {batchBackgrounds.map(bg => {
+                  const isSelected = batch.backgroundIds.includes(bg.id);
+                  return (
+                    <button
+                      key={bg.id}
+                      onClick={() => onUpdateBatch({ ...batch, backgroundIds: toggleId(batch.backgroundIds, bg.id) })}
+                      disabled={disabled}
+                      className={`
+                        flex items-center gap-2 px-2 py-2 rounded-lg text-[11px] font-medium transition-all border
+                        ${isSelected ? 'bg-studio-700 border-studio-accent text-white' : 'bg-studio-800 border-studio-800 text-gray-400 hover:bg-studio-700'}
+                      `}
+                    >
+                      <div
+                        className={`w-3 h-3 flex-none rounded-full ${bg.previewClass}`}
+                        style={bg.type === 'solid' ? { backgroundColor: bg.value } : {}}
+                      />
+                      <span className="truncate flex-1 text-left">{bg.name}</span>
+                      {isSelected && <Check size={12} className="text-studio-accent" />}
+                    </button>
+                  );
+                })}
+              </div>
+            </div>
+
+            {/* Lighting Matrix */}
+            <div className="space-y-2">
+              <div className="text-xs text-gray-400 uppercase tracking-wider font-medium">Lighting</div>
+              <div className="grid grid-cols-3 gap-2">
+                {allLighting.map(light => {
+                  const isSelected = batch.lightingIds.includes(light.id);
+                  return (
+                    <button
+                      key={light.id}
+                      onClick={() => onUpdateBatch({ ...batch, lightingIds: toggleId(batch.lightingIds, light.id) })}
+                      disabled={disabled}
+                      className={`
+                        flex items-center gap-2 px-2 py-2 rounded-lg text-[11px] font-medium transition-all border
+                        ${isSelected ? 'bg-studio-700 border-studio-accent text-white' : 'bg-studio-800 border-studio-800 text-gray-400 hover:bg-studio-700'}
+                      `}
+                    >
+                      <span>{light.icon}</span>
+                      <span className="truncate flex-1 text-left">{light.name}</span>
+                      {isSelected && <Check size={12} className="text-studio-accent" />}
+                    </button>
+                  );
+                })}
+              </div>
+            </div>
+
+            {/* Concurrency */}
+            <div className="space-y-2">
+              <div className="flex justify-between text-xs text-gray-400 uppercase tracking-wider font-medium">
+                <span>Parallel Renders</span>
+                <span className="text-white">{batch.concurrency}</span>
+              </div>
+              <input
+                type="range"
+                min="1"
+                max="4"
+                value={batch.concurrency}
+                disabled={disabled}
+                onChange={(e) => onUpdateBatch({ ...batch, concurrency: Number(e.target.value) })}
+                className="w-full accent-studio-accent"
+              />
+            </div>
           </div>
         ) : (
           <div className="space-y-6 px-1">
@@ -328,9 +627,129 @@ const ControlPanel: React.FC<ControlPanelProps> = ({
               <p className="text-[10px] text-center text-gray-500 mt-2">Tap to position the main light source</p>
             </div>
 
+            <div className="h-px bg-white/5 w-full my-4" />
+
+            {/* Product Fidelity Check */}
+            <div className="space-y-3">
+              <button
+                onClick={() => onUpdateFidelity({ ...fidelity, enabled: !fidelity.enabled })}
+                className={`
+                  w-full flex items-center justify-between px-3 py-2.5 rounded-lg text-sm font-medium transition-all border
+                  ${fidelity.enabled
+                    ? 'bg-studio-700 border-studio-accent text-white'
+                    : 'bg-studio-800 border-studio-700 text-gray-400 hover:bg-studio-700 hover:text-white'}
+                `}
+              >
+                <span className="flex items-center gap-2"><ShieldCheck size={14} className="text-studio-accent" /> Fidelity Check</span>
+                <span className="text-xs">{fidelity.enabled ? 'On' : 'Off'}</span>
+              </button>
+              {fidelity.enabled && (
+                <>
+                  <div className="space-y-2">
+                    <div className="flex justify-between text-xs text-gray-400 uppercase tracking-wider font-medium">
+                      <span>Warn Below</span>
+                      <span className="text-white">{Math.round(fidelity.threshold * 100)}%</span>
+                    </div>
+                    <input
+                      type="range" min="0.3" max="0.95" step="0.05"
+                      value={fidelity.threshold}
+                      onChange={(e) => onUpdateFidelity({ ...fidelity, threshold: Number(e.target.value) })}
+                      className="w-full accent-studio-accent"
+                    />
+                  </div>
+                  <label className="flex items-center gap-2 text-xs text-gray-400">
+                    <input
+                      type="checkbox"
+                      checked={fidelity.autoRegenerate}
+                      onChange={(e) => onUpdateFidelity({ ...fidelity, autoRegenerate: e.target.checked })}
+                      className="accent-studio-accent"
+                    />
+                    Regenerate flagged shots automatically
+                  </label>
+                  {fidelity.autoRegenerate && (
+                    <div className="flex justify-between items-center text-xs text-gray-400 pl-5">
+                      <span>Attempts per capture</span>
+                      <select
+                        value={fidelity.maxRegenerations}
+                        onChange={(e) => onUpdateFidelity({ ...fidelity, maxRegenerations: Number(e.target.value) })}
+                        className="bg-studio-800 border border-studio-700 rounded-md px-2 py-1 text-xs text-white focus:outline-none focus:ring-2 focus:ring-studio-accent"
+                      >
+                        {[1, 2, 3].map(n => <option key={n} value={n}>{n}</option>)}
+                      </select>
+                    </div>
+                  )}
+                </>
+              )}
+            </div>
+
+            {/* Live Preview Warnings */}
+            <div className="space-y-3 mt-3">
+              <button
+                onClick={() => onUpdatePreviewQuality({ ...previewQuality, enabled: !previewQuality.enabled })}
+                className={`
+                  w-full flex items-center justify-between px-3 py-2.5 rounded-lg text-sm font-medium transition-all border
+                  ${previewQuality.enabled
+                    ? 'bg-studio-700 border-studio-accent text-white'
+                    : 'bg-studio-800 border-studio-700 text-gray-400 hover:bg-studio-700 hover:text-white'}
+                `}
+              >
+                <span className="flex items-center gap-2"><ScanEye size={14} className="text-studio-accent" /> Preview Warnings</span>
+                <span className="text-xs">{previewQuality.enabled ? 'On' : 'Off'}</span>
+              </button>
+              {previewQuality.enabled && (
+                <label className="flex items-center gap-2 text-xs text-gray-400">
+                  <input
+                    type="checkbox"
+                    checked={previewQuality.blockCritical}
+                    onChange={(e) => onUpdatePreviewQuality({ ...previewQuality, blockCritical: e.target.checked })}
+                    className="accent-studio-accent"
+                  />
+                  Block capture while a critical warning is shown
+                </label>
+              )}
+            </div>
+
+            <div className="h-px bg-white/5 w-full my-4" />
+
+            <PromptPanel
+              templates={promptTemplates}
+              selectedTemplate={selectedTemplate}
+              onSelectTemplate={onSelectTemplate}
+              onSaveTemplate={onSaveTemplate}
+              onDeleteTemplate={onDeleteTemplate}
+              instructions={promptInstructions}
+              onUpdateInstructions={onUpdateInstructions}
+              previewInput={{ background: selectedBg, lighting: selectedLighting, settings, promptAdditions }}
+            />
+
           </div>
         )}
       </div>
+
+      {editingKit !== undefined && (
+        <BrandKitEditor
+          kit={editingKit}
+          current={{ settings, background: selectedBg, lighting: selectedLighting }}
+          onSave={(kit) => { onSaveKit(kit); onApplyKit(kit); }}
+          onDelete={(id) => {
+            onDeleteKit(id);
+            if (activeKit?.id === id) onApplyKit(null);
+          }}
+          onClose={() => setEditingKit(undefined)}
+        />
+      )}
+
+      {editingLighting !== undefined && (
+        <LightingEditor
+          preset={editingLighting}
+          onSave={(light) => { onSaveLighting(light); onSelectLighting(light); }}
+          onDelete={(id) => {
+            onDeleteLighting(id);
+            if (selectedLighting.id === id) onSelectLighting(PRESET_LIGHTING[0]);
+          }}
+          onClose={() => setEditingLighting(undefined)}
+        />
+      )}
     </div>
   );
 };
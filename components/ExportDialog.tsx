@@ -0,0 +1,254 @@
+import React, { useState } from 'react';
+import { ExportFormat, ExportProfile, GeneratedImage } from '../types';
+import { createExportProfile, downloadBlob, renderExport } from '../services/exportService';
+import { formatBytes } from '../services/storageService';
+import { X, Download, Pencil, Plus, Trash2, Save, RotateCcw, Loader2, AlertTriangle } from 'lucide-react';
+
+interface ExportDialogProps {
+  image: GeneratedImage;
+  profiles: ExportProfile[];
+  onSaveProfile: (profile: ExportProfile) => void;
+  onDeleteProfile: (id: string) => void;
+  onResetProfiles: () => void;
+  onClose: () => void;
+}
+
+const FORMATS: ExportFormat[] = ['jpeg', 'webp', 'png'];
+
+const NEW_PROFILE: Omit<ExportProfile, 'id'> = {
+  name: 'Custom',
+  width: 2000,
+  height: 2000,
+  format: 'jpeg',
+  quality: 0.9,
+  whiteBackground: false,
+};
+
+const describeProfile = (profile: ExportProfile) => [
+  `${profile.width}×${profile.height}`,
+  profile.format.toUpperCase(),
+  profile.maxBytes ? `≤ ${formatBytes(profile.maxBytes)}` : null,
+  profile.whiteBackground ? 'white bg' : null,
+  profile.minProductFill ? `fill ${Math.round(profile.minProductFill * 100)}%` : null,
+].filter(Boolean).join(' · ');
+
+const ExportDialog: React.FC<ExportDialogProps> = ({ image, profiles, onSaveProfile, onDeleteProfile, onResetProfiles, onClose }) => {
+  const [selectedId, setSelectedId] = useState(profiles[0]?.id);
+  const [draft, setDraft] = useState<ExportProfile | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [status, setStatus] = useState<{ text: string; warning: boolean } | null>(null);
+
+  const selected = profiles.find(p => p.id === selectedId);
+
+  const handleExport = async () => {
+    if (!selected) return;
+    setBusy(true);
+    setStatus(null);
+    try {
+      const result = await renderExport(image, selected);
+      downloadBlob(result.filename, result.blob);
+      const size = `${formatBytes(result.blob.size)}${selected.format !== 'png' ? ` at ${Math.round(result.quality * 100)}% quality` : ''}`;
+      setStatus(result.withinLimit
+        ? { text: `Saved ${result.filename} (${size}).`, warning: false }
+        : { text: `Saved, but ${size} is over the ${formatBytes(selected.maxBytes!)} limit.`, warning: true });
+    } catch (e: any) {
+      console.error("Export failed:", e);
+      setStatus({ text: e.message || "Export failed.", warning: true });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const updateDraft = (patch: Partial<ExportProfile>) => setDraft(prev => prev && { ...prev, ...patch });
+
+  const renderNumber = (label: string, value: number | undefined, onChange: (value: number | undefined) => void, suffix?: string) => (
+    <label className="flex-1 space-y-1">
+      <span className="text-[10px] text-gray-400 uppercase tracking-wider font-medium">{label}{suffix && ` (${suffix})`}</span>
+      <input
+        type="number"
+        min="0"
+        value={value ?? ''}
+        onChange={(e) => onChange(e.target.value === '' ? undefined : Number(e.target.value))}
+        className="w-full bg-studio-800 border border-studio-700 rounded-lg px-2 py-1.5 text-sm text-white focus:outline-none focus:ring-2 focus:ring-studio-accent"
+      />
+    </label>
+  );
+
+  const renderEditor = (profile: ExportProfile) => (
+    <div className="space-y-3">
+      <input
+        value={profile.name}
+        onChange={(e) => updateDraft({ name: e.target.value })}
+        placeholder="Profile name"
+        className="w-full bg-studio-800 border border-studio-700 rounded-lg px-3 py-2 text-sm text-white focus:outline-none focus:ring-2 focus:ring-studio-accent"
+      />
+      <div className="flex gap-2">
+        {renderNumber('Width', profile.width, (v) => updateDraft({ width: v || 0 }), 'px')}
+        {renderNumber('Height', profile.height, (v) => updateDraft({ height: v || 0 }), 'px')}
+        {renderNumber('Max Size', profile.maxBytes && Math.round(profile.maxBytes / 1024), (v) => updateDraft({ maxBytes: v ? v * 1024 : undefined }), 'KB')}
+      </div>
+      <div className="grid grid-cols-3 gap-1.5">
+        {FORMATS.map(format => (
+          <button
+            key={format}
+            onClick={() => updateDraft({ format })}
+            className={`
+              py-1.5 rounded-lg text-[11px] font-medium uppercase transition-all border
+              ${profile.format === format
+                ? 'bg-studio-accent border-studio-accent text-white'
+                : 'bg-studio-800 border-studio-700 text-gray-400 hover:bg-studio-700 hover:text-white'}
+            `}
+          >
+            {format}
+          </button>
+        ))}
+      </div>
+      {profile.format !== 'png' && (
+        <div className="space-y-1.5">
+          <div className="flex justify-between text-xs text-gray-400 uppercase tracking-wider font-medium">
+            <span>Quality</span>
+            <span className="text-white">{Math.round(profile.quality * 100)}%</span>
+          </div>
+          <input
+            type="range" min="0.4" max="1" step="0.01"
+            value={profile.quality}
+            onChange={(e) => updateDraft({ quality: Number(e.target.value) })}
+            className="w-full accent-studio-accent"
+          />
+        </div>
+      )}
+      <div className="space-y-1.5">
+        <div className="flex justify-between text-xs text-gray-400 uppercase tracking-wider font-medium">
+          <span>Min Product Fill</span>
+          <span className="text-white">{profile.minProductFill ? `${Math.round(profile.minProductFill * 100)}%` : 'Off'}</span>
+        </div>
+        <input
+          type="range" min="0" max="0.95" step="0.05"
+          value={profile.minProductFill || 0}
+          onChange={(e) => updateDraft({ minProductFill: Number(e.target.value) || undefined })}
+          className="w-full accent-studio-accent"
+        />
+      </div>
+      <label className="flex items-center gap-2 text-xs text-gray-400">
+        <input
+          type="checkbox"
+          checked={profile.whiteBackground}
+          onChange={(e) => updateDraft({ whiteBackground: e.target.checked })}
+          className="accent-studio-accent"
+        />
+        Force pure white (#FFFFFF) background
+      </label>
+      <div className="flex gap-2">
+        {profiles.some(p => p.id === profile.id) && (
+          <button
+            onClick={() => {
+              onDeleteProfile(profile.id);
+              if (selectedId === profile.id) setSelectedId(profiles.find(p => p.id !== profile.id)?.id);
+              setDraft(null);
+            }}
+            className="px-4 py-2.5 rounded-full bg-red-500/20 text-red-200 hover:bg-red-500/40 transition-colors"
+            title="Delete Profile"
+          >
+            <Trash2 size={16} />
+          </button>
+        )}
+        <button
+          onClick={() => setDraft(null)}
+          className="px-4 py-2.5 rounded-full bg-white/10 text-white text-sm font-medium hover:bg-white/20 transition-colors"
+        >
+          Cancel
+        </button>
+        <button
+          onClick={() => {
+            onSaveProfile({ ...profile, name: profile.name.trim() || 'Custom' });
+            setSelectedId(profile.id);
+            setDraft(null);
+          }}
+          disabled={profile.width <= 0 || profile.height <= 0}
+          className="flex-1 flex items-center justify-center gap-2 py-2.5 rounded-full bg-white text-black font-bold hover:bg-gray-100 transition-colors disabled:opacity-50"
+        >
+          <Save size={16} /> Save Profile
+        </button>
+      </div>
+    </div>
+  );
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/80 backdrop-blur flex items-end sm:items-center justify-center animate-in fade-in duration-200">
+      <div className="w-full max-w-md bg-studio-900 rounded-t-3xl sm:rounded-3xl border border-white/10 p-5 space-y-4 max-h-[90vh] overflow-y-auto no-scrollbar">
+        <div className="flex items-center justify-between">
+          <p className="text-sm text-white font-bold">{draft ? 'Edit Export Profile' : 'Export For'}</p>
+          <div className="flex items-center gap-1">
+            {!draft && (
+              <button
+                onClick={onResetProfiles}
+                className="p-2 rounded-full text-gray-500 hover:bg-white/10 hover:text-white"
+                title="Restore Built-in Profiles"
+              >
+                <RotateCcw size={16} />
+              </button>
+            )}
+            <button onClick={onClose} className="p-2 rounded-full text-gray-400 hover:bg-white/10 hover:text-white">
+              <X size={18} />
+            </button>
+          </div>
+        </div>
+
+        {draft ? renderEditor(draft) : (
+          <>
+            <div className="space-y-2">
+              {profiles.map(profile => (
+                <button
+                  key={profile.id}
+                  onClick={() => setSelectedId(profile.id)}
+                  className={`
+                    w-full flex items-center justify-between gap-2 px-3 py-2.5 rounded-lg text-left transition-all border
+                    ${selectedId === profile.id
+                      ? 'bg-studio-700 border-studio-accent text-white'
+                      : 'bg-studio-800 border-studio-800 text-gray-400 hover:bg-studio-700'}
+                  `}
+                >
+                  <span className="min-w-0">
+                    <span className="block text-sm font-medium truncate">{profile.name}</span>
+                    <span className="block text-[11px] text-gray-500 truncate">{describeProfile(profile)}</span>
+                  </span>
+                  <span
+                    onClick={(e) => { e.stopPropagation(); setDraft(profile); }}
+                    className="p-1.5 rounded text-gray-500 hover:text-white"
+                    title="Edit Profile"
+                  >
+                    <Pencil size={14} />
+                  </span>
+                </button>
+              ))}
+              <button
+                onClick={() => setDraft(createExportProfile(NEW_PROFILE))}
+                className="w-full flex items-center justify-center gap-1 px-3 py-2 rounded-lg text-xs font-medium border border-dashed border-studio-600 text-gray-400 hover:bg-studio-700 hover:text-white"
+              >
+                <Plus size={14} /> New Profile
+              </button>
+            </div>
+
+            {status && (
+              <p className={`flex items-start gap-2 text-xs ${status.warning ? 'text-amber-400' : 'text-gray-400'}`}>
+                {status.warning && <AlertTriangle size={14} className="flex-none" />}
+                <span className="break-all">{status.text}</span>
+              </p>
+            )}
+
+            <button
+              onClick={handleExport}
+              disabled={!selected || busy}
+              className="w-full flex items-center justify-center gap-2 py-3 rounded-full bg-white text-black font-bold hover:bg-gray-100 transition-colors disabled:opacity-50"
+            >
+              {busy ? <Loader2 size={18} className="animate-spin" /> : <Download size={18} />}
+              {busy ? 'Exporting…' : 'Export'}
+            </button>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ExportDialog;
@@ -0,0 +1,169 @@
+import React, { useRef, useEffect, useState } from 'react';
+import { AspectRatio, Framing, DEFAULT_FRAMING } from '../types';
+import { drawFraming, getFramingGeometry, getOutputSize, panByDrag, renderFraming, MAX_STRAIGHTEN, MAX_ZOOM } from '../services/framingService';
+import { X, Check, RotateCcw, RotateCw, ZoomIn, Ruler } from 'lucide-react';
+
+interface FramingEditorProps {
+  imageSrc: string; // Full, uncropped camera frame
+  aspectRatio: AspectRatio;
+  initialFraming: Framing;
+  onConfirm: (croppedSrc: string, framing: Framing) => void;
+  onCancel: () => void;
+}
+
+const PREVIEW_LONG_EDGE = 720;
+
+const FramingEditor: React.FC<FramingEditorProps> = ({ imageSrc, aspectRatio, initialFraming, onConfirm, onCancel }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [image, setImage] = useState<HTMLImageElement | null>(null);
+  const [framing, setFraming] = useState<Framing>(initialFraming);
+  const dragRef = useRef<{ x: number; y: number } | null>(null);
+
+  const preview = getOutputSize(aspectRatio, PREVIEW_LONG_EDGE);
+
+  useEffect(() => {
+    const img = new Image();
+    img.onload = () => setImage(img);
+    img.src = imageSrc;
+  }, [imageSrc]);
+
+  // Redraw the live preview on every change
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx || !image) return;
+    ctx.fillStyle = '#000';
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+    drawFraming(ctx, image, framing, canvas.width, canvas.height);
+  }, [image, framing, aspectRatio]);
+
+  const update = (patch: Partial<Framing>) => setFraming(prev => ({ ...prev, ...patch }));
+
+  const handlePointerDown = (e: React.PointerEvent) => {
+    (e.target as HTMLElement).setPointerCapture(e.pointerId);
+    dragRef.current = { x: e.clientX, y: e.clientY };
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    if (!dragRef.current || !image || !canvasRef.current) return;
+    // Screen pixels -> preview canvas pixels
+    const rect = canvasRef.current.getBoundingClientRect();
+    const ratio = canvasRef.current.width / rect.width;
+    const dx = (e.clientX - dragRef.current.x) * ratio;
+    const dy = (e.clientY - dragRef.current.y) * ratio;
+    dragRef.current = { x: e.clientX, y: e.clientY };
+
+    setFraming(prev => {
+      const geometry = getFramingGeometry(image.width, image.height, prev, canvasRef.current!.width, canvasRef.current!.height);
+      return panByDrag(prev, geometry, dx, dy);
+    });
+  };
+
+  const handlePointerUp = () => {
+    dragRef.current = null;
+  };
+
+  const handleWheel = (e: React.WheelEvent) => {
+    const next = framing.zoom * (e.deltaY < 0 ? 1.1 : 1 / 1.1);
+    update({ zoom: Math.max(1, Math.min(MAX_ZOOM, next)) });
+  };
+
+  const handleConfirm = () => {
+    if (!image) return;
+    onConfirm(renderFraming(image, framing, aspectRatio), framing);
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/95 backdrop-blur flex flex-col items-center justify-center p-4 gap-4 animate-in fade-in duration-200">
+      <div className="w-full max-w-md flex items-center justify-between">
+        <button onClick={onCancel} className="p-3 bg-white/10 rounded-full text-white hover:bg-white/20" title="Discard">
+          <X size={20} />
+        </button>
+        <p className="text-sm text-gray-300 font-medium">Adjust Framing</p>
+        <button onClick={handleConfirm} disabled={!image} className="p-3 bg-studio-accent rounded-full text-white hover:bg-blue-600 disabled:opacity-50" title="Use Photo">
+          <Check size={20} />
+        </button>
+      </div>
+
+      {/* Preview */}
+      <div className="relative inline-block max-w-full">
+        <canvas
+          ref={canvasRef}
+          width={Math.round(preview.width)}
+          height={Math.round(preview.height)}
+          onPointerDown={handlePointerDown}
+          onPointerMove={handlePointerMove}
+          onPointerUp={handlePointerUp}
+          onPointerCancel={handlePointerUp}
+          onWheel={handleWheel}
+          className="block max-w-full max-h-[55vh] rounded-lg shadow-2xl cursor-move touch-none"
+        />
+        {/* Thirds Grid (same as the camera overlay) */}
+        <div className="absolute inset-0 pointer-events-none grid grid-cols-3 grid-rows-3 opacity-30">
+          <div className="border-r border-b border-white"></div>
+          <div className="border-r border-b border-white"></div>
+          <div className="border-b border-white"></div>
+          <div className="border-r border-b border-white"></div>
+          <div className="border-r border-b border-white"></div>
+          <div className="border-b border-white"></div>
+          <div className="border-r border-white"></div>
+          <div className="border-r border-white"></div>
+          <div></div>
+        </div>
+      </div>
+
+      {/* Controls */}
+      <div className="w-full max-w-md bg-studio-800/80 rounded-2xl p-4 border border-white/10 space-y-4">
+        <div className="space-y-2">
+          <div className="flex justify-between text-xs text-gray-400 uppercase tracking-wider font-medium">
+            <span className="flex items-center gap-1"><ZoomIn size={12} /> Zoom</span>
+            <span className="text-white">{framing.zoom.toFixed(1)}x</span>
+          </div>
+          <input
+            type="range" min="1" max={MAX_ZOOM} step="0.05"
+            value={framing.zoom}
+            onChange={(e) => update({ zoom: Number(e.target.value) })}
+            className="w-full accent-studio-accent"
+          />
+        </div>
+
+        <div className="space-y-2">
+          <div className="flex justify-between text-xs text-gray-400 uppercase tracking-wider font-medium">
+            <span className="flex items-center gap-1"><Ruler size={12} /> Straighten</span>
+            <span className="text-white">{framing.straighten.toFixed(1)}°</span>
+          </div>
+          <input
+            type="range" min={-MAX_STRAIGHTEN} max={MAX_STRAIGHTEN} step="0.1"
+            value={framing.straighten}
+            onChange={(e) => update({ straighten: Number(e.target.value) })}
+            className="w-full accent-studio-accent"
+          />
+        </div>
+
+        <div className="flex gap-2">
+          <button
+            onClick={() => update({ quarterTurns: (framing.quarterTurns + 3) % 4, panX: 0, panY: 0 })}
+            className="flex-1 flex items-center justify-center gap-2 py-2 rounded-lg bg-studio-700 text-gray-300 text-xs font-medium hover:text-white"
+          >
+            <RotateCcw size={14} /> Rotate Left
+          </button>
+          <button
+            onClick={() => update({ quarterTurns: (framing.quarterTurns + 1) % 4, panX: 0, panY: 0 })}
+            className="flex-1 flex items-center justify-center gap-2 py-2 rounded-lg bg-studio-700 text-gray-300 text-xs font-medium hover:text-white"
+          >
+            <RotateCw size={14} /> Rotate Right
+          </button>
+          <button
+            onClick={() => setFraming(DEFAULT_FRAMING)}
+            className="px-3 py-2 rounded-lg bg-studio-700 text-gray-300 text-xs font-medium hover:text-white"
+          >
+            Reset
+          </button>
+        </div>
+        <p className="text-[10px] text-center text-gray-500">Drag to reposition · scroll to zoom</p>
+      </div>
+    </div>
+  );
+};
+
+export default FramingEditor;
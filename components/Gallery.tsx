@@ -1,71 +1,497 @@
 
-import React from 'react';
-import { GeneratedImage } from '../types';
-import { Download, Eye, Trash2 } from 'lucide-react';
+import React, { useEffect, useState } from 'react';
+import { GeneratedImage, GenerationJob, Project } from '../types';
+import { StorageUsage, formatBytes } from '../services/storageService';
+import { describeGenerationError } from '../services/generationErrors';
+import { getVersions, latestVersions } from '../services/versionService';
+import { ALL, DEFAULT_GALLERY_FILTER, DateRange, GalleryFilter, GallerySort, NO_PROJECT, countActiveFilters, filterGallery, listFilterOptions, matchesProject } from '../services/galleryFilterService';
+import { Download, Eye, Trash2, HardDrive, Layers, RotateCcw, Clock, AlertTriangle, FlipHorizontal2, ShieldAlert, CheckCircle2, Circle, Archive, Loader2, X, SlidersHorizontal, Wand2, Shuffle, Boxes, Info } from 'lucide-react';
 
 interface GalleryProps {
   images: GeneratedImage[];
+  jobs?: GenerationJob[];
+  onRetryJob?: (id: string) => void;
+  onRemoveJob?: (id: string) => void;
   onRemove: (id: string) => void;
   onView: (image: GeneratedImage) => void;
+  onDownload: (image: GeneratedImage) => void;
+  onCompare?: (image: GeneratedImage) => void;
+  onRefine?: (image: GeneratedImage) => void;
+  onRegenerate?: (image: GeneratedImage) => void;
+  onPickVariant?: (groupId: string) => void; // Opens the side-by-side picker for a variation group
+  onExportSet?: (setId: string) => void; // Downloads a product set as one ZIP
+  fidelityThreshold?: number; // Shots scoring below it get a warning badge
+  storageUsage?: StorageUsage | null;
+  onExportZip?: (images: GeneratedImage[], includeOriginals: boolean) => Promise<void>;
+  projects?: Project[];
+  activeProjectId?: string | null; // The project filter follows it when it changes
+  onMoveToProject?: (ids: string[], projectId: string | null) => void;
 }
 
-const Gallery: React.FC<GalleryProps> = ({ images, onRemove, onView }) => {
-  if (images.length === 0) return null;
+const DATE_RANGES: { id: DateRange; label: string }[] = [
+  { id: 'all', label: 'Any Date' },
+  { id: 'today', label: 'Today' },
+  { id: 'week', label: 'Last 7 Days' },
+  { id: 'month', label: 'Last 30 Days' },
+];
+
+const SORTS: { id: GallerySort; label: string }[] = [
+  { id: 'newest', label: 'Newest First' },
+  { id: 'oldest', label: 'Oldest First' },
+  { id: 'project', label: 'By Project' },
+  { id: 'background', label: 'By Background' },
+  { id: 'lighting', label: 'By Lighting' },
+];
+
+type GalleryEntry =
+  | { type: 'single'; image: GeneratedImage }
+  | { type: 'job'; job: GenerationJob }
+  | { type: 'batch' | 'variants' | 'set'; groupId: string; images: GeneratedImage[]; jobs: GenerationJob[] };
+
+type GroupEntry = GalleryEntry & { type: 'batch' | 'variants' | 'set' };
+
+// Variations of a shot are grouped even when the shot itself came from a batch or a product set
+const groupOf = (item: { batchId?: string; variantGroupId?: string; productSet?: { id: string } }): Pick<GroupEntry, 'type' | 'groupId'> | null =>
+  item.variantGroupId ? { type: 'variants', groupId: item.variantGroupId }
+    : item.productSet ? { type: 'set', groupId: item.productSet.id }
+    : item.batchId ? { type: 'batch', groupId: item.batchId }
+    : null;
+
+const Gallery: React.FC<GalleryProps> = ({ images, jobs = [], onRetryJob, onRemoveJob, onRemove, onView, onDownload, onCompare, onRefine, onRegenerate, onPickVariant, onExportSet, fidelityThreshold, storageUsage, onExportZip, projects = [], activeProjectId, onMoveToProject }) => {
+  // Failed job whose raw error is shown; a tap toggles it, since hover titles don't reach touch screens
+  const [errorDetailsId, setErrorDetailsId] = useState<string | null>(null);
+  const [filter, setFilter] = useState<GalleryFilter>(DEFAULT_GALLERY_FILTER);
+  const [showFilters, setShowFilters] = useState(false);
+  const [selecting, setSelecting] = useState(false);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [includeOriginals, setIncludeOriginals] = useState(false);
+  const [zipping, setZipping] = useState(false);
+
+  useEffect(() => {
+    setFilter(prev => ({ ...prev, projectId: activeProjectId || ALL }));
+  }, [activeProjectId]);
+
+  if (images.length === 0 && jobs.length === 0) return null;
+
+  // Refined shots show as their newest version; older ones live in the viewer's history
+  const shots = latestVersions(images);
+  const visibleImages = filterGallery(shots, filter, projects);
+  const visibleJobs = jobs.filter(job => matchesProject(job.projectId, filter.projectId, projects));
+  const filterOptions = listFilterOptions(shots);
+  const activeFilters = countActiveFilters(filter);
+  const filteredProject = projects.find(p => p.id === filter.projectId);
+
+  const selectedImages = visibleImages.filter(img => selectedIds.has(img.id));
+
+  const toggleSelected = (id: string) => setSelectedIds(prev => {
+    const next = new Set(prev);
+    if (next.has(id)) next.delete(id);
+    else next.add(id);
+    return next;
+  });
+
+  const stopSelecting = () => {
+    setSelecting(false);
+    setSelectedIds(new Set());
+  };
+
+  const handleExportZip = async () => {
+    if (!onExportZip || selectedImages.length === 0) return;
+    setZipping(true);
+    try {
+      await onExportZip(selectedImages, includeOriginals);
+      stopSelecting();
+    } finally {
+      setZipping(false);
+    }
+  };
+
+  const usageRatio = storageUsage && storageUsage.quota > 0 ? storageUsage.usage / storageUsage.quota : 0;
+
+  // Shots from the same batch capture (or variation run) are shown together as one set, at the position of its newest shot.
+  // Queued jobs come first as placeholders and are replaced by the real shot once they finish.
+  const entries: GalleryEntry[] = [];
+  const groupEntries = new Map<string, GroupEntry>();
+  const getGroupEntry = ({ type, groupId }: Pick<GroupEntry, 'type' | 'groupId'>) => {
+    let entry = groupEntries.get(`${type}:${groupId}`);
+    if (!entry) {
+      entry = { type, groupId, images: [], jobs: [] };
+      groupEntries.set(`${type}:${groupId}`, entry);
+      entries.push(entry);
+    }
+    return entry;
+  };
+  for (const job of [...visibleJobs].sort((a, b) => b.createdAt - a.createdAt)) {
+    const group = groupOf(job);
+    if (group) getGroupEntry(group).jobs.push(job);
+    else entries.push({ type: 'job', job });
+  }
+  for (const image of visibleImages) {
+    const group = groupOf(image);
+    if (group) getGroupEntry(group).images.push(image);
+    else entries.push({ type: 'single', image });
+  }
+
+  const renderSelect = (value: string, onChange: (value: string) => void, options: { id: string; label: string }[]) => (
+    <select
+      value={value}
+      onChange={(e) => onChange(e.target.value)}
+      className="w-full bg-studio-800 border border-studio-700 rounded-lg px-2 py-1.5 text-xs text-gray-300 focus:outline-none focus:ring-2 focus:ring-studio-accent truncate"
+    >
+      {options.map(option => <option key={option.id} value={option.id}>{option.label}</option>)}
+    </select>
+  );
+
+  const renderJobCard = (job: GenerationJob) => {
+    const failure = job.status === 'failed' ? describeGenerationError(job.errorKind || 'network') : null;
+    return (
+      <div
+        key={job.id}
+        className="relative w-full aspect-square rounded-xl overflow-hidden border border-studio-700 shadow-lg bg-studio-800"
+        title={job.error}
+      >
+        <img
+          src={job.sourceUrl || job.originalUrl}
+          alt="Queued capture"
+          className={`w-full h-full object-cover ${failure ? 'opacity-20' : 'opacity-40 blur-[1px]'}`}
+        />
+
+        {failure && errorDetailsId === job.id ? (
+          <div
+            onClick={() => setErrorDetailsId(null)}
+            className="absolute inset-0 p-2 bg-black/80 overflow-y-auto no-scrollbar cursor-pointer"
+            title="Hide details"
+          >
+            <p className="text-[10px] text-gray-300 leading-snug break-words">{job.error || 'No details were recorded.'}</p>
+          </div>
+        ) : failure ? (
+          <div className="absolute inset-0 flex flex-col items-center justify-center gap-1.5 p-2 text-center">
+            <AlertTriangle size={18} className="text-red-400" />
+            <p className="text-[11px] text-red-200 font-medium leading-tight">{failure.title}</p>
+            <p className="text-[10px] text-gray-300 leading-tight line-clamp-3">{failure.nextStep}</p>
+            <div className="flex gap-2">
+              <button
+                onClick={() => onRetryJob?.(job.id)}
+                className="p-2 bg-white/20 hover:bg-white/40 rounded-full text-white backdrop-blur-sm transition-colors"
+                title="Retry"
+              >
+                <RotateCcw size={16} />
+              </button>
+              <button
+                onClick={() => onRemoveJob?.(job.id)}
+                className="p-2 bg-red-500/20 hover:bg-red-500/40 rounded-full text-red-200 backdrop-blur-sm transition-colors"
+                title="Discard"
+              >
+                <Trash2 size={16} />
+              </button>
+              {job.error && (
+                <button
+                  onClick={() => setErrorDetailsId(job.id)}
+                  className="p-2 bg-white/20 hover:bg-white/40 rounded-full text-white backdrop-blur-sm transition-colors"
+                  title="Show details"
+                >
+                  <Info size={16} />
+                </button>
+              )}
+            </div>
+          </div>
+        ) : (
+          <div className="absolute inset-0 flex flex-col items-center justify-center gap-2">
+            {job.status === 'running' ? (
+              <div className="w-8 h-8 border-2 border-studio-accent border-t-transparent rounded-full animate-spin" />
+            ) : (
+              <Clock size={20} className="text-gray-400" />
+            )}
+            <p className="text-[11px] text-white/80 font-medium">{job.status === 'running' ? 'Developing...' : 'Queued'}</p>
+          </div>
+        )}
+
+        <div
+          className={`absolute top-2 left-2 w-4 h-4 rounded-full border border-white/20 shadow-sm ${job.background.previewClass || ''}`}
+          style={job.background.type === 'solid' ? { backgroundColor: job.background.value } : {}}
+          title={job.background.name}
+        />
+      </div>
+    );
+  };
+
+  const renderCard = (img: GeneratedImage) => (
+    <div 
+      key={img.id} 
+      onClick={selecting ? () => toggleSelected(img.id) : undefined}
+      className={`relative w-full aspect-square rounded-xl overflow-hidden group border shadow-lg transition-transform active:scale-95 bg-studio-800 ${selecting && selectedIds.has(img.id) ? 'border-studio-accent ring-2 ring-studio-accent' : 'border-studio-700'} ${selecting ? 'cursor-pointer' : ''}`}
+    >
+      <img 
+        src={img.generatedUrl} 
+        alt="Generated product shot" 
+        className="w-full h-full object-cover"
+      />
+      
+      {/* Color indicator badge */}
+      <div 
+        className={`absolute top-2 left-2 w-4 h-4 rounded-full border border-white/20 shadow-sm ${img.settings.previewClass || ''}`}
+        style={img.settings.type === 'solid' ? { backgroundColor: img.settings.value } : {}}
+        title={img.settings.backgroundName}
+      />
+
+      {/* Product set angle */}
+      {img.productSet && (
+        <div className="absolute top-2 left-8 px-1.5 py-0.5 rounded-full bg-black/70 text-white text-[10px] font-bold shadow-sm truncate max-w-[60%]" title={img.productSet.name}>
+          {img.productSet.angle}
+        </div>
+      )}
+
+      {/* Version count */}
+      {img.refinement && (
+        <div className="absolute bottom-2 left-2 px-1.5 py-0.5 rounded-full bg-black/70 text-white text-[10px] font-bold shadow-sm" title="Refined versions">
+          v{getVersions(images, img).length}
+        </div>
+      )}
+
+      {/* Fidelity warning */}
+      {img.fidelity && fidelityThreshold !== undefined && img.fidelity.score < fidelityThreshold && (
+        <div
+          className="absolute top-2 right-2 flex items-center gap-1 px-1.5 py-0.5 rounded-full bg-amber-500/90 text-black text-[10px] font-bold shadow-sm"
+          title="The product may have been altered (labels, logos or shape). Compare with the original."
+        >
+          <ShieldAlert size={12} /> {Math.round(img.fidelity.score * 100)}%
+        </div>
+      )}
+
+      {/* Selection Mark */}
+      {selecting && (
+        <div className="absolute bottom-2 right-2 text-white drop-shadow">
+          {selectedIds.has(img.id) ? <CheckCircle2 size={22} className="text-studio-accent fill-white" /> : <Circle size={22} />}
+        </div>
+      )}
+
+      {/* Overlay Actions */}
+      {!selecting && (
+        <div className="absolute inset-0 bg-black/60 opacity-0 group-hover:opacity-100 transition-opacity flex flex-wrap items-center content-center justify-center gap-2 p-2">
+          <button
+            onClick={() => onView(img)}
+            className="p-2.5 bg-blue-500 hover:bg-blue-600 rounded-full text-white shadow-lg transition-colors"
+            title="View Fullscreen"
+          >
+            <Eye size={18} />
+          </button>
+
+          {onCompare && (
+            <button
+              onClick={(e) => { e.stopPropagation(); onCompare(img); }}
+              className="p-2.5 bg-white/20 hover:bg-white/40 rounded-full text-white backdrop-blur-sm transition-colors"
+              title="Compare with Original"
+            >
+              <FlipHorizontal2 size={18} />
+            </button>
+          )}
+          
+          {onRegenerate && (
+            <button
+              onClick={(e) => { e.stopPropagation(); onRegenerate(img); }}
+              className="p-2.5 bg-white/20 hover:bg-white/40 rounded-full text-white backdrop-blur-sm transition-colors"
+              title="Regenerate / Variations"
+            >
+              <Shuffle size={18} />
+            </button>
+          )}
+
+          {onRefine && (
+            <button
+              onClick={(e) => { e.stopPropagation(); onRefine(img); }}
+              className="p-2.5 bg-white/20 hover:bg-white/40 rounded-full text-white backdrop-blur-sm transition-colors"
+              title="Refine"
+            >
+              <Wand2 size={18} />
+            </button>
+          )}
+
+          <button
+            onClick={(e) => { e.stopPropagation(); onDownload(img); }}
+            className="p-2.5 bg-white/20 hover:bg-white/40 rounded-full text-white backdrop-blur-sm transition-colors"
+            title="Download"
+          >
+            <Download size={18} />
+          </button>
+          
+           <button
+            onClick={(e) => { e.stopPropagation(); onRemove(img.id); }}
+            className="p-2.5 bg-red-500/20 hover:bg-red-500/40 rounded-full text-red-200 backdrop-blur-sm transition-colors"
+            title="Delete"
+          >
+            <Trash2 size={18} />
+          </button>
+        </div>
+      )}
+    </div>
+  );
 
   return (
     <div className="w-full mt-6">
       <div className="flex items-center justify-between mb-3 px-1">
-         <p className="text-sm text-gray-400 font-medium uppercase tracking-wider">Recent Shots</p>
-         <span className="text-xs text-gray-500">{images.length} photos</span>
+         <p className="text-sm text-gray-400 font-medium uppercase tracking-wider truncate">
+           {filteredProject ? filteredProject.name : filter.projectId === NO_PROJECT ? 'No Project' : 'Recent Shots'}
+         </p>
+         <div className="flex items-center gap-3 flex-none">
+           <span className="text-xs text-gray-500">
+             {visibleImages.length < shots.length ? `${visibleImages.length} of ${shots.length}` : shots.length} photos
+             {visibleJobs.length > 0 && ` · ${visibleJobs.length} in queue`}
+           </span>
+           <button
+             onClick={() => setShowFilters(!showFilters)}
+             className={`relative p-1 rounded transition-colors ${showFilters || activeFilters > 0 ? 'text-studio-accent' : 'text-gray-500 hover:text-white'}`}
+             title="Filter & Sort"
+           >
+             <SlidersHorizontal size={14} />
+             {activeFilters > 0 && (
+               <span className="absolute -top-1 -right-1 w-3 h-3 rounded-full bg-studio-accent text-white text-[8px] font-bold flex items-center justify-center">
+                 {activeFilters}
+               </span>
+             )}
+           </button>
+           {onExportZip && images.length > 0 && (
+             <button
+               onClick={() => selecting ? stopSelecting() : setSelecting(true)}
+               className="text-xs font-medium text-studio-accent hover:text-white transition-colors"
+             >
+               {selecting ? 'Done' : 'Select'}
+             </button>
+           )}
+         </div>
       </div>
-      
-      {/* Changed from flex/horizontal-scroll to grid/vertical-flow */}
-      <div className="grid grid-cols-2 gap-3 px-1 pb-4">
-        {images.map((img) => (
-          <div 
-            key={img.id} 
-            className="relative w-full aspect-square rounded-xl overflow-hidden group border border-studio-700 shadow-lg transition-transform active:scale-95 bg-studio-800"
+
+      {/* Filter & Sort */}
+      {showFilters && (
+        <div className="grid grid-cols-2 gap-2 mb-3 px-1">
+          {renderSelect(filter.projectId, (projectId) => setFilter({ ...filter, projectId }), [
+            { id: ALL, label: 'All Projects' },
+            { id: NO_PROJECT, label: 'No Project' },
+            ...projects.map(p => ({ id: p.id, label: p.client ? `${p.name} · ${p.client}` : p.name })),
+          ])}
+          {renderSelect(filter.sort, (sort) => setFilter({ ...filter, sort: sort as GallerySort }), SORTS)}
+          {renderSelect(filter.background, (background) => setFilter({ ...filter, background }), [
+            { id: ALL, label: 'All Backgrounds' },
+            ...filterOptions.backgrounds.map(name => ({ id: name, label: name })),
+          ])}
+          {renderSelect(filter.lighting, (lighting) => setFilter({ ...filter, lighting }), [
+            { id: ALL, label: 'All Lighting' },
+            ...filterOptions.lightings.map(name => ({ id: name, label: name })),
+          ])}
+          {renderSelect(filter.dateRange, (dateRange) => setFilter({ ...filter, dateRange: dateRange as DateRange }), DATE_RANGES)}
+          {activeFilters > 0 && (
+            <button
+              onClick={() => setFilter({ ...DEFAULT_GALLERY_FILTER, sort: filter.sort })}
+              className="text-xs text-gray-400 hover:text-white transition-colors"
+            >
+              Clear Filters
+            </button>
+          )}
+        </div>
+      )}
+
+      {/* Selection Bar */}
+      {selecting && (
+        <div className="flex flex-wrap items-center gap-2 mb-3 px-3 py-2 rounded-xl bg-studio-800 border border-studio-700">
+          <span className="text-xs text-white font-medium">{selectedImages.length} selected</span>
+          <button
+            onClick={() => setSelectedIds(new Set(selectedImages.length === visibleImages.length ? [] : visibleImages.map(img => img.id)))}
+            className="text-xs text-gray-400 hover:text-white transition-colors"
           >
-            <img 
-              src={img.generatedUrl} 
-              alt="Generated product shot" 
-              className="w-full h-full object-cover"
+            {selectedImages.length === visibleImages.length ? 'Select None' : 'Select All'}
+          </button>
+          {onMoveToProject && projects.length > 0 && (
+            <select
+              value=""
+              onChange={(e) => {
+                onMoveToProject(selectedImages.map(img => img.id), e.target.value === NO_PROJECT ? null : e.target.value);
+                setSelectedIds(new Set());
+              }}
+              disabled={selectedImages.length === 0}
+              className="bg-studio-900 border border-studio-700 rounded-lg px-2 py-1 text-xs text-gray-300 focus:outline-none focus:ring-2 focus:ring-studio-accent disabled:opacity-50"
+            >
+              <option value="" disabled>Move to…</option>
+              <option value={NO_PROJECT}>No Project</option>
+              {projects.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+            </select>
+          )}
+          <label className="flex items-center gap-1.5 text-xs text-gray-400 ml-auto">
+            <input
+              type="checkbox"
+              checked={includeOriginals}
+              onChange={(e) => setIncludeOriginals(e.target.checked)}
+              className="accent-studio-accent"
             />
-            
-            {/* Color indicator badge */}
-            <div 
-              className={`absolute top-2 left-2 w-4 h-4 rounded-full border border-white/20 shadow-sm ${img.settings.previewClass || ''}`}
-              style={img.settings.type === 'solid' ? { backgroundColor: img.settings.value } : {}}
-              title={img.settings.backgroundName}
+            Include originals
+          </label>
+          <button
+            onClick={handleExportZip}
+            disabled={selectedImages.length === 0 || zipping}
+            className="flex items-center gap-1.5 px-3 py-1.5 rounded-full bg-white text-black text-xs font-bold hover:bg-gray-100 transition-colors disabled:opacity-50"
+          >
+            {zipping ? <Loader2 size={14} className="animate-spin" /> : <Archive size={14} />}
+            {zipping ? 'Zipping…' : 'Export ZIP'}
+          </button>
+          <button onClick={stopSelecting} className="p-1 rounded-full text-gray-400 hover:bg-white/10 hover:text-white" title="Cancel">
+            <X size={14} />
+          </button>
+        </div>
+      )}
+
+      {/* Storage Usage */}
+      {storageUsage && storageUsage.quota > 0 && (
+        <div className="flex items-center gap-2 mb-3 px-1" title="Saved on this device">
+          <HardDrive size={12} className={usageRatio > 0.8 ? 'text-red-400' : 'text-gray-500'} />
+          <div className="flex-1 h-1 bg-studio-800 rounded-full overflow-hidden">
+            <div
+              className={`h-full rounded-full ${usageRatio > 0.8 ? 'bg-red-400' : 'bg-studio-accent'}`}
+              style={{ width: `${Math.max(1, Math.min(100, usageRatio * 100))}%` }}
             />
+          </div>
+          <span className="text-[10px] text-gray-500">
+            {formatBytes(storageUsage.usage)} / {formatBytes(storageUsage.quota)}
+          </span>
+        </div>
+      )}
+      
+      {entries.length === 0 && (
+        <p className="px-1 pb-4 text-xs text-gray-500 text-center">No shots match these filters.</p>
+      )}
 
-            {/* Overlay Actions */}
-            <div className="absolute inset-0 bg-black/60 opacity-0 group-hover:opacity-100 transition-opacity flex items-center justify-center gap-2">
-              <button
-                onClick={() => onView(img)}
-                className="p-2.5 bg-blue-500 hover:bg-blue-600 rounded-full text-white shadow-lg transition-colors"
-                title="View Fullscreen"
-              >
-                <Eye size={18} />
-              </button>
-              
-              <a 
-                href={img.generatedUrl} 
-                download={`studio-shot-${img.timestamp}.png`}
-                onClick={(e) => e.stopPropagation()}
-                className="p-2.5 bg-white/20 hover:bg-white/40 rounded-full text-white backdrop-blur-sm transition-colors"
-                title="Download"
-              >
-                <Download size={18} />
-              </a>
-              
-               <button
-                onClick={(e) => { e.stopPropagation(); onRemove(img.id); }}
-                className="p-2.5 bg-red-500/20 hover:bg-red-500/40 rounded-full text-red-200 backdrop-blur-sm transition-colors"
-                title="Delete"
-              >
-                <Trash2 size={18} />
-              </button>
+      {/* Changed from flex/horizontal-scroll to grid/vertical-flow */}
+      <div className="grid grid-cols-2 gap-3 px-1 pb-4">
+        {entries.map((entry) => entry.type === 'single' ? renderCard(entry.image) : entry.type === 'job' ? renderJobCard(entry.job) : (
+          <div key={`${entry.type}:${entry.groupId}`} className="col-span-2 rounded-2xl border border-white/5 bg-studio-800/40 p-2 space-y-2">
+            <div className="flex items-center justify-between px-1">
+              <span className="flex items-center gap-1.5 text-xs text-gray-400 font-medium uppercase tracking-wider">
+                {entry.type === 'variants'
+                  ? <><Shuffle size={12} className="text-studio-accent" /> Variations</>
+                  : entry.type === 'set'
+                    ? <><Boxes size={12} className="text-studio-accent" /> {(entry.images[0] || entry.jobs[0])?.productSet?.name || 'Product Set'}</>
+                    : <><Layers size={12} className="text-studio-accent" /> Batch Set</>}
+              </span>
+              <span className="flex items-center gap-3">
+                <span className="text-[10px] text-gray-500">{entry.images.length} / {entry.images.length + entry.jobs.length} shots</span>
+                {entry.type === 'variants' && onPickVariant && entry.images.length > 1 && (
+                  <button
+                    onClick={() => onPickVariant(entry.groupId)}
+                    className="text-xs font-medium text-studio-accent hover:text-white transition-colors"
+                  >
+                    Pick Best
+                  </button>
+                )}
+                {entry.type === 'set' && onExportSet && entry.images.length > 0 && (
+                  <button
+                    onClick={() => onExportSet(entry.groupId)}
+                    className="text-xs font-medium text-studio-accent hover:text-white transition-colors"
+                  >
+                    Export Set
+                  </button>
+                )}
+              </span>
+            </div>
+            <div className="grid grid-cols-3 gap-2">
+              {entry.jobs.map(renderJobCard)}
+              {entry.images.map(renderCard)}
             </div>
           </div>
         ))}
@@ -0,0 +1,60 @@
+import React, { useRef, useState } from 'react';
+import { ImagePlus } from 'lucide-react';
+
+interface ImportDropzoneProps {
+  onFiles: (files: File[]) => void;
+  children: React.ReactNode;
+}
+
+// Accepts photos dropped anywhere over its children
+const ImportDropzone: React.FC<ImportDropzoneProps> = ({ onFiles, children }) => {
+  const [isDragging, setIsDragging] = useState(false);
+  // dragenter/dragleave fire for every child element, so track nesting depth
+  const dragDepth = useRef(0);
+
+  const hasFiles = (e: React.DragEvent) => Array.from(e.dataTransfer.types).includes('Files');
+
+  const handleDragEnter = (e: React.DragEvent) => {
+    if (!hasFiles(e)) return;
+    e.preventDefault();
+    dragDepth.current++;
+    setIsDragging(true);
+  };
+
+  const handleDragLeave = (e: React.DragEvent) => {
+    if (!hasFiles(e)) return;
+    dragDepth.current = Math.max(0, dragDepth.current - 1);
+    if (dragDepth.current === 0) setIsDragging(false);
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    if (!hasFiles(e)) return;
+    e.preventDefault();
+    dragDepth.current = 0;
+    setIsDragging(false);
+    const files = Array.from(e.dataTransfer.files);
+    if (files.length > 0) onFiles(files);
+  };
+
+  return (
+    <div
+      className="relative flex-1 flex flex-col min-h-0"
+      onDragEnter={handleDragEnter}
+      onDragOver={(e) => hasFiles(e) && e.preventDefault()}
+      onDragLeave={handleDragLeave}
+      onDrop={handleDrop}
+    >
+      {children}
+
+      {isDragging && (
+        <div className="absolute inset-2 z-40 rounded-3xl border-2 border-dashed border-studio-accent bg-studio-900/90 backdrop-blur-sm flex flex-col items-center justify-center gap-3 pointer-events-none">
+          <ImagePlus size={40} className="text-studio-accent" />
+          <p className="text-white font-medium">Drop photos to import</p>
+          <p className="text-xs text-gray-400">JPEG, PNG, WebP or HEIC</p>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ImportDropzone;
@@ -0,0 +1,118 @@
+import React, { useState } from 'react';
+import { LightingDirection, LightingOption, LightingSetup } from '../types';
+import { DEFAULT_LIGHTING_SETUP, MIN_TEMPERATURE, MAX_TEMPERATURE, compileLightingPrompt, createLightingPreset } from '../services/lightingService';
+import { X, Trash2, Save } from 'lucide-react';
+
+interface LightingEditorProps {
+  preset: LightingOption | null; // null = create a new preset
+  onSave: (preset: LightingOption) => void;
+  onDelete: (id: string) => void;
+  onClose: () => void;
+}
+
+const DIRECTIONS: (LightingDirection | 'none')[] = ['none', 'left', 'right', 'top', 'top-left', 'top-right', 'front', 'back', 'bottom'];
+
+const LightingEditor: React.FC<LightingEditorProps> = ({ preset, onSave, onDelete, onClose }) => {
+  const [name, setName] = useState(preset?.name || 'My Lighting');
+  const [setup, setSetup] = useState<LightingSetup>(preset?.setup || DEFAULT_LIGHTING_SETUP);
+
+  const update = (patch: Partial<LightingSetup>) => setSetup(prev => ({ ...prev, ...patch }));
+
+  // Plain render helper (not a component) so the range input keeps focus while dragging
+  const renderSlider = (
+    label: string,
+    field: 'key' | 'fill' | 'rim' | 'temperature' | 'softness',
+    { min = 0, max = 100, step = 1, suffix = '%', trackStyle }: { min?: number; max?: number; step?: number; suffix?: string; trackStyle?: React.CSSProperties } = {}
+  ) => (
+    <div className="space-y-1.5">
+      <div className="flex justify-between text-xs text-gray-400 uppercase tracking-wider font-medium">
+        <span>{label}</span>
+        <span className="text-white">{setup[field]}{suffix}</span>
+      </div>
+      <input
+        type="range" min={min} max={max} step={step}
+        value={setup[field]}
+        onChange={(e) => update({ [field]: Number(e.target.value) })}
+        className={trackStyle ? 'w-full h-2 rounded-full appearance-none cursor-pointer' : 'w-full accent-studio-accent'}
+        style={trackStyle}
+      />
+    </div>
+  );
+
+  const handleSave = () => {
+    onSave(createLightingPreset(name.trim() || 'My Lighting', setup, preset?.id));
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/80 backdrop-blur flex items-end sm:items-center justify-center animate-in fade-in duration-200">
+      <div className="w-full max-w-md bg-studio-900 rounded-t-3xl sm:rounded-3xl border border-white/10 p-5 space-y-4 max-h-[90vh] overflow-y-auto no-scrollbar">
+        <div className="flex items-center justify-between">
+          <p className="text-sm text-white font-bold">{preset ? 'Edit Lighting' : 'New Lighting'}</p>
+          <button onClick={onClose} className="p-2 rounded-full text-gray-400 hover:bg-white/10 hover:text-white">
+            <X size={18} />
+          </button>
+        </div>
+
+        <input
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          placeholder="Preset name"
+          className="w-full bg-studio-800 border border-studio-700 rounded-lg px-3 py-2 text-sm text-white focus:outline-none focus:ring-2 focus:ring-studio-accent"
+        />
+
+        {renderSlider('Key Light', 'key')}
+        {renderSlider('Fill Light', 'fill')}
+        {renderSlider('Rim Light', 'rim')}
+        {renderSlider('Colour Temperature', 'temperature', {
+          min: MIN_TEMPERATURE, max: MAX_TEMPERATURE, step: 100, suffix: 'K',
+          trackStyle: { background: 'linear-gradient(to right, #ff9329, #fff4e5, #cfe2ff, #9cbcff)' }
+        })}
+        {renderSlider('Softness', 'softness')}
+
+        <div className="space-y-1.5">
+          <div className="text-xs text-gray-400 uppercase tracking-wider font-medium">Second Light</div>
+          <div className="grid grid-cols-3 gap-1.5">
+            {DIRECTIONS.map(dir => (
+              <button
+                key={dir}
+                onClick={() => update({ secondaryDirection: dir })}
+                className={`
+                  py-1.5 rounded-lg text-[11px] font-medium capitalize transition-all border
+                  ${setup.secondaryDirection === dir
+                    ? 'bg-studio-accent border-studio-accent text-white'
+                    : 'bg-studio-800 border-studio-700 text-gray-400 hover:bg-studio-700 hover:text-white'}
+                `}
+              >
+                {dir.replace('-', ' ')}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        {/* Compiled prompt */}
+        <p className="text-[11px] text-gray-500 bg-studio-800 rounded-lg p-3 leading-relaxed">{compileLightingPrompt(setup)}</p>
+
+        <div className="flex gap-2">
+          {preset && (
+            <button
+              onClick={() => { onDelete(preset.id); onClose(); }}
+              className="px-4 py-2.5 rounded-full bg-red-500/20 text-red-200 hover:bg-red-500/40 transition-colors"
+              title="Delete Preset"
+            >
+              <Trash2 size={16} />
+            </button>
+          )}
+          <button
+            onClick={handleSave}
+            className="flex-1 flex items-center justify-center gap-2 py-2.5 rounded-full bg-white text-black font-bold hover:bg-gray-100 transition-colors"
+          >
+            <Save size={16} /> Save Preset
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default LightingEditor;
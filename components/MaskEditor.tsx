@@ -0,0 +1,219 @@
+import React, { useRef, useEffect, useState } from 'react';
+import { MaskMode, SubjectMask } from '../types';
+import { drawAutoMask, getMaskSize, renderMask, MASK_COLOR } from '../services/maskService';
+import { X, Check, Brush, Eraser, Wand2, Trash2, Square, Droplet } from 'lucide-react';
+
+interface MaskEditorProps {
+  imageSrc: string; // Framed capture the mask is painted on
+  initialMode: MaskMode;
+  onConfirm: (mask: SubjectMask) => void;
+  onSkip: () => void; // Generate without a mask
+  onCancel: () => void;
+}
+
+type Tool = 'brush' | 'eraser';
+
+const MODE_OPTIONS: { mode: MaskMode; label: string; hint: string }[] = [
+  { mode: 'guide', label: 'Guide the model', hint: 'The mask is sent with the photo so the model keeps exactly the painted area.' },
+  { mode: 'composite', label: 'Pixel-exact', hint: 'The model only paints the set; your product pixels are laid over it unchanged.' },
+];
+
+const MaskEditor: React.FC<MaskEditorProps> = ({ imageSrc, initialMode, onConfirm, onSkip, onCancel }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [image, setImage] = useState<HTMLImageElement | null>(null);
+  const [tool, setTool] = useState<Tool>('brush');
+  const [brushSize, setBrushSize] = useState(48);
+  const [feather, setFeather] = useState(4);
+  const [mode, setMode] = useState<MaskMode>(initialMode);
+  const lastPointRef = useRef<{ x: number; y: number } | null>(null);
+
+  useEffect(() => {
+    const img = new Image();
+    img.onload = () => setImage(img);
+    img.src = imageSrc;
+  }, [imageSrc]);
+
+  const size = image ? getMaskSize(image.naturalWidth, image.naturalHeight) : null;
+
+  // Seed the mask once the canvas has its working size
+  useEffect(() => {
+    if (image && canvasRef.current) drawAutoMask(canvasRef.current, image);
+  }, [image]);
+
+  const getContext = () => canvasRef.current?.getContext('2d') || null;
+
+  const toCanvasPoint = (e: React.PointerEvent) => {
+    const canvas = canvasRef.current!;
+    const rect = canvas.getBoundingClientRect();
+    return {
+      x: (e.clientX - rect.left) * canvas.width / rect.width,
+      y: (e.clientY - rect.top) * canvas.height / rect.height,
+    };
+  };
+
+  const paintTo = (point: { x: number; y: number }) => {
+    const ctx = getContext();
+    if (!ctx) return;
+    const from = lastPointRef.current || point;
+    ctx.save();
+    ctx.globalCompositeOperation = tool === 'eraser' ? 'destination-out' : 'source-over';
+    ctx.strokeStyle = MASK_COLOR;
+    ctx.lineWidth = brushSize;
+    ctx.lineCap = 'round';
+    ctx.lineJoin = 'round';
+    ctx.beginPath();
+    ctx.moveTo(from.x, from.y);
+    ctx.lineTo(point.x, point.y);
+    ctx.stroke();
+    ctx.restore();
+    lastPointRef.current = point;
+  };
+
+  const handlePointerDown = (e: React.PointerEvent) => {
+    (e.target as HTMLElement).setPointerCapture(e.pointerId);
+    lastPointRef.current = null;
+    paintTo(toCanvasPoint(e));
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    if (!lastPointRef.current) return;
+    paintTo(toCanvasPoint(e));
+  };
+
+  const handlePointerUp = () => {
+    lastPointRef.current = null;
+  };
+
+  const handleFill = (fill: boolean) => {
+    const ctx = getContext();
+    if (!ctx || !canvasRef.current) return;
+    const { width, height } = canvasRef.current;
+    ctx.clearRect(0, 0, width, height);
+    if (fill) {
+      ctx.fillStyle = MASK_COLOR;
+      ctx.fillRect(0, 0, width, height);
+    }
+  };
+
+  const handleAuto = () => {
+    if (image && canvasRef.current) drawAutoMask(canvasRef.current, image);
+  };
+
+  const handleConfirm = () => {
+    if (!image || !canvasRef.current) return;
+    onConfirm({ maskUrl: renderMask(canvasRef.current, image.naturalWidth, image.naturalHeight, feather), mode });
+  };
+
+  const toolButton = (id: Tool, label: string, Icon: typeof Brush) => (
+    <button
+      onClick={() => setTool(id)}
+      className={`flex-1 flex items-center justify-center gap-2 py-2 rounded-lg text-xs font-medium ${
+        tool === id ? 'bg-studio-accent text-white' : 'bg-studio-700 text-gray-300 hover:text-white'
+      }`}
+    >
+      <Icon size={14} /> {label}
+    </button>
+  );
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/95 backdrop-blur flex flex-col items-center justify-center p-4 gap-4 animate-in fade-in duration-200 overflow-y-auto">
+      <div className="w-full max-w-md flex items-center justify-between">
+        <button onClick={onCancel} className="p-3 bg-white/10 rounded-full text-white hover:bg-white/20" title="Discard">
+          <X size={20} />
+        </button>
+        <p className="text-sm text-gray-300 font-medium">Mask Product</p>
+        <button onClick={handleConfirm} disabled={!image} className="p-3 bg-studio-accent rounded-full text-white hover:bg-blue-600 disabled:opacity-50" title="Use Mask">
+          <Check size={20} />
+        </button>
+      </div>
+
+      {/* Photo with the paint layer on top */}
+      <div className="relative inline-block max-w-full">
+        {image && (
+          <img src={imageSrc} alt="Capture" className="block max-w-full max-h-[50vh] rounded-lg shadow-2xl select-none" draggable={false} />
+        )}
+        {size && (
+          <canvas
+            ref={canvasRef}
+            width={size.width}
+            height={size.height}
+            onPointerDown={handlePointerDown}
+            onPointerMove={handlePointerMove}
+            onPointerUp={handlePointerUp}
+            onPointerCancel={handlePointerUp}
+            className="absolute inset-0 w-full h-full rounded-lg opacity-50 cursor-crosshair touch-none"
+          />
+        )}
+      </div>
+
+      {/* Controls */}
+      <div className="w-full max-w-md bg-studio-800/80 rounded-2xl p-4 border border-white/10 space-y-4">
+        <div className="flex gap-2">
+          {toolButton('brush', 'Brush', Brush)}
+          {toolButton('eraser', 'Eraser', Eraser)}
+        </div>
+
+        <div className="space-y-2">
+          <div className="flex justify-between text-xs text-gray-400 uppercase tracking-wider font-medium">
+            <span>Brush Size</span>
+            <span className="text-white">{brushSize}px</span>
+          </div>
+          <input
+            type="range" min="4" max="160" step="2"
+            value={brushSize}
+            onChange={(e) => setBrushSize(Number(e.target.value))}
+            className="w-full accent-studio-accent"
+          />
+        </div>
+
+        <div className="space-y-2">
+          <div className="flex justify-between text-xs text-gray-400 uppercase tracking-wider font-medium">
+            <span className="flex items-center gap-1"><Droplet size={12} /> Feather</span>
+            <span className="text-white">{feather}px</span>
+          </div>
+          <input
+            type="range" min="0" max="24" step="1"
+            value={feather}
+            onChange={(e) => setFeather(Number(e.target.value))}
+            className="w-full accent-studio-accent"
+          />
+        </div>
+
+        <div className="flex gap-2">
+          <button onClick={handleAuto} className="flex-1 flex items-center justify-center gap-2 py-2 rounded-lg bg-studio-700 text-gray-300 text-xs font-medium hover:text-white">
+            <Wand2 size={14} /> Auto
+          </button>
+          <button onClick={() => handleFill(true)} className="flex-1 flex items-center justify-center gap-2 py-2 rounded-lg bg-studio-700 text-gray-300 text-xs font-medium hover:text-white">
+            <Square size={14} /> Fill
+          </button>
+          <button onClick={() => handleFill(false)} className="flex-1 flex items-center justify-center gap-2 py-2 rounded-lg bg-studio-700 text-gray-300 text-xs font-medium hover:text-white">
+            <Trash2 size={14} /> Clear
+          </button>
+        </div>
+
+        <div className="space-y-2">
+          <div className="grid grid-cols-2 gap-2">
+            {MODE_OPTIONS.map(option => (
+              <button
+                key={option.mode}
+                onClick={() => setMode(option.mode)}
+                className={`py-2 rounded-lg text-xs font-medium border ${
+                  mode === option.mode ? 'border-studio-accent bg-studio-accent/20 text-white' : 'border-white/10 text-gray-400 hover:text-white'
+                }`}
+              >
+                {option.label}
+              </button>
+            ))}
+          </div>
+          <p className="text-[10px] text-gray-500">{MODE_OPTIONS.find(option => option.mode === mode)?.hint}</p>
+        </div>
+
+        <button onClick={onSkip} className="w-full py-2 text-xs text-gray-400 hover:text-white">
+          Skip mask
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default MaskEditor;
@@ -0,0 +1,99 @@
+import React, { useState } from 'react';
+import { ProductSet, ProjectSetup } from '../types';
+import { DEFAULT_ANGLES, parseAngles } from '../services/productSetService';
+import { X, Trash2, Play, Boxes } from 'lucide-react';
+
+interface ProductSetEditorProps {
+  setup: ProjectSetup; // Current selection, locked into the new set
+  sets: ProductSet[]; // Earlier sets that can be resumed
+  onStart: (name: string, angles: string[]) => void;
+  onResume: (set: ProductSet) => void;
+  onDelete: (id: string) => void;
+  onClose: () => void;
+}
+
+const ProductSetEditor: React.FC<ProductSetEditorProps> = ({ setup, sets, onStart, onResume, onDelete, onClose }) => {
+  const [name, setName] = useState('');
+  const [angles, setAngles] = useState(DEFAULT_ANGLES.join('\n'));
+
+  const parsedAngles = parseAngles(angles);
+
+  const handleStart = () => {
+    if (parsedAngles.length === 0) return;
+    onStart(name.trim() || 'Product Set', parsedAngles);
+    onClose();
+  };
+
+  const inputClass = "w-full bg-studio-800 border border-studio-700 rounded-lg px-3 py-2 text-sm text-white focus:outline-none focus:ring-2 focus:ring-studio-accent";
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/80 backdrop-blur flex items-end sm:items-center justify-center animate-in fade-in duration-200">
+      <div className="w-full max-w-md bg-studio-900 rounded-t-3xl sm:rounded-3xl border border-white/10 p-5 space-y-4 max-h-[90vh] overflow-y-auto no-scrollbar">
+        <div className="flex items-center justify-between">
+          <p className="text-sm text-white font-bold">New Product Set</p>
+          <button onClick={onClose} className="p-2 rounded-full text-gray-400 hover:bg-white/10 hover:text-white">
+            <X size={18} />
+          </button>
+        </div>
+
+        <input
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          placeholder="Product name or SKU"
+          className={inputClass}
+        />
+
+        <div className="space-y-1.5">
+          <div className="text-xs text-gray-400 uppercase tracking-wider font-medium">Angles</div>
+          <textarea
+            value={angles}
+            onChange={(e) => setAngles(e.target.value)}
+            rows={4}
+            placeholder="One per line, or comma separated"
+            className={`${inputClass} resize-none`}
+          />
+        </div>
+
+        <p className="text-[11px] text-gray-500">
+          Every angle uses {setup.background.name} · {setup.lighting.name} · {setup.settings.aspectRatio}. The first shot you accept is sent with the later angles as a style reference.
+        </p>
+
+        <button
+          onClick={handleStart}
+          disabled={parsedAngles.length === 0}
+          className="w-full flex items-center justify-center gap-2 py-2.5 rounded-full bg-white text-black font-bold hover:bg-gray-100 transition-colors disabled:opacity-50"
+        >
+          <Play size={16} /> Start Set ({parsedAngles.length} {parsedAngles.length === 1 ? 'angle' : 'angles'})
+        </button>
+
+        {sets.length > 0 && (
+          <div className="space-y-1.5">
+            <div className="text-xs text-gray-400 uppercase tracking-wider font-medium">Resume</div>
+            {[...sets].sort((a, b) => b.createdAt - a.createdAt).map(set => (
+              <div key={set.id} className="flex items-center gap-2 px-3 py-2 rounded-lg bg-studio-800 border border-studio-700">
+                <Boxes size={14} className="text-studio-accent flex-none" />
+                <span className="flex-1 text-sm text-white truncate">{set.name}</span>
+                <span className="text-[10px] text-gray-500">{set.acceptedIds.length}/{set.angles.length}</span>
+                <button
+                  onClick={() => { onResume(set); onClose(); }}
+                  className="px-2 py-1 rounded-md text-xs font-medium text-studio-accent hover:text-white"
+                >
+                  Resume
+                </button>
+                <button
+                  onClick={() => onDelete(set.id)}
+                  className="p-1 rounded-md text-gray-500 hover:text-red-300"
+                  title="Delete Set (its shots are kept)"
+                >
+                  <Trash2 size={14} />
+                </button>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ProductSetEditor;
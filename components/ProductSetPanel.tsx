@@ -0,0 +1,116 @@
+import React from 'react';
+import { GeneratedImage, GenerationJob, ProductSet } from '../types';
+import { getAcceptedShots, getSetShots } from '../services/productSetService';
+import { getRootId } from '../services/versionService';
+import { Boxes, Check, CheckCircle2, Archive, X } from 'lucide-react';
+
+interface ProductSetPanelProps {
+  set: ProductSet;
+  images: GeneratedImage[];
+  jobs: GenerationJob[];
+  currentAngle: string; // Angle the next capture is filed under
+  onSelectAngle: (angle: string) => void;
+  onToggleAccepted: (image: GeneratedImage) => void;
+  onView: (image: GeneratedImage) => void;
+  onExport: () => void;
+  onClose: () => void;
+}
+
+const ProductSetPanel: React.FC<ProductSetPanelProps> = ({ set, images, jobs, currentAngle, onSelectAngle, onToggleAccepted, onView, onExport, onClose }) => {
+  const shots = getSetShots(images, set.id);
+  const accepted = getAcceptedShots(set, images);
+  const reference = accepted[0];
+  const pendingJobs = jobs.filter(job => job.productSet?.id === set.id && job.status !== 'failed');
+
+  const angleShots = shots.filter(img => img.productSet?.angle === currentAngle);
+  const anglePending = pendingJobs.filter(job => job.productSet?.angle === currentAngle).length;
+
+  return (
+    <div className="rounded-2xl border border-studio-accent/40 bg-studio-800/60 p-3 space-y-3">
+      <div className="flex items-center justify-between">
+        <span className="flex items-center gap-1.5 text-xs text-gray-400 font-medium uppercase tracking-wider min-w-0">
+          <Boxes size={12} className="text-studio-accent flex-none" />
+          <span className="truncate normal-case tracking-normal text-white">{set.name}</span>
+          <span className="text-gray-500 normal-case tracking-normal">{accepted.length}/{set.angles.length}</span>
+        </span>
+        <span className="flex items-center gap-1">
+          <button
+            onClick={onExport}
+            disabled={shots.length === 0}
+            className="flex items-center gap-1 px-2 py-1 rounded-md text-xs font-medium text-studio-accent hover:text-white disabled:opacity-40"
+            title="Download the set as one ZIP"
+          >
+            <Archive size={12} /> Export
+          </button>
+          <button onClick={onClose} className="p-1 rounded-md text-gray-400 hover:text-white" title="Finish shooting this set">
+            <X size={14} />
+          </button>
+        </span>
+      </div>
+
+      {/* Angle checklist */}
+      <div className="flex gap-2 overflow-x-auto no-scrollbar pb-1">
+        {set.angles.map(angle => {
+          const done = accepted.some(img => img.productSet?.angle === angle);
+          const waiting = pendingJobs.some(job => job.productSet?.angle === angle);
+          return (
+            <button
+              key={angle}
+              onClick={() => onSelectAngle(angle)}
+              className={`flex-none px-3 py-1.5 rounded-lg flex items-center gap-1.5 text-xs font-medium border transition-all ${
+                angle === currentAngle
+                  ? 'bg-studio-700 border-studio-accent text-white'
+                  : 'bg-studio-800 border-studio-800 text-gray-400 hover:bg-studio-700'
+              }`}
+            >
+              {done
+                ? <CheckCircle2 size={12} className="text-green-400" />
+                : waiting
+                  ? <div className="w-3 h-3 border-2 border-studio-accent border-t-transparent rounded-full animate-spin" />
+                  : <span className="w-3 h-3 rounded-full border border-gray-500" />}
+              {angle}
+            </button>
+          );
+        })}
+      </div>
+
+      {/* Takes of the current angle */}
+      {(angleShots.length > 0 || anglePending > 0) && (
+        <div className="flex gap-2 overflow-x-auto no-scrollbar">
+          {Array.from({ length: anglePending }, (_, i) => (
+            <div key={`pending-${i}`} className="flex-none w-16 h-16 rounded-lg bg-studio-900 border border-studio-700 flex items-center justify-center">
+              <div className="w-4 h-4 border-2 border-studio-accent border-t-transparent rounded-full animate-spin" />
+            </div>
+          ))}
+          {angleShots.map(img => {
+            const isAccepted = set.acceptedIds.includes(getRootId(img));
+            return (
+              <div key={img.id} className={`relative flex-none w-16 h-16 rounded-lg overflow-hidden border-2 ${isAccepted ? 'border-green-400' : 'border-studio-700'}`}>
+                <img src={img.generatedUrl} alt={img.productSet?.angle} onClick={() => onView(img)} className="w-full h-full object-cover cursor-pointer" />
+                <button
+                  onClick={() => onToggleAccepted(img)}
+                  className={`absolute bottom-0.5 right-0.5 p-0.5 rounded-full ${isAccepted ? 'bg-green-400 text-black' : 'bg-black/60 text-white hover:bg-studio-accent'}`}
+                  title={isAccepted ? 'Accepted for this angle' : 'Accept for this angle'}
+                >
+                  <Check size={12} />
+                </button>
+                {reference?.id === img.id && (
+                  <span className="absolute top-0 inset-x-0 bg-black/60 text-[8px] text-center text-white font-bold uppercase">Reference</span>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      <p className="text-[10px] text-gray-500">
+        {accepted.length === set.angles.length ? 'All angles accepted. ' : ''}Next capture: {currentAngle}.{' '}
+        {reference
+          ? `Later angles match the ${reference.productSet?.angle} shot.`
+          : 'Accept a shot to use it as the style reference for the rest.'}
+      </p>
+    </div>
+  );
+};
+
+export default ProductSetPanel;
@@ -0,0 +1,79 @@
+import React, { useState } from 'react';
+import { Project } from '../types';
+import ProjectEditor from './ProjectEditor';
+import { FolderOpen, Pencil, Plus } from 'lucide-react';
+
+interface ProjectBarProps {
+  projects: Project[];
+  activeProject: Project | null;
+  onSelect: (project: Project | null) => void;
+  onSave: (project: Project) => void;
+  onDelete: (id: string) => void;
+}
+
+const ProjectBar: React.FC<ProjectBarProps> = ({ projects, activeProject, onSelect, onSave, onDelete }) => {
+  const [editingProject, setEditingProject] = useState<Project | null | undefined>(undefined);
+
+  const chipClass = (active: boolean) => `
+    flex-none px-3 py-2 rounded-lg flex items-center gap-2 text-xs font-medium transition-all snap-start border
+    ${active
+      ? 'bg-studio-700 border-studio-accent text-white shadow-lg'
+      : 'bg-studio-800 border-studio-800 text-gray-400 hover:bg-studio-700 hover:border-studio-600'}
+  `;
+
+  return (
+    <div className="space-y-2">
+      <div className="flex justify-between text-xs text-gray-400 uppercase tracking-wider font-medium">
+        <span className="flex items-center gap-1"><FolderOpen size={12} className="text-studio-accent" /> Project</span>
+        <span className="text-white normal-case tracking-normal truncate max-w-[60%]">
+          {activeProject ? [activeProject.name, activeProject.client].filter(Boolean).join(' · ') : 'None'}
+        </span>
+      </div>
+      <div className="flex gap-2 overflow-x-auto no-scrollbar pb-1 snap-x">
+        <button onClick={() => onSelect(null)} className={chipClass(!activeProject)}>
+          None
+        </button>
+        {projects.map(project => (
+          <button
+            key={project.id}
+            onClick={() => onSelect(project)}
+            className={chipClass(activeProject?.id === project.id)}
+            title={[project.client, project.skus.join(', '), project.notes].filter(Boolean).join('\n') || project.name}
+          >
+            {project.name}
+            {activeProject?.id === project.id && (
+              <span
+                onClick={(e) => { e.stopPropagation(); setEditingProject(project); }}
+                className="p-0.5 -mr-1 rounded text-gray-400 hover:text-white"
+                title="Edit Project"
+              >
+                <Pencil size={12} />
+              </span>
+            )}
+          </button>
+        ))}
+        <button
+          onClick={() => setEditingProject(null)}
+          className="flex-none px-3 py-2 rounded-lg flex items-center gap-1 text-xs font-medium transition-all snap-start border border-dashed border-studio-600 text-gray-400 hover:bg-studio-700 hover:text-white"
+          title="New project"
+        >
+          <Plus size={14} /> Project
+        </button>
+      </div>
+
+      {editingProject !== undefined && (
+        <ProjectEditor
+          project={editingProject}
+          onSave={(project) => {
+            onSave(project);
+            if (!editingProject) onSelect(project);
+          }}
+          onDelete={onDelete}
+          onClose={() => setEditingProject(undefined)}
+        />
+      )}
+    </div>
+  );
+};
+
+export default ProjectBar;
@@ -0,0 +1,98 @@
+import React, { useState } from 'react';
+import { Project } from '../types';
+import { createProject, parseSkus } from '../services/projectService';
+import { X, Trash2, Save } from 'lucide-react';
+
+interface ProjectEditorProps {
+  project: Project | null; // null = create a new project
+  onSave: (project: Project) => void;
+  onDelete: (id: string) => void;
+  onClose: () => void;
+}
+
+const ProjectEditor: React.FC<ProjectEditorProps> = ({ project, onSave, onDelete, onClose }) => {
+  const [name, setName] = useState(project?.name || 'New Project');
+  const [client, setClient] = useState(project?.client || '');
+  const [skus, setSkus] = useState(project?.skus.join('\n') || '');
+  const [notes, setNotes] = useState(project?.notes || '');
+
+  const handleSave = () => {
+    onSave(createProject({
+      name: name.trim() || 'New Project',
+      client: client.trim(),
+      skus: parseSkus(skus),
+      notes: notes.trim(),
+    }, project || undefined));
+    onClose();
+  };
+
+  const inputClass = "w-full bg-studio-800 border border-studio-700 rounded-lg px-3 py-2 text-sm text-white focus:outline-none focus:ring-2 focus:ring-studio-accent";
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/80 backdrop-blur flex items-end sm:items-center justify-center animate-in fade-in duration-200">
+      <div className="w-full max-w-md bg-studio-900 rounded-t-3xl sm:rounded-3xl border border-white/10 p-5 space-y-4 max-h-[90vh] overflow-y-auto no-scrollbar">
+        <div className="flex items-center justify-between">
+          <p className="text-sm text-white font-bold">{project ? 'Edit Project' : 'New Project'}</p>
+          <button onClick={onClose} className="p-2 rounded-full text-gray-400 hover:bg-white/10 hover:text-white">
+            <X size={18} />
+          </button>
+        </div>
+
+        <input
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          placeholder="Project or session name"
+          className={inputClass}
+        />
+        <input
+          value={client}
+          onChange={(e) => setClient(e.target.value)}
+          placeholder="Client"
+          className={inputClass}
+        />
+
+        <div className="space-y-1.5">
+          <div className="text-xs text-gray-400 uppercase tracking-wider font-medium">SKUs</div>
+          <textarea
+            value={skus}
+            onChange={(e) => setSkus(e.target.value)}
+            rows={3}
+            placeholder="One per line, or comma separated"
+            className={`${inputClass} resize-none font-mono`}
+          />
+        </div>
+
+        <div className="space-y-1.5">
+          <div className="text-xs text-gray-400 uppercase tracking-wider font-medium">Notes</div>
+          <textarea
+            value={notes}
+            onChange={(e) => setNotes(e.target.value)}
+            rows={3}
+            placeholder="e.g. Hero shots due Friday, matte finish only."
+            className={`${inputClass} resize-none`}
+          />
+        </div>
+
+        <div className="flex gap-2">
+          {project && (
+            <button
+              onClick={() => { onDelete(project.id); onClose(); }}
+              className="px-4 py-2.5 rounded-full bg-red-500/20 text-red-200 hover:bg-red-500/40 transition-colors"
+              title="Delete Project (its shots are kept)"
+            >
+              <Trash2 size={16} />
+            </button>
+          )}
+          <button
+            onClick={handleSave}
+            className="flex-1 flex items-center justify-center gap-2 py-2.5 rounded-full bg-white text-black font-bold hover:bg-gray-100 transition-colors"
+          >
+            <Save size={16} /> Save Project
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ProjectEditor;
@@ -0,0 +1,113 @@
+import React, { useState } from 'react';
+import { PromptTemplate } from '../types';
+import { PromptInput, buildPrompt, getPromptVariables } from '../services/promptTemplateService';
+import PromptTemplateEditor from './PromptTemplateEditor';
+import { FileText, Pencil, Plus, ChevronDown, ChevronUp } from 'lucide-react';
+
+interface PromptPanelProps {
+  templates: PromptTemplate[];
+  selectedTemplate: PromptTemplate;
+  onSelectTemplate: (template: PromptTemplate) => void;
+  onSaveTemplate: (template: PromptTemplate) => void;
+  onDeleteTemplate: (id: string) => void;
+  instructions: string;
+  onUpdateInstructions: (instructions: string) => void;
+  previewInput: PromptInput; // Current selection, including brand kit rules and instructions
+}
+
+const PromptPanel: React.FC<PromptPanelProps> = ({
+  templates,
+  selectedTemplate,
+  onSelectTemplate,
+  onSaveTemplate,
+  onDeleteTemplate,
+  instructions,
+  onUpdateInstructions,
+  previewInput
+}) => {
+  const [editing, setEditing] = useState<PromptTemplate | null>(null);
+  const [showAdvanced, setShowAdvanced] = useState(false);
+
+  return (
+    <div className="space-y-3">
+      <div className="flex justify-between text-xs text-gray-400 uppercase tracking-wider font-medium">
+        <span className="flex items-center gap-1"><FileText size={14} className="text-studio-accent" /> Prompt Template</span>
+        <span className="text-white normal-case tracking-normal">{selectedTemplate.name} · v{selectedTemplate.version}</span>
+      </div>
+
+      <div className="flex gap-2 overflow-x-auto no-scrollbar pb-1 snap-x">
+        {templates.map(template => (
+          <button
+            key={template.id}
+            onClick={() => onSelectTemplate(template)}
+            className={`
+              flex-none px-3 py-2 rounded-lg flex items-center gap-2 text-xs font-medium transition-all snap-start border
+              ${selectedTemplate.id === template.id
+                ? 'bg-studio-700 border-studio-accent text-white shadow-lg'
+                : 'bg-studio-800 border-studio-800 text-gray-400 hover:bg-studio-700 hover:border-studio-600'}
+            `}
+          >
+            {template.name}
+            {selectedTemplate.id === template.id && (
+              <span
+                onClick={(e) => { e.stopPropagation(); setEditing(template); }}
+                className="p-0.5 -mr-1 rounded text-gray-400 hover:text-white"
+                title={templates[0].id === template.id ? 'Copy & Edit' : 'Edit Template'}
+              >
+                <Pencil size={12} />
+              </span>
+            )}
+          </button>
+        ))}
+        <button
+          onClick={() => setEditing(templates[0])}
+          className="flex-none px-3 py-2 rounded-lg flex items-center gap-1 text-xs font-medium transition-all snap-start border border-dashed border-studio-600 text-gray-400 hover:bg-studio-700 hover:text-white"
+          title="New Template from the default"
+        >
+          <Plus size={14} /> New
+        </button>
+      </div>
+
+      <button
+        onClick={() => setShowAdvanced(prev => !prev)}
+        className="w-full flex items-center justify-between text-xs text-gray-400 hover:text-white transition-colors"
+      >
+        <span>Advanced</span>
+        {showAdvanced ? <ChevronUp size={14} /> : <ChevronDown size={14} />}
+      </button>
+
+      {showAdvanced && (
+        <div className="space-y-3">
+          <textarea
+            value={instructions}
+            onChange={(e) => onUpdateInstructions(e.target.value)}
+            rows={3}
+            placeholder="Your own instructions, added to every prompt (e.g. keep the cap closed, no reflections)"
+            className="w-full bg-studio-800 border border-studio-700 rounded-lg px-3 py-2 text-sm text-white focus:outline-none focus:ring-2 focus:ring-studio-accent resize-none"
+          />
+          <div className="space-y-1.5">
+            <div className="text-xs text-gray-400 uppercase tracking-wider font-medium">Final Prompt</div>
+            <p className="text-[11px] text-gray-500 bg-studio-800 rounded-lg p-3 leading-relaxed whitespace-pre-wrap max-h-48 overflow-y-auto no-scrollbar">
+              {buildPrompt({ ...previewInput, template: selectedTemplate }, 'detailed')}
+            </p>
+          </div>
+        </div>
+      )}
+
+      {editing && (
+        <PromptTemplateEditor
+          template={editing}
+          variables={getPromptVariables(previewInput.background, previewInput.lighting, previewInput.settings)}
+          onSave={(template) => { onSaveTemplate(template); onSelectTemplate(template); }}
+          onDelete={(id) => {
+            onDeleteTemplate(id);
+            if (selectedTemplate.id === id) onSelectTemplate(templates[0]);
+          }}
+          onClose={() => setEditing(null)}
+        />
+      )}
+    </div>
+  );
+};
+
+export default PromptPanel;
@@ -0,0 +1,106 @@
+import React, { useState } from 'react';
+import { PromptTemplate, PromptVariant } from '../types';
+import { DEFAULT_PROMPT_TEMPLATE, PROMPT_VARIABLES, PROMPT_VARIANTS, PromptVariable, createPromptTemplate, renderTemplate } from '../services/promptTemplateService';
+import { X, Trash2, Save } from 'lucide-react';
+
+interface PromptTemplateEditorProps {
+  template: PromptTemplate;
+  variables: Record<PromptVariable, string>; // Current selection, for the preview
+  onSave: (template: PromptTemplate) => void;
+  onDelete: (id: string) => void;
+  onClose: () => void;
+}
+
+const PromptTemplateEditor: React.FC<PromptTemplateEditorProps> = ({ template, variables, onSave, onDelete, onClose }) => {
+  const isBuiltIn = template.id === DEFAULT_PROMPT_TEMPLATE.id;
+  const [name, setName] = useState(isBuiltIn ? `${template.name} Copy` : template.name);
+  const [prompts, setPrompts] = useState<Record<PromptVariant, string>>(template.prompts);
+  const [variant, setVariant] = useState<PromptVariant>('detailed');
+
+  const handleSave = () => {
+    onSave(createPromptTemplate(name.trim() || 'My Template', prompts, template));
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/80 backdrop-blur flex items-end sm:items-center justify-center animate-in fade-in duration-200">
+      <div className="w-full max-w-md bg-studio-900 rounded-t-3xl sm:rounded-3xl border border-white/10 p-5 space-y-4 max-h-[90vh] overflow-y-auto no-scrollbar">
+        <div className="flex items-center justify-between">
+          <p className="text-sm text-white font-bold">
+            {isBuiltIn ? 'New Template' : `Edit Template · v${template.version}`}
+          </p>
+          <button onClick={onClose} className="p-2 rounded-full text-gray-400 hover:bg-white/10 hover:text-white">
+            <X size={18} />
+          </button>
+        </div>
+
+        <input
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          placeholder="Template name"
+          className="w-full bg-studio-800 border border-studio-700 rounded-lg px-3 py-2 text-sm text-white focus:outline-none focus:ring-2 focus:ring-studio-accent"
+        />
+
+        <div className="grid grid-cols-4 gap-1.5">
+          {PROMPT_VARIANTS.map(v => (
+            <button
+              key={v.variant}
+              onClick={() => setVariant(v.variant)}
+              className={`
+                py-1.5 rounded-lg text-[11px] font-medium transition-all border
+                ${variant === v.variant
+                  ? 'bg-studio-accent border-studio-accent text-white'
+                  : 'bg-studio-800 border-studio-700 text-gray-400 hover:bg-studio-700 hover:text-white'}
+              `}
+            >
+              {v.label}
+            </button>
+          ))}
+        </div>
+
+        <textarea
+          value={prompts[variant]}
+          onChange={(e) => setPrompts(prev => ({ ...prev, [variant]: e.target.value }))}
+          rows={10}
+          className="w-full bg-studio-800 border border-studio-700 rounded-lg px-3 py-2 text-xs text-white font-mono focus:outline-none focus:ring-2 focus:ring-studio-accent"
+        />
+
+        <div className="flex flex-wrap gap-1.5">
+          {PROMPT_VARIABLES.map(v => (
+            <span key={v} className="px-2 py-0.5 rounded-full bg-studio-800 text-[10px] text-gray-400 font-mono" title={variables[v]}>
+              {`{{${v}}}`}
+            </span>
+          ))}
+        </div>
+
+        {/* Rendered with the current background, lighting and options */}
+        <div className="space-y-1.5">
+          <div className="text-xs text-gray-400 uppercase tracking-wider font-medium">Preview</div>
+          <p className="text-[11px] text-gray-500 bg-studio-800 rounded-lg p-3 leading-relaxed whitespace-pre-wrap max-h-48 overflow-y-auto no-scrollbar">
+            {renderTemplate(prompts[variant], variables)}
+          </p>
+        </div>
+
+        <div className="flex gap-2">
+          {!isBuiltIn && (
+            <button
+              onClick={() => { onDelete(template.id); onClose(); }}
+              className="px-4 py-2.5 rounded-full bg-red-500/20 text-red-200 hover:bg-red-500/40 transition-colors"
+              title="Delete Template"
+            >
+              <Trash2 size={16} />
+            </button>
+          )}
+          <button
+            onClick={handleSave}
+            className="flex-1 flex items-center justify-center gap-2 py-2.5 rounded-full bg-white text-black font-bold hover:bg-gray-100 transition-colors"
+          >
+            <Save size={16} /> {isBuiltIn ? 'Save as New Template' : `Save as v${template.version + 1}`}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PromptTemplateEditor;
@@ -0,0 +1,75 @@
+import React, { useState } from 'react';
+import { GeneratedImage } from '../types';
+import { X, Wand2 } from 'lucide-react';
+
+interface RefineDialogProps {
+  image: GeneratedImage;
+  onRefine: (instruction: string) => void;
+  onClose: () => void;
+}
+
+const SUGGESTIONS = [
+  'Make the shadow softer',
+  'Make the shadow darker',
+  'Move the product slightly left',
+  'Make the background warmer',
+  'Add more space above the product',
+];
+
+const RefineDialog: React.FC<RefineDialogProps> = ({ image, onRefine, onClose }) => {
+  const [instruction, setInstruction] = useState('');
+
+  const handleSubmit = () => {
+    if (!instruction.trim()) return;
+    onRefine(instruction.trim());
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/80 backdrop-blur flex items-end sm:items-center justify-center animate-in fade-in duration-200">
+      <div className="w-full max-w-md bg-studio-900 rounded-t-3xl sm:rounded-3xl border border-white/10 p-5 space-y-4 max-h-[90vh] overflow-y-auto no-scrollbar">
+        <div className="flex items-center justify-between">
+          <p className="text-sm text-white font-bold">Refine Shot</p>
+          <button onClick={onClose} className="p-2 rounded-full text-gray-400 hover:bg-white/10 hover:text-white">
+            <X size={18} />
+          </button>
+        </div>
+
+        <div className="flex gap-3">
+          <img src={image.generatedUrl} alt="Shot to refine" className="w-20 h-20 rounded-lg object-cover border border-studio-700 flex-none" />
+          <textarea
+            value={instruction}
+            onChange={(e) => setInstruction(e.target.value)}
+            onKeyDown={(e) => { if (e.key === 'Enter' && !e.shiftKey) { e.preventDefault(); handleSubmit(); } }}
+            rows={3}
+            autoFocus
+            placeholder="What should change? e.g. make the marble warmer"
+            className="flex-1 bg-studio-800 border border-studio-700 rounded-lg px-3 py-2 text-sm text-white focus:outline-none focus:ring-2 focus:ring-studio-accent resize-none"
+          />
+        </div>
+
+        <div className="flex flex-wrap gap-1.5">
+          {SUGGESTIONS.map(suggestion => (
+            <button
+              key={suggestion}
+              onClick={() => setInstruction(suggestion)}
+              className="px-2.5 py-1 rounded-full text-[11px] bg-studio-800 border border-studio-700 text-gray-400 hover:bg-studio-700 hover:text-white transition-colors"
+            >
+              {suggestion}
+            </button>
+          ))}
+        </div>
+
+        <button
+          onClick={handleSubmit}
+          disabled={!instruction.trim()}
+          className="w-full flex items-center justify-center gap-2 py-3 rounded-full bg-white text-black font-bold hover:bg-gray-100 transition-colors disabled:opacity-50"
+        >
+          <Wand2 size={18} /> Refine
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default RefineDialog;
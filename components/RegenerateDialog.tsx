@@ -0,0 +1,98 @@
+import React, { useState } from 'react';
+import { GeneratedImage, ProjectSetup } from '../types';
+import { X, Shuffle, RefreshCw } from 'lucide-react';
+
+interface RegenerateDialogProps {
+  image: GeneratedImage;
+  original: ProjectSetup; // What the shot was made with
+  current: ProjectSetup; // What is selected in the control panel now
+  onConfirm: (count: number, setup: ProjectSetup) => void;
+  onClose: () => void;
+}
+
+const MAX_VARIATIONS = 6;
+
+const RegenerateDialog: React.FC<RegenerateDialogProps> = ({ image, original, current, onConfirm, onClose }) => {
+  const [useCurrent, setUseCurrent] = useState(false);
+  const [count, setCount] = useState(1);
+
+  const renderSetup = (label: string, setup: ProjectSetup, selected: boolean, onSelect: () => void) => (
+    <button
+      onClick={onSelect}
+      className={`
+        w-full text-left px-3 py-2.5 rounded-lg transition-all border space-y-1
+        ${selected ? 'bg-studio-700 border-studio-accent text-white' : 'bg-studio-800 border-studio-800 text-gray-400 hover:bg-studio-700'}
+      `}
+    >
+      <span className="block text-sm font-medium">{label}</span>
+      <span className="flex flex-wrap items-center gap-2 text-[11px] text-gray-400">
+        <span
+          className={`w-3 h-3 rounded-full ${setup.background.previewClass}`}
+          style={setup.background.type === 'solid' ? { backgroundColor: setup.background.value } : {}}
+        />
+        <span>{setup.background.name}</span>
+        <span className="text-gray-600">|</span>
+        <span>{setup.lighting.icon} {setup.lighting.name}</span>
+        <span className="text-gray-600">|</span>
+        <span className="capitalize">{setup.settings.lightingDirection.replace('-', ' ')}</span>
+        <span className="text-gray-600">|</span>
+        <span>{setup.settings.aspectRatio}</span>
+      </span>
+    </button>
+  );
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/80 backdrop-blur flex items-end sm:items-center justify-center animate-in fade-in duration-200">
+      <div className="w-full max-w-md bg-studio-900 rounded-t-3xl sm:rounded-3xl border border-white/10 p-5 space-y-4 max-h-[90vh] overflow-y-auto no-scrollbar">
+        <div className="flex items-center justify-between">
+          <p className="text-sm text-white font-bold">Regenerate from Original</p>
+          <button onClick={onClose} className="p-2 rounded-full text-gray-400 hover:bg-white/10 hover:text-white">
+            <X size={18} />
+          </button>
+        </div>
+
+        <div className="flex gap-2">
+          <img src={image.originalUrl} alt="Original capture" className="w-16 h-16 rounded-lg object-cover border border-studio-700" />
+          <img src={image.generatedUrl} alt="Current shot" className="w-16 h-16 rounded-lg object-cover border border-studio-700" />
+          <p className="flex-1 text-xs text-gray-400 self-center">
+            Runs the stored capture through the studio again. New shots are grouped with this one so you can keep the best.
+          </p>
+        </div>
+
+        <div className="space-y-2">
+          {renderSetup('Same Settings', original, !useCurrent, () => setUseCurrent(false))}
+          {renderSetup('Current Selection', current, useCurrent, () => setUseCurrent(true))}
+        </div>
+
+        <div className="space-y-1.5">
+          <div className="text-xs text-gray-400 uppercase tracking-wider font-medium">Shots</div>
+          <div className="grid grid-cols-6 gap-1.5">
+            {Array.from({ length: MAX_VARIATIONS }, (_, i) => i + 1).map(n => (
+              <button
+                key={n}
+                onClick={() => setCount(n)}
+                className={`
+                  py-1.5 rounded-lg text-xs font-medium transition-all border
+                  ${count === n
+                    ? 'bg-studio-accent border-studio-accent text-white'
+                    : 'bg-studio-800 border-studio-700 text-gray-400 hover:bg-studio-700 hover:text-white'}
+                `}
+              >
+                {n}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        <button
+          onClick={() => { onConfirm(count, useCurrent ? current : original); onClose(); }}
+          className="w-full flex items-center justify-center gap-2 py-3 rounded-full bg-white text-black font-bold hover:bg-gray-100 transition-colors"
+        >
+          {count === 1 ? <><RefreshCw size={18} /> Regenerate</> : <><Shuffle size={18} /> Make {count} Variations</>}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default RegenerateDialog;
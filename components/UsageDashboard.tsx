@@ -0,0 +1,196 @@
+import React, { useState } from 'react';
+import { ModelPrice, Project, UsageEntry, UsageSettings } from '../types';
+import { BudgetStatus, dayKey, formatCost, getPeriodSpend, summarizeUsage } from '../services/usageService';
+import { X, Plus, Trash2, Receipt } from 'lucide-react';
+
+interface UsageDashboardProps {
+  entries: UsageEntry[];
+  settings: UsageSettings;
+  status: BudgetStatus;
+  projects: Project[];
+  onUpdateSettings: (settings: UsageSettings) => void;
+  onClear: () => void;
+  onClose: () => void;
+}
+
+type GroupBy = 'day' | 'project';
+
+const UsageDashboard: React.FC<UsageDashboardProps> = ({ entries, settings, status, projects, onUpdateSettings, onClear, onClose }) => {
+  const [groupBy, setGroupBy] = useState<GroupBy>('day');
+
+  const spend = getPeriodSpend(entries, settings.period);
+  const budgetRatio = settings.budget ? Math.min(1, spend / settings.budget) : 0;
+  const projectName = (id?: string) => projects.find(p => p.id === id)?.name || (id ? 'Deleted project' : 'No project');
+  const rows = summarizeUsage(entries, groupBy === 'day' ? e => dayKey(e.timestamp) : e => projectName(e.projectId));
+
+  const updatePrice = (index: number, patch: Partial<ModelPrice>) =>
+    onUpdateSettings({ ...settings, prices: settings.prices.map((p, i) => i === index ? { ...p, ...patch } : p) });
+
+  const inputClass = "w-full bg-studio-800 border border-studio-700 rounded-lg px-2 py-1.5 text-xs text-white focus:outline-none focus:ring-2 focus:ring-studio-accent";
+  const sectionTitle = "text-xs text-gray-400 uppercase tracking-wider font-medium";
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/80 backdrop-blur flex items-end sm:items-center justify-center animate-in fade-in duration-200">
+      <div className="w-full max-w-md bg-studio-900 rounded-t-3xl sm:rounded-3xl border border-white/10 p-5 space-y-5 max-h-[90vh] overflow-y-auto no-scrollbar">
+        <div className="flex items-center justify-between">
+          <p className="flex items-center gap-2 text-sm text-white font-bold"><Receipt size={16} className="text-studio-accent" /> Usage</p>
+          <button onClick={onClose} className="p-2 rounded-full text-gray-400 hover:bg-white/10 hover:text-white">
+            <X size={18} />
+          </button>
+        </div>
+
+        {/* Current period */}
+        <div className="space-y-2">
+          <div className="flex justify-between items-baseline">
+            <span className={sectionTitle}>{settings.period === 'day' ? 'Today' : 'This Month'}</span>
+            <span className="text-lg font-bold text-white">
+              {formatCost(spend)}
+              {settings.budget !== null && <span className="text-xs text-gray-500 font-normal"> / {formatCost(settings.budget)}</span>}
+            </span>
+          </div>
+          {settings.budget !== null && (
+            <div className="h-1.5 w-full bg-studio-700 rounded-full overflow-hidden">
+              <div
+                className={`h-full rounded-full ${status === 'blocked' ? 'bg-red-500' : status === 'warning' ? 'bg-amber-400' : 'bg-studio-accent'}`}
+                style={{ width: `${budgetRatio * 100}%` }}
+              />
+            </div>
+          )}
+          <p className="text-[10px] text-gray-500">Estimated from the price table below; failed calls are counted as free.</p>
+        </div>
+
+        {/* Breakdown */}
+        <div className="space-y-2">
+          <div className="flex items-center justify-between">
+            <span className={sectionTitle}>Breakdown</span>
+            <div className="flex rounded-lg bg-studio-800 p-0.5 text-[11px] font-medium">
+              {(['day', 'project'] as GroupBy[]).map(option => (
+                <button
+                  key={option}
+                  onClick={() => setGroupBy(option)}
+                  className={`px-2 py-1 rounded-md ${groupBy === option ? 'bg-studio-700 text-white' : 'text-gray-400 hover:text-white'}`}
+                >
+                  {option === 'day' ? 'By Day' : 'By Project'}
+                </button>
+              ))}
+            </div>
+          </div>
+          {rows.length === 0 ? (
+            <p className="text-xs text-gray-500 text-center py-3">No generations recorded yet.</p>
+          ) : (
+            <table className="w-full text-xs text-gray-300">
+              <thead>
+                <tr className="text-[10px] text-gray-500 uppercase tracking-wider">
+                  <th className="text-left font-medium py-1">{groupBy === 'day' ? 'Day' : 'Project'}</th>
+                  <th className="text-right font-medium" title="Model calls, including retries">Calls</th>
+                  <th className="text-right font-medium">Failed</th>
+                  <th className="text-right font-medium" title="Calls answered by a fallback model">Fallback</th>
+                  <th className="text-right font-medium">Avg</th>
+                  <th className="text-right font-medium">Cost</th>
+                </tr>
+              </thead>
+              <tbody>
+                {rows.map(row => (
+                  <tr key={row.key} className="border-t border-white/5">
+                    <td className="py-1.5 truncate max-w-[7rem]">{row.key}</td>
+                    <td className="text-right">{row.calls}</td>
+                    <td className={`text-right ${row.failures > 0 ? 'text-amber-400' : ''}`}>{row.failures}</td>
+                    <td className="text-right">{row.fallbacks}</td>
+                    <td className="text-right">{(row.avgLatencyMs / 1000).toFixed(1)}s</td>
+                    <td className="text-right text-white">{formatCost(row.cost)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+
+        {/* Budget */}
+        <div className="space-y-2">
+          <span className={sectionTitle}>Budget</span>
+          <div className="grid grid-cols-3 gap-2">
+            <input
+              type="number" min="0" step="1"
+              value={settings.budget ?? ''}
+              onChange={(e) => onUpdateSettings({ ...settings, budget: e.target.value === '' ? null : Math.max(0, Number(e.target.value)) })}
+              placeholder="No limit"
+              className={inputClass}
+              title="USD"
+            />
+            <select
+              value={settings.period}
+              onChange={(e) => onUpdateSettings({ ...settings, period: e.target.value as UsageSettings['period'] })}
+              className={inputClass}
+            >
+              <option value="day">per day</option>
+              <option value="month">per month</option>
+            </select>
+            <select
+              value={settings.warnAt}
+              onChange={(e) => onUpdateSettings({ ...settings, warnAt: Number(e.target.value) })}
+              className={inputClass}
+              title="Show a warning from this share of the budget"
+            >
+              {[0.5, 0.75, 0.8, 0.9].map(share => <option key={share} value={share}>warn at {share * 100}%</option>)}
+            </select>
+          </div>
+          <p className="text-[10px] text-gray-500">New generations are stopped once the budget is used up; stopped shots can be retried later.</p>
+        </div>
+
+        {/* Price table */}
+        <div className="space-y-2">
+          <span className={sectionTitle}>Prices (USD per image)</span>
+          <div className="grid grid-cols-[1fr_4.5rem_4.5rem_auto] gap-2 items-center text-[10px] text-gray-500 uppercase tracking-wider">
+            <span>Model</span>
+            <span>Image</span>
+            <span>4K</span>
+            <span />
+            {settings.prices.map((price, i) => (
+              <React.Fragment key={i}>
+                <input value={price.model} onChange={(e) => updatePrice(i, { model: e.target.value.trim() })} className={inputClass} />
+                <input
+                  type="number" min="0" step="0.001"
+                  value={price.perImage}
+                  onChange={(e) => updatePrice(i, { perImage: Math.max(0, Number(e.target.value)) })}
+                  className={inputClass}
+                />
+                <input
+                  type="number" min="0" step="0.001"
+                  value={price.perImage4K ?? ''}
+                  onChange={(e) => updatePrice(i, { perImage4K: e.target.value === '' ? undefined : Math.max(0, Number(e.target.value)) })}
+                  placeholder="—"
+                  className={inputClass}
+                />
+                <button
+                  onClick={() => onUpdateSettings({ ...settings, prices: settings.prices.filter((_, j) => j !== i) })}
+                  className="p-1 text-gray-500 hover:text-red-300"
+                  title="Remove"
+                >
+                  <Trash2 size={12} />
+                </button>
+              </React.Fragment>
+            ))}
+          </div>
+          <button
+            onClick={() => onUpdateSettings({ ...settings, prices: [...settings.prices, { model: '', perImage: 0 }] })}
+            className="flex items-center gap-1 text-xs text-gray-400 hover:text-white"
+          >
+            <Plus size={12} /> Add model
+          </button>
+          <p className="text-[10px] text-gray-500">Price changes apply to new calls; recorded costs stay as they were.</p>
+        </div>
+
+        {entries.length > 0 && (
+          <button
+            onClick={onClear}
+            className="w-full py-2 rounded-full bg-red-500/20 text-red-200 text-xs font-medium hover:bg-red-500/40 transition-colors"
+          >
+            Clear Usage History
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default UsageDashboard;
@@ -0,0 +1,59 @@
+import React, { useState } from 'react';
+import { GeneratedImage } from '../types';
+import { X, Check } from 'lucide-react';
+
+interface VariantPickerProps {
+  variants: GeneratedImage[]; // Oldest first
+  onKeep: (id: string) => void; // Keeps one shot and discards the rest of the group
+  onClose: () => void;
+}
+
+const VariantPicker: React.FC<VariantPickerProps> = ({ variants, onKeep, onClose }) => {
+  const [selectedId, setSelectedId] = useState(variants[0]?.id);
+  const selected = variants.find(v => v.id === selectedId) || variants[0];
+  if (!selected) return null;
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/95 backdrop-blur flex flex-col items-center justify-center p-4 gap-4 animate-in fade-in duration-200">
+      <button
+        onClick={onClose}
+        className="absolute top-4 right-4 p-3 bg-white/10 rounded-full text-white hover:bg-white/20"
+      >
+        <X size={24} />
+      </button>
+
+      <img
+        src={selected.generatedUrl}
+        alt="Selected variation"
+        className="max-w-full max-h-[55vh] object-contain rounded-lg shadow-2xl"
+      />
+      <p className="text-xs text-gray-400">
+        {[selected.settings.backgroundName, selected.settings.lightingName, selected.settings.aspectRatio].filter(Boolean).join(' · ')}
+        {selected.fidelity && ` · Fidelity ${Math.round(selected.fidelity.score * 100)}%`}
+      </p>
+
+      <div className="grid grid-cols-3 gap-2 w-full max-w-md">
+        {variants.map((variant, i) => (
+          <button
+            key={variant.id}
+            onClick={() => setSelectedId(variant.id)}
+            className={`relative aspect-square rounded-xl overflow-hidden border-2 transition-all ${variant.id === selected.id ? 'border-studio-accent' : 'border-transparent opacity-60 hover:opacity-100'}`}
+          >
+            <img src={variant.generatedUrl} alt={`Variation ${i + 1}`} className="w-full h-full object-cover" />
+            <span className="absolute top-1 left-1 px-1.5 rounded-full bg-black/70 text-[10px] text-white font-bold">{i + 1}</span>
+          </button>
+        ))}
+      </div>
+
+      <button
+        onClick={() => { onKeep(selected.id); onClose(); }}
+        className="flex items-center gap-2 px-6 py-3 bg-white text-black rounded-full font-bold hover:bg-gray-100 transition-colors"
+      >
+        <Check size={18} /> Keep This One
+        <span className="text-xs font-medium text-gray-500">· discard {variants.length - 1}</span>
+      </button>
+    </div>
+  );
+};
+
+export default VariantPicker;
@@ -0,0 +1,59 @@
+import React from 'react';
+import { GeneratedImage } from '../types';
+import { ChevronLeft, ChevronRight, Loader2 } from 'lucide-react';
+
+interface VersionHistoryProps {
+  versions: GeneratedImage[]; // Oldest first
+  current: GeneratedImage;
+  pending?: number; // Refinements of this shot still in the queue
+  onSelect: (image: GeneratedImage) => void;
+}
+
+const VersionHistory: React.FC<VersionHistoryProps> = ({ versions, current, pending = 0, onSelect }) => {
+  const index = versions.findIndex(v => v.id === current.id);
+  if (versions.length < 2 && pending === 0) return null;
+
+  const stepButton = (target: GeneratedImage | undefined, icon: React.ReactNode, title: string) => (
+    <button
+      onClick={() => target && onSelect(target)}
+      disabled={!target}
+      className="p-1.5 rounded-full text-gray-300 hover:bg-white/10 hover:text-white disabled:opacity-30"
+      title={title}
+    >
+      {icon}
+    </button>
+  );
+
+  return (
+    <div className="flex flex-col items-center gap-2 w-full max-w-md mb-4">
+      <div className="flex items-center gap-2 text-xs text-gray-400">
+        {stepButton(versions[index - 1], <ChevronLeft size={16} />, 'Previous Version')}
+        <span className="font-medium text-white">Version {index + 1} of {versions.length}</span>
+        {stepButton(versions[index + 1], <ChevronRight size={16} />, 'Next Version')}
+      </div>
+      {current.refinement && (
+        <p className="text-xs text-gray-400 italic text-center">“{current.refinement.instruction}”</p>
+      )}
+      <div className="flex gap-1.5 overflow-x-auto no-scrollbar max-w-full px-1">
+        {versions.map((version, i) => (
+          <button
+            key={version.id}
+            onClick={() => onSelect(version)}
+            className={`relative flex-none w-12 h-12 rounded-lg overflow-hidden border-2 transition-all ${version.id === current.id ? 'border-studio-accent' : 'border-transparent opacity-60 hover:opacity-100'}`}
+            title={version.refinement?.instruction || 'Original shot'}
+          >
+            <img src={version.generatedUrl} alt={`Version ${i + 1}`} className="w-full h-full object-cover" />
+            <span className="absolute bottom-0 right-0 px-1 bg-black/70 text-[9px] text-white font-bold rounded-tl">v{i + 1}</span>
+          </button>
+        ))}
+        {pending > 0 && (
+          <div className="flex-none w-12 h-12 rounded-lg border-2 border-dashed border-studio-600 flex items-center justify-center text-gray-400" title={`${pending} refinement${pending > 1 ? 's' : ''} in progress`}>
+            <Loader2 size={16} className="animate-spin" />
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default VersionHistory;
@@ -0,0 +1,47 @@
+import { useState, useEffect, useRef } from 'react';
+import { LibraryBackground } from '../types';
+import { loadBackgrounds, saveBackground, deleteBackground, createWriteChain } from '../services/storageService';
+import { sortLibrary } from '../services/backgroundLibraryService';
+
+/**
+ * The user's saved backgrounds, persisted in IndexedDB (uploaded scenes are
+ * too large for localStorage).
+ */
+export const useBackgroundLibrary = (onError: (message: string) => void) => {
+  const [backgrounds, setBackgrounds] = useState<LibraryBackground[]>([]);
+  // Chained per background, so a delete can't be overtaken by a save still converting its image
+  const writeBackground = useRef(createWriteChain()).current;
+
+  useEffect(() => {
+    loadBackgrounds()
+      .then(saved => setBackgrounds(prev => sortLibrary([...saved.filter(s => !prev.some(p => p.id === s.id)), ...prev])))
+      .catch(e => console.warn("Could not load background library:", e));
+  }, []);
+
+  const persist = (background: LibraryBackground) =>
+    writeBackground(background.id, () => saveBackground(background)).catch(e => {
+      console.error("Could not save background:", e);
+      onError(`Could not save "${background.name}" to the library.`);
+    });
+
+  // Adds a background, or replaces the one with the same id
+  const save = (background: LibraryBackground) => {
+    setBackgrounds(prev => sortLibrary([...prev.filter(b => b.id !== background.id), background]));
+    persist(background);
+  };
+
+  const remove = (id: string) => {
+    setBackgrounds(prev => prev.filter(b => b.id !== id));
+    writeBackground(id, () => deleteBackground(id)).catch(e => console.warn("Could not delete background:", e));
+  };
+
+  const toggleFavorite = (id: string) => {
+    const background = backgrounds.find(b => b.id === id);
+    if (background) save({ ...background, favorite: !background.favorite });
+  };
+
+  // Imported entries overwrite local ones with the same id
+  const merge = (imported: LibraryBackground[]) => imported.forEach(save);
+
+  return { backgrounds, save, remove, toggleFavorite, merge };
+};
@@ -0,0 +1,27 @@
+import { useState } from 'react';
+import { BrandKit } from '../types';
+import { loadBrandKits, saveBrandKits } from '../services/brandKitService';
+
+/**
+ * Saved brand kits, persisted in localStorage.
+ */
+export const useBrandKits = (onError: (message: string) => void) => {
+  const [kits, setKits] = useState<BrandKit[]>(loadBrandKits);
+
+  const commit = (next: BrandKit[]) => {
+    setKits(next);
+    if (!saveBrandKits(next)) {
+      onError("Could not save brand kits: browser storage is full. Kits with uploaded scenes take the most space.");
+    }
+  };
+
+  // Adds a kit, or replaces the one with the same id
+  const save = (kit: BrandKit) => {
+    const exists = kits.some(k => k.id === kit.id);
+    commit(exists ? kits.map(k => k.id === kit.id ? kit : k) : [...kits, kit]);
+  };
+
+  const remove = (id: string) => commit(kits.filter(k => k.id !== id));
+
+  return { kits, save, remove };
+};
@@ -0,0 +1,27 @@
+import { useState } from 'react';
+import { ExportProfile } from '../types';
+import { BUILT_IN_EXPORT_PROFILES, loadExportProfiles, saveExportProfiles } from '../services/exportService';
+
+/**
+ * Export profiles (built-in marketplace specs plus user edits), persisted in localStorage.
+ */
+export const useExportProfiles = () => {
+  const [profiles, setProfiles] = useState<ExportProfile[]>(loadExportProfiles);
+
+  const commit = (next: ExportProfile[]) => {
+    setProfiles(next);
+    saveExportProfiles(next);
+  };
+
+  // Adds a profile, or replaces the one with the same id
+  const save = (profile: ExportProfile) => {
+    const exists = profiles.some(p => p.id === profile.id);
+    commit(exists ? profiles.map(p => p.id === profile.id ? profile : p) : [...profiles, profile]);
+  };
+
+  const remove = (id: string) => commit(profiles.filter(p => p.id !== id));
+
+  const reset = () => commit(BUILT_IN_EXPORT_PROFILES);
+
+  return { profiles, save, remove, reset };
+};
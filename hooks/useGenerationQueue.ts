@@ -0,0 +1,135 @@
+import { useState, useRef, useEffect } from 'react';
+import { GenerationJob } from '../types';
+import { generateStudioShot, isAbortError } from '../services/studioService';
+import { StudioShotCall, StudioShotResult } from '../services/studioShotProvider';
+import { GenerationError, classifyError } from '../services/generationErrors';
+import { loadJobs, saveJob, deleteJob, createWriteChain } from '../services/storageService';
+
+export type NewJob = Omit<GenerationJob, 'id' | 'status' | 'createdAt'>;
+
+interface QueueOptions {
+  concurrency: number;
+  // Called once per successful job, before the job leaves the queue
+  onComplete: (job: GenerationJob, result: StudioShotResult) => void;
+  onCall?: (job: GenerationJob, call: StudioShotCall) => void; // Every model call a job makes, for the usage ledger
+  isBudgetExhausted?: () => boolean; // Checked before each job starts; true fails the job instead of calling a model
+}
+
+const newJobId = () => crypto.randomUUID ? crypto.randomUUID() : Math.random().toString(36).substring(2);
+
+/**
+ * Persistent generation queue. Jobs are written to IndexedDB as they are
+ * enqueued, so anything pending or failed survives a reload and resumes.
+ */
+export const useGenerationQueue = ({ concurrency, onComplete, onCall, isBudgetExhausted }: QueueOptions) => {
+  const [jobs, setJobs] = useState<GenerationJob[]>([]);
+  const controllers = useRef(new Map<string, AbortController>());
+  const writeJob = useRef(createWriteChain()).current;
+  const onCompleteRef = useRef(onComplete);
+  onCompleteRef.current = onComplete;
+  const onCallRef = useRef(onCall);
+  onCallRef.current = onCall;
+  const isBudgetExhaustedRef = useRef(isBudgetExhausted);
+  isBudgetExhaustedRef.current = isBudgetExhausted;
+
+  const updateJob = (id: string, patch: Partial<GenerationJob>) =>
+    setJobs(prev => prev.map(job => job.id === id ? { ...job, ...patch } : job));
+
+  // Chained per job, so a removed job can't be written back and re-run on reload
+  const persistJob = (job: GenerationJob) =>
+    writeJob(job.id, () => saveJob(job)).catch(e => console.warn("Could not save job:", e));
+
+  const dropJob = (id: string) => {
+    setJobs(prev => prev.filter(job => job.id !== id));
+    writeJob(id, () => deleteJob(id)).catch(e => console.warn("Could not delete saved job:", e));
+  };
+
+  // Restore the persisted queue on startup
+  useEffect(() => {
+    loadJobs()
+      .then(saved => setJobs(prev => [...saved.filter(s => !prev.some(p => p.id === s.id)), ...prev]))
+      .catch(e => console.warn("Could not load saved jobs:", e));
+  }, []);
+
+  const run = async (job: GenerationJob) => {
+    const controller = new AbortController();
+    controllers.current.set(job.id, controller);
+
+    try {
+      if (isBudgetExhaustedRef.current?.()) {
+        throw new GenerationError('budget', "The spending budget for this period is used up.");
+      }
+      const result = await generateStudioShot({
+        imageBase64: job.sourceUrl || job.originalUrl,
+        background: job.background,
+        lighting: job.lighting,
+        settings: job.settings,
+        template: job.template,
+        promptAdditions: job.promptAdditions,
+        refinement: job.refinement?.instruction,
+        mask: job.mask,
+        styleReference: job.styleReferenceUrl,
+        signal: controller.signal,
+        onCall: call => onCallRef.current?.(job, call),
+      });
+      if (controller.signal.aborted) return;
+      onCompleteRef.current(job, result);
+      dropJob(job.id);
+    } catch (error) {
+      if (controller.signal.aborted || isAbortError(error)) return;
+      const classified = classifyError(error);
+      console.error("Job failed:", classified);
+      const failed: GenerationJob = { ...job, status: 'failed', error: classified.message, errorKind: classified.kind };
+      updateJob(job.id, { status: 'failed', error: failed.error, errorKind: failed.errorKind });
+      persistJob(failed);
+    } finally {
+      controllers.current.delete(job.id);
+    }
+  };
+
+  // Start pending jobs (oldest first) whenever a slot frees up
+  useEffect(() => {
+    const running = jobs.filter(job => job.status === 'running').length;
+    const toStart = jobs
+      .filter(job => job.status === 'pending' && !controllers.current.has(job.id))
+      .sort((a, b) => a.createdAt - b.createdAt)
+      .slice(0, Math.max(0, concurrency - running));
+    if (toStart.length === 0) return;
+
+    setJobs(prev => prev.map(job => toStart.some(s => s.id === job.id) ? { ...job, status: 'running' } : job));
+    toStart.forEach(job => run({ ...job, status: 'running' }));
+  }, [jobs, concurrency]);
+
+  const enqueue = (newJobs: NewJob[]) => {
+    const now = Date.now();
+    const created: GenerationJob[] = newJobs.map((job, i) => ({
+      ...job,
+      id: newJobId(),
+      status: 'pending',
+      createdAt: now + i, // Keeps submission order stable
+    }));
+    setJobs(prev => [...prev, ...created]);
+    created.forEach(persistJob);
+    return created;
+  };
+
+  const retry = (id: string) => {
+    const job = jobs.find(j => j.id === id);
+    if (!job || job.status !== 'failed') return;
+    const pending: GenerationJob = { ...job, status: 'pending', error: undefined, errorKind: undefined };
+    updateJob(id, { status: 'pending', error: undefined, errorKind: undefined });
+    persistJob(pending);
+  };
+
+  // Removes a job; a running one is aborted and its result discarded
+  const remove = (id: string) => {
+    controllers.current.get(id)?.abort();
+    dropJob(id);
+  };
+
+  const cancelBatch = (batchId: string) => {
+    jobs.filter(job => job.batchId === batchId && job.status !== 'failed').forEach(job => remove(job.id));
+  };
+
+  return { jobs, enqueue, retry, remove, cancelBatch };
+};
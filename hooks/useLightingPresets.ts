@@ -0,0 +1,31 @@
+import { useState } from 'react';
+import { LightingOption } from '../types';
+import { loadLightingPresets, saveLightingPresets } from '../services/lightingService';
+
+/**
+ * User-made lighting presets, persisted in localStorage.
+ */
+export const useLightingPresets = () => {
+  const [presets, setPresets] = useState<LightingOption[]>(loadLightingPresets);
+
+  const commit = (next: LightingOption[]) => {
+    setPresets(next);
+    saveLightingPresets(next);
+  };
+
+  // Adds a preset, or replaces the one with the same id (rename/edit)
+  const save = (preset: LightingOption) => {
+    const exists = presets.some(p => p.id === preset.id);
+    commit(exists ? presets.map(p => p.id === preset.id ? preset : p) : [...presets, preset]);
+  };
+
+  const remove = (id: string) => commit(presets.filter(p => p.id !== id));
+
+  // Imported presets overwrite local ones with the same id
+  const merge = (imported: LightingOption[]) => {
+    const ids = new Set(imported.map(p => p.id));
+    commit([...presets.filter(p => !ids.has(p.id)), ...imported]);
+  };
+
+  return { presets, save, remove, merge };
+};
@@ -0,0 +1,36 @@
+import { useEffect, useState } from 'react';
+import { ProductSet } from '../types';
+import { loadActiveProductSetId, loadProductSets, saveActiveProductSetId, saveProductSets } from '../services/productSetService';
+
+/**
+ * Multi-angle product sets and the one being shot, persisted in localStorage.
+ */
+export const useProductSets = (onError: (message: string) => void) => {
+  const [sets, setSets] = useState<ProductSet[]>(loadProductSets);
+  const [activeId, setActiveId] = useState<string | null>(loadActiveProductSetId);
+
+  const activeSet = sets.find(s => s.id === activeId) || null;
+
+  useEffect(() => {
+    if (!saveProductSets(sets)) {
+      onError("Could not save product sets: browser storage is full.");
+    }
+  }, [sets]);
+
+  const select = (id: string | null) => {
+    setActiveId(id);
+    saveActiveProductSetId(id);
+  };
+
+  // Adds a set, or replaces the one with the same id
+  const save = (set: ProductSet) => setSets(prev =>
+    prev.some(s => s.id === set.id) ? prev.map(s => s.id === set.id ? set : s) : [...prev, set]
+  );
+
+  const remove = (id: string) => {
+    setSets(prev => prev.filter(s => s.id !== id));
+    if (activeId === id) select(null);
+  };
+
+  return { sets, activeSet, save, remove, select };
+};
@@ -0,0 +1,49 @@
+import { useEffect, useState } from 'react';
+import { Project, ProjectSetup } from '../types';
+import { loadActiveProjectId, loadProjects, saveActiveProjectId, saveProjects, withSetup } from '../services/projectService';
+
+/**
+ * Projects and the one new shots are filed under, persisted in localStorage.
+ */
+export const useProjects = (onError: (message: string) => void) => {
+  const [projects, setProjects] = useState<Project[]>(loadProjects);
+  const [activeId, setActiveId] = useState<string | null>(loadActiveProjectId);
+
+  const activeProject = projects.find(p => p.id === activeId) || null;
+
+  // Updates are functional because a switch can save and select in the same tick
+  useEffect(() => {
+    if (!saveProjects(projects)) {
+      onError("Could not save projects: browser storage is full. Projects with uploaded scenes take the most space.");
+    }
+  }, [projects]);
+
+  const activate = (id: string | null) => {
+    setActiveId(id);
+    saveActiveProjectId(id);
+  };
+
+  // Adds a project, or replaces the one with the same id
+  const save = (project: Project) => setProjects(prev =>
+    prev.some(p => p.id === project.id) ? prev.map(p => p.id === project.id ? project : p) : [...prev, project]
+  );
+
+  const remove = (id: string) => {
+    setProjects(prev => prev.filter(p => p.id !== id));
+    if (activeId === id) activate(null);
+  };
+
+  // Stores the setup on the active project, e.g. after a capture
+  const remember = (setup: ProjectSetup) => {
+    if (!activeId) return;
+    setProjects(prev => prev.map(p => p.id === activeId ? withSetup(p, setup) : p));
+  };
+
+  // Leaves the current project with its setup remembered, then switches
+  const select = (id: string | null, currentSetup: ProjectSetup) => {
+    remember(currentSetup);
+    activate(id);
+  };
+
+  return { projects, activeProject, save, remove, remember, select };
+};
@@ -0,0 +1,26 @@
+import { useState } from 'react';
+import { PromptTemplate } from '../types';
+import { DEFAULT_PROMPT_TEMPLATE, loadPromptTemplates, savePromptTemplates } from '../services/promptTemplateService';
+
+/**
+ * User-edited prompt templates, persisted in localStorage. The built-in
+ * template is always listed first and can't be changed in place.
+ */
+export const usePromptTemplates = () => {
+  const [userTemplates, setUserTemplates] = useState<PromptTemplate[]>(loadPromptTemplates);
+
+  const commit = (next: PromptTemplate[]) => {
+    setUserTemplates(next);
+    savePromptTemplates(next);
+  };
+
+  // Adds a template, or replaces the one with the same id (a newer version)
+  const save = (template: PromptTemplate) => {
+    const exists = userTemplates.some(t => t.id === template.id);
+    commit(exists ? userTemplates.map(t => t.id === template.id ? template : t) : [...userTemplates, template]);
+  };
+
+  const remove = (id: string) => commit(userTemplates.filter(t => t.id !== id));
+
+  return { templates: [DEFAULT_PROMPT_TEMPLATE, ...userTemplates], save, remove };
+};
@@ -0,0 +1,31 @@
+import { useEffect, useState } from 'react';
+import { UsageEntry, UsageSettings } from '../types';
+import { StudioShotCall } from '../services/studioShotProvider';
+import { createUsageEntry, getBudgetStatus, loadUsageLedger, loadUsageSettings, saveUsageLedger, saveUsageSettings } from '../services/usageService';
+
+/**
+ * Ledger of model calls and the spending budget, persisted in localStorage.
+ */
+export const useUsageLedger = (onError: (message: string) => void) => {
+  const [entries, setEntries] = useState<UsageEntry[]>(loadUsageLedger);
+  const [settings, setSettings] = useState<UsageSettings>(loadUsageSettings);
+
+  // Calls from parallel jobs land in the same tick, so updates are functional
+  useEffect(() => {
+    if (!saveUsageLedger(entries)) {
+      onError("Could not save the usage ledger: browser storage is full.");
+    }
+  }, [entries]);
+
+  const record = (call: StudioShotCall, projectId?: string) =>
+    setEntries(prev => [...prev, createUsageEntry(call, settings.prices, projectId)]);
+
+  const updateSettings = (next: UsageSettings) => {
+    setSettings(next);
+    saveUsageSettings(next);
+  };
+
+  const clear = () => setEntries([]);
+
+  return { entries, settings, status: getBudgetStatus(entries, settings), record, updateSettings, clear };
+};
@@ -0,0 +1,64 @@
+import { BackgroundOption, BackgroundType, LibraryBackground } from "../types";
+
+const EXPORT_FORMAT = 'instant-studio/background-library';
+const ID_PREFIX = 'user-bg-';
+
+// Generic swatches for saved backgrounds; solids use their hex inline instead
+const PREVIEW_CLASSES: Record<BackgroundType, string> = {
+  solid: '',
+  gradient: 'bg-gradient-to-br from-fuchsia-400 to-indigo-600',
+  texture: 'bg-gradient-to-br from-stone-400 to-stone-600',
+  image: 'bg-gray-800',
+};
+
+export const createLibraryBackground = (
+  fields: Pick<BackgroundOption, 'name' | 'type' | 'value' | 'imageSrc'> & Partial<Pick<LibraryBackground, 'id' | 'tags' | 'favorite' | 'createdAt'>>
+): LibraryBackground => ({
+  id: fields.id || `${ID_PREFIX}${Date.now().toString(36)}-${Math.random().toString(36).substring(2, 6)}`,
+  name: fields.name,
+  type: fields.type,
+  value: fields.value,
+  previewClass: PREVIEW_CLASSES[fields.type],
+  ...(fields.type === 'image' && fields.imageSrc ? { imageSrc: fields.imageSrc } : {}),
+  tags: fields.tags || [],
+  favorite: fields.favorite || false,
+  createdAt: fields.createdAt || Date.now(),
+});
+
+export const parseTags = (input: string): string[] =>
+  Array.from(new Set(input.split(',').map(t => t.trim().toLowerCase()).filter(Boolean)));
+
+// Favourites first, then oldest first so the order stays stable as items are added
+export const sortLibrary = (backgrounds: LibraryBackground[]) =>
+  [...backgrounds].sort((a, b) => Number(b.favorite) - Number(a.favorite) || a.createdAt - b.createdAt);
+
+export const exportBackgroundLibrary = (backgrounds: LibraryBackground[]) => ({
+  format: EXPORT_FORMAT,
+  version: 1,
+  backgrounds,
+});
+
+const isValidEntry = (b: any): boolean =>
+  !!b && typeof b.name === 'string' && typeof b.value === 'string'
+  && Object.prototype.hasOwnProperty.call(PREVIEW_CLASSES, b.type)
+  && (b.type !== 'image' || (typeof b.imageSrc === 'string' && b.imageSrc.startsWith('data:image/')))
+  && (b.createdAt === undefined || typeof b.createdAt === 'number' && Number.isFinite(b.createdAt));
+
+// Entries keep their id, so importing a file again replaces rather than duplicates them
+export const parseBackgroundLibraryExport = (data: any): LibraryBackground[] => {
+  if (!data || data.format !== EXPORT_FORMAT || !Array.isArray(data.backgrounds)) {
+    throw new Error("Not a background library file.");
+  }
+  return data.backgrounds
+    .filter(isValidEntry)
+    .map((b: any) => createLibraryBackground({
+      id: typeof b.id === 'string' && b.id.startsWith(ID_PREFIX) ? b.id : undefined, // Never a preset's id
+      name: b.name,
+      type: b.type,
+      value: b.value,
+      imageSrc: b.type === 'image' ? b.imageSrc : undefined,
+      tags: Array.isArray(b.tags) ? b.tags.filter((t: any) => typeof t === 'string') : [],
+      favorite: !!b.favorite,
+      createdAt: b.createdAt,
+    }));
+};
@@ -0,0 +1,9 @@
+import { BackgroundOption, LightingOption } from "../types";
+
+export interface BatchCombination {
+  background: BackgroundOption;
+  lighting: LightingOption;
+}
+
+export const buildCombinations = (backgrounds: BackgroundOption[], lightings: LightingOption[]): BatchCombination[] =>
+  backgrounds.flatMap(background => lightings.map(lighting => ({ background, lighting })));
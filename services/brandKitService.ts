@@ -0,0 +1,32 @@
+import { BackgroundOption, BrandKit, BrandKitRef, CameraSettings, LightingOption } from "../types";
+import { loadJson, saveJson } from "./localStore";
+
+const STORAGE_KEY = 'brand-kits';
+
+export const createBrandKit = (
+  name: string,
+  settings: CameraSettings,
+  background: BackgroundOption,
+  lighting: LightingOption,
+  promptAdditions: string,
+  existing?: BrandKit
+): BrandKit => ({
+  id: existing?.id || `kit-${Date.now().toString(36)}`,
+  name,
+  settings: { ...settings },
+  background,
+  lighting,
+  promptAdditions: promptAdditions.trim(),
+  createdAt: existing?.createdAt || Date.now(),
+});
+
+export const toBrandKitRef = (kit: BrandKit): BrandKitRef => ({ id: kit.id, name: kit.name });
+
+const isValidKit = (k: any): k is BrandKit =>
+  k && typeof k.id === 'string' && typeof k.name === 'string' && k.settings && k.background && k.lighting;
+
+export const loadBrandKits = (): BrandKit[] =>
+  loadJson<BrandKit[]>(STORAGE_KEY, []).filter(isValidKit);
+
+// Kits with an uploaded scene can be large; false means localStorage is full
+export const saveBrandKits = (kits: BrandKit[]) => saveJson(STORAGE_KEY, kits);
@@ -0,0 +1,118 @@
+import { CameraControlSettings } from "../types";
+import { loadJson, saveJson } from "./localStore";
+
+// Pro camera controls on top of MediaStreamTrack image-capture constraints.
+// Support varies wildly between browsers and devices, so every control is
+// looked up in track.getCapabilities() and hidden when missing.
+
+const STORAGE_KEY = 'camera-controls';
+
+export interface RangeCapability {
+  min: number;
+  max: number;
+  step: number;
+}
+
+// The capability fields this app uses; none of them are in the DOM typings yet
+export interface CameraCapabilities {
+  exposureMode?: string[];
+  exposureCompensation?: RangeCapability;
+  exposureTime?: RangeCapability;
+  iso?: RangeCapability;
+  whiteBalanceMode?: string[];
+  colorTemperature?: RangeCapability;
+  zoom?: RangeCapability;
+  torch?: boolean;
+  focusMode?: string[];
+  pointsOfInterest?: unknown;
+}
+
+export const getCapabilities = (track: MediaStreamTrack): CameraCapabilities =>
+  (track.getCapabilities ? track.getCapabilities() : {}) as CameraCapabilities;
+
+const isRange = (value: unknown): value is RangeCapability =>
+  !!value && typeof (value as RangeCapability).min === 'number' && (value as RangeCapability).max > (value as RangeCapability).min;
+
+export const getRange = (capabilities: CameraCapabilities, key: 'exposureCompensation' | 'exposureTime' | 'iso' | 'colorTemperature' | 'zoom'): RangeCapability | null => {
+  const range = capabilities[key];
+  return isRange(range) ? { ...range, step: range.step || (range.max - range.min) / 100 } : null;
+};
+
+export const supportsMode = (capabilities: CameraCapabilities, key: 'exposureMode' | 'whiteBalanceMode' | 'focusMode', mode: string) =>
+  !!capabilities[key]?.includes(mode);
+
+export const supportsManualExposure = (capabilities: CameraCapabilities) =>
+  supportsMode(capabilities, 'exposureMode', 'manual') && !!(getRange(capabilities, 'exposureTime') || getRange(capabilities, 'iso'));
+
+export const supportsManualWhiteBalance = (capabilities: CameraCapabilities) =>
+  supportsMode(capabilities, 'whiteBalanceMode', 'manual') && !!getRange(capabilities, 'colorTemperature');
+
+// Tap-to-focus needs a focus point, plus a mode that refocuses on it
+export const supportsTapToFocus = (capabilities: CameraCapabilities) =>
+  capabilities.pointsOfInterest !== undefined
+  && (supportsMode(capabilities, 'focusMode', 'single-shot') || supportsMode(capabilities, 'focusMode', 'continuous'));
+
+export const hasAnyControl = (capabilities: CameraCapabilities) =>
+  !!(getRange(capabilities, 'exposureCompensation') || supportsManualExposure(capabilities) || supportsManualWhiteBalance(capabilities)
+    || getRange(capabilities, 'zoom') || capabilities.torch);
+
+/**
+ * Turns saved settings into one constraint set, skipping anything the
+ * device can't do so a stale setting from another browser can't make
+ * applyConstraints fail.
+ */
+export const toConstraintSet = (controls: CameraControlSettings, capabilities: CameraCapabilities): Record<string, unknown> => {
+  const set: Record<string, unknown> = {};
+  const clamp = (value: number, range: RangeCapability) => Math.min(range.max, Math.max(range.min, value));
+
+  const manualExposure = controls.exposureMode === 'manual' && supportsManualExposure(capabilities);
+  if (controls.exposureMode && supportsMode(capabilities, 'exposureMode', controls.exposureMode)) {
+    set.exposureMode = manualExposure ? 'manual' : 'continuous';
+  }
+  const exposureTime = getRange(capabilities, 'exposureTime');
+  const iso = getRange(capabilities, 'iso');
+  const compensation = getRange(capabilities, 'exposureCompensation');
+  if (manualExposure) {
+    if (exposureTime && controls.exposureTime !== undefined) set.exposureTime = clamp(controls.exposureTime, exposureTime);
+    if (iso && controls.iso !== undefined) set.iso = clamp(controls.iso, iso);
+  } else if (compensation && controls.exposureCompensation !== undefined) {
+    set.exposureCompensation = clamp(controls.exposureCompensation, compensation);
+  }
+
+  const manualWhiteBalance = controls.whiteBalanceMode === 'manual' && supportsManualWhiteBalance(capabilities);
+  if (controls.whiteBalanceMode && supportsMode(capabilities, 'whiteBalanceMode', controls.whiteBalanceMode)) {
+    set.whiteBalanceMode = manualWhiteBalance ? 'manual' : 'continuous';
+  }
+  const temperature = getRange(capabilities, 'colorTemperature');
+  if (manualWhiteBalance && temperature && controls.colorTemperature !== undefined) {
+    set.colorTemperature = clamp(controls.colorTemperature, temperature);
+  }
+
+  const zoom = getRange(capabilities, 'zoom');
+  if (zoom && controls.zoom !== undefined) set.zoom = clamp(controls.zoom, zoom);
+  if (capabilities.torch && controls.torch !== undefined) set.torch = controls.torch;
+  return set;
+};
+
+export const applyCameraControls = async (track: MediaStreamTrack, controls: CameraControlSettings) => {
+  const set = toConstraintSet(controls, getCapabilities(track));
+  if (Object.keys(set).length === 0) return;
+  await track.applyConstraints({ advanced: [set] } as MediaTrackConstraints);
+};
+
+/**
+ * Focuses on a point of the preview; x and y are 0..1 across the video frame.
+ */
+export const focusAt = async (track: MediaStreamTrack, x: number, y: number) => {
+  const capabilities = getCapabilities(track);
+  const focusMode = supportsMode(capabilities, 'focusMode', 'single-shot') ? 'single-shot' : 'continuous';
+  await track.applyConstraints({ advanced: [{ focusMode, pointsOfInterest: [{ x, y }] }] } as unknown as MediaTrackConstraints);
+};
+
+// Settings per deviceId, since two cameras rarely share sensible values
+const loadAll = () => loadJson<Record<string, CameraControlSettings>>(STORAGE_KEY, {});
+
+export const loadCameraControls = (deviceId: string): CameraControlSettings => loadAll()[deviceId] || {};
+
+export const saveCameraControls = (deviceId: string, controls: CameraControlSettings): boolean =>
+  saveJson(STORAGE_KEY, { ...loadAll(), [deviceId]: controls });
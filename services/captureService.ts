@@ -0,0 +1,88 @@
+import { CaptureMode } from "../types";
+import { CropRect } from "./imageUtils";
+
+// Capture assistance: self-timer, burst with sharpest-frame selection, and
+// auto-capture once the frame holds still. All scoring runs on small
+// grayscale copies of the video frame.
+
+export const CAPTURE_MODES: { mode: CaptureMode; label: string; hint: string }[] = [
+  { mode: 'instant', label: 'Single', hint: 'Capture immediately' },
+  { mode: 'timer2', label: '2s', hint: 'Self-timer, 2 seconds' },
+  { mode: 'timer5', label: '5s', hint: 'Self-timer, 5 seconds' },
+  { mode: 'burst', label: 'Burst', hint: 'Take several frames and keep the sharpest' },
+  { mode: 'stable', label: 'Steady', hint: 'Capture once the camera holds still' },
+];
+
+export const TIMER_SECONDS: Partial<Record<CaptureMode, number>> = { timer2: 2, timer5: 5 };
+
+export const BURST_FRAMES = 6;
+export const BURST_INTERVAL_MS = 90;
+
+export const STABILITY_INTERVAL_MS = 120;
+export const STABILITY_HOLD_MS = 800; // How long the frame must stay still
+const STABILITY_THRESHOLD = 3; // Mean absolute luma change per pixel (0-255) that still counts as still
+
+const SHARPNESS_EDGE = 480;
+const STABILITY_EDGE = 64;
+
+export interface GrayFrame {
+  width: number;
+  height: number;
+  gray: Float32Array;
+}
+
+/**
+ * Downscaled grayscale copy of `crop` from a video or canvas.
+ */
+export const sampleGray = (source: CanvasImageSource, crop: CropRect, longEdge: number): GrayFrame => {
+  const scale = Math.min(1, longEdge / Math.max(crop.width, crop.height));
+  const width = Math.max(1, Math.round(crop.width * scale));
+  const height = Math.max(1, Math.round(crop.height * scale));
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) throw new Error("Canvas not supported in this browser.");
+  ctx.drawImage(source, crop.x, crop.y, crop.width, crop.height, 0, 0, width, height);
+
+  const rgba = ctx.getImageData(0, 0, width, height).data;
+  const gray = new Float32Array(width * height);
+  for (let i = 0; i < gray.length; i++) {
+    gray[i] = 0.299 * rgba[i * 4] + 0.587 * rgba[i * 4 + 1] + 0.114 * rgba[i * 4 + 2];
+  }
+  return { width, height, gray };
+};
+
+/**
+ * Variance of the 4-neighbour Laplacian: high for crisp edges, low for blur.
+ */
+export const laplacianVariance = ({ width, height, gray }: GrayFrame): number => {
+  let sum = 0;
+  let sumSq = 0;
+  let count = 0;
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const i = y * width + x;
+      const lap = gray[i - 1] + gray[i + 1] + gray[i - width] + gray[i + width] - 4 * gray[i];
+      sum += lap;
+      sumSq += lap * lap;
+      count++;
+    }
+  }
+  if (count === 0) return 0;
+  const mean = sum / count;
+  return sumSq / count - mean * mean;
+};
+
+export const scoreSharpness = (source: CanvasImageSource, crop: CropRect) =>
+  laplacianVariance(sampleGray(source, crop, SHARPNESS_EDGE));
+
+export const sampleMotion = (source: CanvasImageSource, crop: CropRect) =>
+  sampleGray(source, crop, STABILITY_EDGE);
+
+export const isStill = (previous: GrayFrame, current: GrayFrame): boolean => {
+  if (previous.gray.length !== current.gray.length) return false;
+  let diff = 0;
+  for (let i = 0; i < current.gray.length; i++) diff += Math.abs(current.gray[i] - previous.gray[i]);
+  return diff / current.gray.length < STABILITY_THRESHOLD;
+};
@@ -0,0 +1,123 @@
+import { LightingDirection } from "../types";
+import { LIGHT_VECTORS } from "./lightingService";
+import { CropRect } from "./imageUtils";
+
+// Pixel-exact compositing: the product pixels of the capture are cut out with
+// the subject mask and laid, unchanged and in place, over a generated plate,
+// with a drop shadow and contact shadow synthesised from the mask.
+
+const SHADOW_OPACITY = 0.45;
+const CONTACT_OPACITY = 0.35;
+
+const loadImage = (src: string): Promise<HTMLImageElement> =>
+  new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error("Could not decode image for compositing."));
+    img.src = src;
+  });
+
+const createCanvas = (width: number, height: number) => {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error("Canvas not supported in this browser.");
+  return { canvas, ctx };
+};
+
+// Mask luminance becomes alpha: returns the product cut-out and the bounds of the opaque part
+const cutOut = (product: HTMLImageElement, mask: HTMLImageElement) => {
+  const { naturalWidth: width, naturalHeight: height } = product;
+  const { canvas, ctx } = createCanvas(width, height);
+  ctx.drawImage(mask, 0, 0, width, height);
+  const maskData = ctx.getImageData(0, 0, width, height).data;
+  ctx.drawImage(product, 0, 0);
+  const pixels = ctx.getImageData(0, 0, width, height);
+
+  let minX = width, minY = height, maxX = -1, maxY = -1;
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = (y * width + x) * 4;
+      pixels.data[i + 3] = maskData[i];
+      if (maskData[i] > 127) {
+        if (x < minX) minX = x;
+        if (x > maxX) maxX = x;
+        if (y < minY) minY = y;
+        if (y > maxY) maxY = y;
+      }
+    }
+  }
+  ctx.putImageData(pixels, 0, 0);
+  const bounds: CropRect | null = maxX < 0 ? null : { x: minX, y: minY, width: maxX - minX + 1, height: maxY - minY + 1 };
+  return { canvas, bounds };
+};
+
+/**
+ * Applies a subject mask to a capture and returns the cut-out on a
+ * transparent canvas of the same size.
+ */
+export const applyMask = async (productUrl: string, maskUrl: string): Promise<HTMLCanvasElement> => {
+  const [product, mask] = await Promise.all([loadImage(productUrl), loadImage(maskUrl)]);
+  return cutOut(product, mask).canvas;
+};
+
+/**
+ * Lays the masked product from `productUrl` over `plateUrl` at the capture's
+ * size and position. Returns a PNG data URL.
+ */
+export const compositeOnPlate = async (
+  productUrl: string,
+  maskUrl: string,
+  plateUrl: string,
+  direction: LightingDirection
+): Promise<string> => {
+  const [product, mask, plate] = await Promise.all([loadImage(productUrl), loadImage(maskUrl), loadImage(plateUrl)]);
+  const { naturalWidth: width, naturalHeight: height } = product;
+  const { canvas, ctx } = createCanvas(width, height);
+  const longEdge = Math.max(width, height);
+
+  // Plate: cover fit
+  const scale = Math.max(width / plate.naturalWidth, height / plate.naturalHeight);
+  ctx.imageSmoothingQuality = 'high';
+  ctx.drawImage(plate, (width - plate.naturalWidth * scale) / 2, (height - plate.naturalHeight * scale) / 2, plate.naturalWidth * scale, plate.naturalHeight * scale);
+
+  const { canvas: cut, bounds } = cutOut(product, mask);
+
+  if (bounds) {
+    // Drop shadow: the silhouette, darkened, blurred and pushed away from the light
+    const silhouette = createCanvas(width, height);
+    silhouette.ctx.drawImage(cut, 0, 0);
+    silhouette.ctx.globalCompositeOperation = 'source-in';
+    silhouette.ctx.fillStyle = '#000000';
+    silhouette.ctx.fillRect(0, 0, width, height);
+
+    const [lx, ly] = LIGHT_VECTORS[direction] || [0, -1];
+    ctx.save();
+    ctx.globalAlpha = SHADOW_OPACITY;
+    ctx.filter = `blur(${Math.round(longEdge * 0.02)}px)`;
+    ctx.drawImage(silhouette.canvas, -lx * longEdge * 0.02, -ly * longEdge * 0.02 + longEdge * 0.01);
+    ctx.restore();
+
+    // Contact shadow where the product meets the surface
+    const cx = bounds.x + bounds.width / 2;
+    const cy = bounds.y + bounds.height;
+    const rx = bounds.width * 0.5;
+    const ry = Math.max(2, bounds.height * 0.04);
+    ctx.save();
+    ctx.translate(cx, cy);
+    ctx.scale(1, ry / rx);
+    const contact = ctx.createRadialGradient(0, 0, 0, 0, 0, rx);
+    contact.addColorStop(0, `rgba(0, 0, 0, ${CONTACT_OPACITY})`);
+    contact.addColorStop(1, 'rgba(0, 0, 0, 0)');
+    ctx.fillStyle = contact;
+    ctx.beginPath();
+    ctx.arc(0, 0, rx, 0, Math.PI * 2);
+    ctx.fill();
+    ctx.restore();
+  }
+
+  // The product itself: original pixels, original position
+  ctx.drawImage(cut, 0, 0);
+  return canvas.toDataURL('image/png');
+};
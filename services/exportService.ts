@@ -0,0 +1,336 @@
+import { ExportFormat, ExportProfile, GeneratedImage } from "../types";
+import { loadJson, saveJson } from "./localStore";
+import { RGB, colorDistance, estimateBackdropColor, findForegroundBounds } from "./imageUtils";
+import { ZipEntry, createZip } from "./zipService";
+import { dataUrlToBlob } from "./storageService";
+import { embedMetadata, toShotMetadata } from "./metadataService";
+
+const STORAGE_KEY = 'export-profiles';
+
+const ANALYSIS_EDGE = 400; // Long edge used to find the backdrop and product
+const FOREGROUND_DISTANCE = 40;
+const BACKDROP_TOLERANCE = 28; // RGB distance still treated as backdrop when whitening
+const MIN_QUALITY = 0.4;
+const QUALITY_STEP = 0.07;
+const WHITE: RGB = [255, 255, 255];
+
+export const BUILT_IN_EXPORT_PROFILES: ExportProfile[] = [
+  {
+    id: 'amazon-main',
+    name: 'Amazon Main Image',
+    width: 2000,
+    height: 2000,
+    format: 'jpeg',
+    quality: 0.92,
+    maxBytes: 10 * 1024 * 1024,
+    whiteBackground: true,
+    minProductFill: 0.85,
+  },
+  {
+    id: 'shopify-product',
+    name: 'Shopify Product',
+    width: 2048,
+    height: 2048,
+    format: 'jpeg',
+    quality: 0.9,
+    maxBytes: 20 * 1024 * 1024,
+    whiteBackground: false,
+  },
+  {
+    id: 'etsy-listing',
+    name: 'Etsy Listing',
+    width: 2700,
+    height: 2025,
+    format: 'jpeg',
+    quality: 0.9,
+    maxBytes: 1024 * 1024,
+    whiteBackground: false,
+  },
+];
+
+export const FORMAT_EXTENSIONS: Record<ExportFormat, string> = { jpeg: 'jpg', webp: 'webp', png: 'png' };
+
+export interface ExportResult {
+  blob: Blob;
+  filename: string;
+  quality: number; // Quality the file was finally encoded at
+  withinLimit: boolean; // False if even the lowest quality exceeded maxBytes
+}
+
+const slugify = (text: string) =>
+  text.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '');
+
+const formatStamp = (timestamp: number) => {
+  const d = new Date(timestamp);
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${d.getFullYear()}${pad(d.getMonth() + 1)}${pad(d.getDate())}-${pad(d.getHours())}${pad(d.getMinutes())}${pad(d.getSeconds())}`;
+};
+
+/**
+ * e.g. "studio-white-softbox-amazon-main-image-20250101-093000.jpg";
+ * product set shots start with their angle.
+ */
+export const buildExportFilename = (image: GeneratedImage, extension: string, suffix?: string) =>
+  [image.productSet?.angle, image.settings.backgroundName, image.settings.lightingName, suffix, formatStamp(image.timestamp)]
+    .filter((part): part is string => !!part)
+    .map(slugify)
+    .filter(Boolean)
+    .join('-') + `.${extension}`;
+
+const loadImage = (src: string): Promise<HTMLImageElement> =>
+  new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error("Could not decode image for export."));
+    img.src = src;
+  });
+
+const toBlob = (canvas: HTMLCanvasElement, format: ExportFormat, quality: number): Promise<Blob> =>
+  new Promise((resolve, reject) => {
+    canvas.toBlob(
+      blob => blob ? resolve(blob) : reject(new Error(`This browser can't encode ${format.toUpperCase()}.`)),
+      `image/${format}`,
+      quality
+    );
+  });
+
+// Backdrop colour and product bounds (in source pixels), from a small copy of the image
+const analyze = (img: HTMLImageElement) => {
+  const scale = Math.min(1, ANALYSIS_EDGE / Math.max(img.naturalWidth, img.naturalHeight));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(img.naturalWidth * scale));
+  canvas.height = Math.max(1, Math.round(img.naturalHeight * scale));
+  const ctx = canvas.getContext('2d')!;
+  ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+  const { data } = ctx.getImageData(0, 0, canvas.width, canvas.height);
+
+  const backdrop = estimateBackdropColor(data, canvas.width, canvas.height);
+  const bounds = findForegroundBounds(data, canvas.width, canvas.height, backdrop, FOREGROUND_DISTANCE);
+  return {
+    backdrop,
+    bounds: bounds && { x: bounds.x / scale, y: bounds.y / scale, width: bounds.width / scale, height: bounds.height / scale },
+  };
+};
+
+/**
+ * Turns the backdrop pure white. Only backdrop connected to the image edges
+ * is filled, so light areas inside the product keep their colour; pixels on
+ * the boundary are blended for a soft edge.
+ */
+const whitenBackdrop = (ctx: CanvasRenderingContext2D, width: number, height: number, backdrop: RGB) => {
+  const imageData = ctx.getImageData(0, 0, width, height);
+  const { data } = imageData;
+  const visited = new Uint8Array(width * height);
+  const stack: number[] = [];
+
+  const push = (p: number) => {
+    if (!visited[p]) {
+      visited[p] = 1;
+      stack.push(p);
+    }
+  };
+  for (let x = 0; x < width; x++) { push(x); push((height - 1) * width + x); }
+  for (let y = 0; y < height; y++) { push(y * width); push(y * width + width - 1); }
+
+  while (stack.length > 0) {
+    const p = stack.pop()!;
+    const i = p * 4;
+    // White padding around the shot is passed through so the fill reaches the backdrop behind it
+    const distance = colorDistance(data, i, WHITE) < BACKDROP_TOLERANCE ? 0 : colorDistance(data, i, backdrop);
+    if (distance >= BACKDROP_TOLERANCE * 2) continue;
+
+    // Fully backdrop -> white; near-backdrop edge pixels are only lightened and stop the fill
+    const t = distance < BACKDROP_TOLERANCE ? 1 : 1 - (distance - BACKDROP_TOLERANCE) / BACKDROP_TOLERANCE;
+    for (let c = 0; c < 3; c++) data[i + c] = Math.round(data[i + c] + (255 - data[i + c]) * t);
+    if (t < 1) continue;
+
+    const x = p % width;
+    const y = (p - x) / width;
+    if (x > 0) push(p - 1);
+    if (x < width - 1) push(p + 1);
+    if (y > 0) push(p - width);
+    if (y < height - 1) push(p + width);
+  }
+  ctx.putImageData(imageData, 0, 0);
+};
+
+/**
+ * Renders a gallery image to the exact size, background, fill and format of
+ * an export profile, lowering quality until the file fits under maxBytes.
+ */
+export const renderExport = async (image: GeneratedImage, profile: ExportProfile): Promise<ExportResult> => {
+  const img = await loadImage(image.generatedUrl);
+  const { backdrop, bounds } = analyze(img);
+  const { width, height } = profile;
+
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error("Canvas not supported in this browser.");
+
+  // Pad with white, or with the shot's own backdrop so a new ratio doesn't leave visible bars
+  ctx.fillStyle = profile.whiteBackground ? '#FFFFFF' : `rgb(${backdrop.join(',')})`;
+  ctx.fillRect(0, 0, width, height);
+
+  // Fit the whole shot; zoom in around the product if it would span less than minProductFill
+  let scale = Math.min(width / img.naturalWidth, height / img.naturalHeight);
+  let centerX = img.naturalWidth / 2;
+  let centerY = img.naturalHeight / 2;
+  if (bounds && profile.minProductFill) {
+    const fillScale = Math.min(profile.minProductFill * width / bounds.width, profile.minProductFill * height / bounds.height);
+    if (fillScale > scale) {
+      scale = fillScale;
+      centerX = bounds.x + bounds.width / 2;
+      centerY = bounds.y + bounds.height / 2;
+    }
+  }
+  ctx.imageSmoothingQuality = 'high';
+  ctx.drawImage(img, width / 2 - centerX * scale, height / 2 - centerY * scale, img.naturalWidth * scale, img.naturalHeight * scale);
+
+  if (profile.whiteBackground) whitenBackdrop(ctx, width, height, backdrop);
+
+  // Metadata is embedded before the size check so it counts towards maxBytes
+  const metadata = toShotMetadata(image);
+  const encode = async (q: number) => embedMetadata(await toBlob(canvas, profile.format, q), metadata);
+
+  let quality = profile.quality;
+  let blob = await encode(quality);
+  // PNG is lossless, so quality can't bring it under the cap
+  while (profile.maxBytes && blob.size > profile.maxBytes && profile.format !== 'png' && quality - QUALITY_STEP >= MIN_QUALITY) {
+    quality -= QUALITY_STEP;
+    blob = await encode(quality);
+  }
+
+  return {
+    blob,
+    filename: buildExportFilename(image, FORMAT_EXTENSIONS[profile.format], profile.name),
+    quality,
+    withinLimit: !profile.maxBytes || blob.size <= profile.maxBytes,
+  };
+};
+
+export const downloadBlob = (filename: string, blob: Blob) => {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  a.click();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+const extensionOf = (dataUrl: string) => {
+  const type = dataUrl.match(/^data:image\/([a-z]+)/i)?.[1].toLowerCase() || 'png';
+  return type === 'jpeg' ? 'jpg' : type;
+};
+
+// The generated file as-is, plus the settings it was made with
+const taggedShot = async (image: GeneratedImage) => embedMetadata(await dataUrlToBlob(image.generatedUrl), toShotMetadata(image));
+
+/**
+ * Downloads a shot at its original size with its settings embedded.
+ */
+export const downloadShot = async (image: GeneratedImage) =>
+  downloadBlob(buildExportFilename(image, extensionOf(image.generatedUrl)), await taggedShot(image));
+
+export const createExportProfile = (fields: Omit<ExportProfile, 'id'>, id?: string): ExportProfile => ({
+  ...fields,
+  id: id || `user-export-${Date.now().toString(36)}`,
+});
+
+const isValidProfile = (p: any): p is ExportProfile =>
+  p && typeof p.id === 'string' && typeof p.name === 'string'
+  && p.width > 0 && p.height > 0 && Object.prototype.hasOwnProperty.call(FORMAT_EXTENSIONS, p.format);
+
+// Built-ins are only the starting list; once edited, the saved list wins
+export const loadExportProfiles = (): ExportProfile[] => {
+  const saved = loadJson<ExportProfile[] | null>(STORAGE_KEY, null);
+  return saved ? saved.filter(isValidProfile) : BUILT_IN_EXPORT_PROFILES;
+};
+
+export const saveExportProfiles = (profiles: ExportProfile[]) => saveJson(STORAGE_KEY, profiles);
+
+export interface ManifestEntry {
+  id: string;
+  timestamp: number;
+  date: string; // ISO 8601
+  file: string;
+  original?: string;
+  background: string;
+  backgroundValue: string;
+  lighting: string;
+  direction: string;
+  aspectRatio: string;
+  model?: string;
+  productSet?: string;
+  angle?: string;
+}
+
+const MANIFEST_COLUMNS: (keyof ManifestEntry)[] = [
+  'id', 'timestamp', 'date', 'file', 'original', 'background', 'backgroundValue', 'lighting', 'direction', 'aspectRatio', 'model', 'productSet', 'angle',
+];
+
+const dataUrlToBytes = async (dataUrl: string) => new Uint8Array(await (await dataUrlToBlob(dataUrl)).arrayBuffer());
+
+const csvCell = (value: unknown) => {
+  const text = value === undefined || value === null ? '' : String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const toManifestCsv = (entries: ManifestEntry[]) =>
+  [MANIFEST_COLUMNS.join(','), ...entries.map(entry => MANIFEST_COLUMNS.map(col => csvCell(entry[col])).join(','))].join('\n');
+
+/**
+ * Packs the given shots (and optionally their original captures) into a ZIP
+ * with manifest.json and manifest.csv describing each one.
+ */
+export const exportZip = async (images: GeneratedImage[], { includeOriginals }: { includeOriginals: boolean }): Promise<Blob> => {
+  const entries: ZipEntry[] = [];
+  const manifest: ManifestEntry[] = [];
+  const usedNames = new Set<string>();
+
+  // Batch shots can share background, lighting and second; number the repeats
+  const uniqueName = (folder: string, filename: string) => {
+    const dot = filename.lastIndexOf('.');
+    let name = `${folder}/${filename}`;
+    for (let n = 2; usedNames.has(name); n++) name = `${folder}/${filename.slice(0, dot)}-${n}${filename.slice(dot)}`;
+    usedNames.add(name);
+    return name;
+  };
+
+  for (const image of images) {
+    const modified = new Date(image.timestamp);
+    const file = uniqueName('images', buildExportFilename(image, extensionOf(image.generatedUrl)));
+    entries.push({ name: file, data: new Uint8Array(await (await taggedShot(image)).arrayBuffer()), modified });
+
+    let original: string | undefined;
+    if (includeOriginals) {
+      original = uniqueName('originals', buildExportFilename(image, extensionOf(image.originalUrl), 'original'));
+      entries.push({ name: original, data: await dataUrlToBytes(image.originalUrl), modified });
+    }
+
+    manifest.push({
+      id: image.id,
+      timestamp: image.timestamp,
+      date: modified.toISOString(),
+      file,
+      original,
+      background: image.settings.backgroundName,
+      backgroundValue: image.settings.value,
+      lighting: image.settings.lightingName || '',
+      direction: image.settings.lightingDirection || '',
+      aspectRatio: image.settings.aspectRatio || '',
+      model: image.generation?.model,
+      productSet: image.productSet?.name,
+      angle: image.productSet?.angle,
+    });
+  }
+
+  const encoder = new TextEncoder();
+  entries.push({ name: 'manifest.json', data: encoder.encode(JSON.stringify(manifest, null, 2)) });
+  entries.push({ name: 'manifest.csv', data: encoder.encode(toManifestCsv(manifest)) });
+  return createZip(entries);
+};
+
+export const buildZipFilename = (label?: string) =>
+  `${['studio-shots', label].filter(Boolean).map(part => slugify(part!)).join('-')}-${formatStamp(Date.now())}.zip`;
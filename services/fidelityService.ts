@@ -0,0 +1,260 @@
+import { FidelityReport, FidelitySettings } from "../types";
+import { loadJson, saveJson } from "./localStore";
+import { CropRect, estimateBackdropColor, findForegroundBounds } from "./imageUtils";
+
+// Product-fidelity check: finds the product in the generated shot, locates the
+// same region in the original capture, and scores how much of its structure
+// (labels, logos, edges) survived. Everything runs locally on small canvases.
+
+const STORAGE_KEY = 'fidelity-settings';
+
+export const DEFAULT_FIDELITY_SETTINGS: FidelitySettings = {
+  enabled: true,
+  threshold: 0.6,
+  autoRegenerate: false,
+  maxRegenerations: 1,
+};
+
+const WORK_EDGE = 320; // Long edge used for SSIM; the alignment search runs at half of it
+const MATCH_GRID = 24; // Template samples along the product's long side
+const SSIM_GRID = 96;
+const SSIM_WINDOW = 8;
+const FOREGROUND_DISTANCE = 48; // RGB distance from the backdrop that counts as product
+
+interface WorkImage {
+  width: number;
+  height: number;
+  gray: Float32Array;
+  rgba: Uint8ClampedArray;
+}
+
+type Rect = CropRect;
+
+const loadImage = (src: string): Promise<HTMLImageElement> =>
+  new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error("Could not decode image for the fidelity check."));
+    img.src = src;
+  });
+
+const toWorkImage = async (src: string, longEdge: number): Promise<WorkImage> => {
+  const img = await loadImage(src);
+  const scale = longEdge / Math.max(img.naturalWidth, img.naturalHeight);
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(img.naturalWidth * scale));
+  canvas.height = Math.max(1, Math.round(img.naturalHeight * scale));
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error("Canvas not supported in this browser.");
+  ctx.imageSmoothingQuality = 'high';
+  ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+
+  const { data } = ctx.getImageData(0, 0, canvas.width, canvas.height);
+  const gray = new Float32Array(canvas.width * canvas.height);
+  for (let i = 0; i < gray.length; i++) {
+    gray[i] = 0.299 * data[i * 4] + 0.587 * data[i * 4 + 1] + 0.114 * data[i * 4 + 2];
+  }
+  return { width: canvas.width, height: canvas.height, gray, rgba: data };
+};
+
+// 2x box downsample of the grayscale plane
+const halve = (image: WorkImage): WorkImage => {
+  const width = Math.floor(image.width / 2);
+  const height = Math.floor(image.height / 2);
+  const gray = new Float32Array(width * height);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = y * 2 * image.width + x * 2;
+      gray[y * width + x] = (image.gray[i] + image.gray[i + 1] + image.gray[i + image.width] + image.gray[i + image.width + 1]) / 4;
+    }
+  }
+  return { width, height, gray, rgba: new Uint8ClampedArray(0) };
+};
+
+/**
+ * Bounding box of the product in a generated shot, found by comparing every
+ * pixel with the backdrop colour sampled along the border.
+ */
+const findProduct = ({ rgba, width, height }: WorkImage): Rect | null =>
+  findForegroundBounds(rgba, width, height, estimateBackdropColor(rgba, width, height), FOREGROUND_DISTANCE);
+
+// Nearest-neighbour samples of `rect` on a cols x rows grid, normalised to zero mean / unit variance
+const sampleGrid = (image: { width: number; height: number; gray: Float32Array }, rect: Rect, cols: number, rows: number): Float32Array => {
+  const out = new Float32Array(cols * rows);
+  let mean = 0;
+  for (let r = 0; r < rows; r++) {
+    const y = Math.min(image.height - 1, Math.floor(rect.y + (r + 0.5) * rect.height / rows));
+    for (let c = 0; c < cols; c++) {
+      const x = Math.min(image.width - 1, Math.floor(rect.x + (c + 0.5) * rect.width / cols));
+      const v = image.gray[y * image.width + x];
+      out[r * cols + c] = v;
+      mean += v;
+    }
+  }
+  mean /= out.length;
+  let variance = 0;
+  for (let i = 0; i < out.length; i++) {
+    out[i] -= mean;
+    variance += out[i] * out[i];
+  }
+  const std = Math.sqrt(variance / out.length) || 1;
+  for (let i = 0; i < out.length; i++) out[i] /= std;
+  return out;
+};
+
+const correlate = (a: Float32Array, b: Float32Array) => {
+  let sum = 0;
+  for (let i = 0; i < a.length; i++) sum += a[i] * b[i];
+  return sum / a.length;
+};
+
+/**
+ * Searches the original for the region that best matches the product crop
+ * (normalised cross-correlation over a range of scales and positions).
+ */
+const alignInOriginal = (original: WorkImage, generated: WorkImage, product: Rect): Rect => {
+  const landscape = product.width >= product.height;
+  const cols = landscape ? MATCH_GRID : Math.max(6, Math.round(MATCH_GRID * product.width / product.height));
+  const rows = landscape ? Math.max(6, Math.round(MATCH_GRID * product.height / product.width)) : MATCH_GRID;
+  const template = sampleGrid(generated, product, cols, rows);
+
+  let best = { score: -Infinity, rect: product };
+  const tryRect = (rect: Rect) => {
+    const score = correlate(template, sampleGrid(original, rect, cols, rows));
+    if (score > best.score) best = { score, rect };
+  };
+
+  // Coarse search...
+  for (let scale = 0.5; scale <= 1.6; scale += 0.1) {
+    const width = product.width * scale;
+    const height = product.height * scale;
+    if (width > original.width || height > original.height) continue;
+    for (let y = 0; y + height <= original.height; y += 3) {
+      for (let x = 0; x + width <= original.width; x += 3) {
+        tryRect({ x, y, width, height });
+      }
+    }
+  }
+  // ...then refine around the winner
+  const coarse = best.rect;
+  for (let scale = 0.95; scale <= 1.05; scale += 0.025) {
+    const width = coarse.width * scale;
+    const height = coarse.height * scale;
+    for (let dy = -3; dy <= 3; dy++) {
+      for (let dx = -3; dx <= 3; dx++) {
+        const x = coarse.x + dx;
+        const y = coarse.y + dy;
+        if (x >= 0 && y >= 0 && x + width <= original.width && y + height <= original.height) {
+          tryRect({ x, y, width, height });
+        }
+      }
+    }
+  }
+  return best.rect;
+};
+
+/**
+ * Mean SSIM over sliding windows. Both inputs are already normalised to the
+ * same mean and contrast, so a relit product isn't penalised for its new
+ * lighting — only for changed structure.
+ */
+const ssim = (a: Float32Array, b: Float32Array, cols: number, rows: number): number => {
+  const C1 = 0.01 ** 2;
+  const C2 = 0.03 ** 2;
+  const step = SSIM_WINDOW / 2;
+  let total = 0;
+  let count = 0;
+
+  for (let wy = 0; wy + SSIM_WINDOW <= rows; wy += step) {
+    for (let wx = 0; wx + SSIM_WINDOW <= cols; wx += step) {
+      let ma = 0, mb = 0;
+      for (let y = wy; y < wy + SSIM_WINDOW; y++) {
+        for (let x = wx; x < wx + SSIM_WINDOW; x++) {
+          ma += a[y * cols + x];
+          mb += b[y * cols + x];
+        }
+      }
+      const n = SSIM_WINDOW * SSIM_WINDOW;
+      ma /= n;
+      mb /= n;
+      let va = 0, vb = 0, cov = 0;
+      for (let y = wy; y < wy + SSIM_WINDOW; y++) {
+        for (let x = wx; x < wx + SSIM_WINDOW; x++) {
+          const da = a[y * cols + x] - ma;
+          const db = b[y * cols + x] - mb;
+          va += da * da;
+          vb += db * db;
+          cov += da * db;
+        }
+      }
+      va /= n - 1;
+      vb /= n - 1;
+      cov /= n - 1;
+      total += ((2 * ma * mb + C1) * (2 * cov + C2)) / ((ma * ma + mb * mb + C1) * (va + vb + C2));
+      count++;
+    }
+  }
+  return count > 0 ? total / count : 0;
+};
+
+// 64-bit difference hash of a crop; returns the Hamming distance between two crops
+const dHashDistance = (a: WorkImage, ra: Rect, b: WorkImage, rb: Rect): number => {
+  const ga = sampleGrid(a, ra, 9, 8);
+  const gb = sampleGrid(b, rb, 9, 8);
+  let distance = 0;
+  for (let y = 0; y < 8; y++) {
+    for (let x = 0; x < 8; x++) {
+      const bitA = ga[y * 9 + x] < ga[y * 9 + x + 1];
+      const bitB = gb[y * 9 + x] < gb[y * 9 + x + 1];
+      if (bitA !== bitB) distance++;
+    }
+  }
+  return distance;
+};
+
+const scaleRect = (rect: Rect, factor: number): Rect =>
+  ({ x: rect.x * factor, y: rect.y * factor, width: rect.width * factor, height: rect.height * factor });
+
+/**
+ * Scores how faithfully `generatedUrl` reproduces the product in `originalUrl`.
+ * Returns null when no product can be isolated in the generated shot
+ * (e.g. a busy scene with no clear backdrop).
+ */
+export const checkFidelity = async (originalUrl: string, generatedUrl: string): Promise<FidelityReport | null> => {
+  const [original, generated] = await Promise.all([toWorkImage(originalUrl, WORK_EDGE), toWorkImage(generatedUrl, WORK_EDGE)]);
+  const smallOriginal = halve(original);
+  const smallGenerated = halve(generated);
+
+  const product = findProduct(generated);
+  if (!product) return null;
+
+  const factor = smallGenerated.width / generated.width;
+  const match = alignInOriginal(smallOriginal, smallGenerated, scaleRect(product, factor));
+  const originalRect = scaleRect(match, original.width / smallOriginal.width);
+
+  const landscape = product.width >= product.height;
+  const cols = landscape ? SSIM_GRID : Math.round(SSIM_GRID * product.width / product.height);
+  const rows = landscape ? Math.round(SSIM_GRID * product.height / product.width) : SSIM_GRID;
+  // Normalised samples are ~N(0,1); rescale to 0..1 so the SSIM constants behave
+  const toUnit = (values: Float32Array) => values.map(v => Math.max(0, Math.min(1, 0.5 + v / 6)));
+  const score = ssim(
+    toUnit(sampleGrid(generated, product, cols, rows)),
+    toUnit(sampleGrid(original, originalRect, cols, rows)),
+    cols,
+    rows
+  );
+
+  return {
+    score: Math.max(0, Math.min(1, score)),
+    hashDistance: dHashDistance(generated, product, original, originalRect),
+    checkedAt: Date.now(),
+  };
+};
+
+export const isLowFidelity = (report: FidelityReport | undefined, settings: FidelitySettings) =>
+  !!report && report.score < settings.threshold;
+
+export const loadFidelitySettings = (): FidelitySettings =>
+  ({ ...DEFAULT_FIDELITY_SETTINGS, ...loadJson<Partial<FidelitySettings>>(STORAGE_KEY, {}) });
+
+export const saveFidelitySettings = (settings: FidelitySettings) => saveJson(STORAGE_KEY, settings);
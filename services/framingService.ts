@@ -0,0 +1,105 @@
+import { AspectRatio, Framing } from "../types";
+import { getRatio } from "./imageUtils";
+
+export const MAX_STRAIGHTEN = 15; // degrees
+export const MAX_ZOOM = 4;
+
+export interface FramingGeometry {
+  scale: number; // Output pixels per source pixel
+  slackX: number; // Max crop-center offset (output px) in the straightened image frame
+  slackY: number;
+  angle: number; // Fine rotation in radians
+}
+
+export const getOutputSize = (ratio: AspectRatio, longEdge: number) => {
+  const r = getRatio(ratio);
+  return r >= 1
+    ? { width: longEdge, height: longEdge / r }
+    : { width: longEdge * r, height: longEdge };
+};
+
+/**
+ * Works out how big the source must be drawn so that a crop of outW x outH,
+ * rotated by the straighten angle, never shows empty corners.
+ */
+export const getFramingGeometry = (sourceW: number, sourceH: number, framing: Framing, outW: number, outH: number): FramingGeometry => {
+  const turned = framing.quarterTurns % 2 === 1;
+  const imgW = turned ? sourceH : sourceW;
+  const imgH = turned ? sourceW : sourceH;
+
+  const angle = framing.straighten * Math.PI / 180;
+  const cos = Math.abs(Math.cos(angle));
+  const sin = Math.abs(Math.sin(angle));
+  // Bounding box of the rotated crop, in the image's own frame
+  const boxW = outW * cos + outH * sin;
+  const boxH = outW * sin + outH * cos;
+
+  const scale = Math.max(boxW / imgW, boxH / imgH) * Math.max(1, framing.zoom);
+  return {
+    scale,
+    slackX: Math.max(0, (imgW * scale - boxW) / 2),
+    slackY: Math.max(0, (imgH * scale - boxH) / 2),
+    angle,
+  };
+};
+
+/**
+ * Draws the framed crop of `source` into `ctx`, filling outW x outH.
+ */
+export const drawFraming = (
+  ctx: CanvasRenderingContext2D,
+  source: CanvasImageSource & { width: number; height: number },
+  framing: Framing,
+  outW: number,
+  outH: number
+) => {
+  const { scale, slackX, slackY, angle } = getFramingGeometry(source.width, source.height, framing, outW, outH);
+
+  ctx.save();
+  ctx.translate(outW / 2, outH / 2);
+  ctx.rotate(angle);
+  ctx.translate(-framing.panX * slackX, -framing.panY * slackY);
+  ctx.rotate((framing.quarterTurns % 4) * Math.PI / 2);
+  ctx.drawImage(source, (-source.width * scale) / 2, (-source.height * scale) / 2, source.width * scale, source.height * scale);
+  ctx.restore();
+};
+
+/**
+ * Renders the final crop at the highest resolution the source allows (capped
+ * at 4K) and returns it as a JPEG data URL, like a regular camera capture.
+ */
+export const renderFraming = (
+  source: CanvasImageSource & { width: number; height: number },
+  framing: Framing,
+  ratio: AspectRatio,
+  maxLongEdge = 3840
+): string => {
+  // Pick the output size so the source is never upscaled
+  const unit = getOutputSize(ratio, 1);
+  const unitScale = getFramingGeometry(source.width, source.height, framing, unit.width, unit.height).scale;
+  const longEdge = Math.min(maxLongEdge, 1 / unitScale);
+  const { width, height } = getOutputSize(ratio, longEdge);
+
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(width);
+  canvas.height = Math.round(height);
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error("Canvas not supported in this browser.");
+
+  drawFraming(ctx, source, framing, canvas.width, canvas.height);
+  return canvas.toDataURL('image/jpeg', 0.95);
+};
+
+// Converts a drag in output pixels into new pan values
+export const panByDrag = (framing: Framing, geometry: FramingGeometry, dx: number, dy: number): Framing => {
+  const { angle, slackX, slackY } = geometry;
+  // Into the straightened image frame; moving the image right moves the crop left
+  const ix = dx * Math.cos(angle) + dy * Math.sin(angle);
+  const iy = -dx * Math.sin(angle) + dy * Math.cos(angle);
+  const clamp = (v: number) => Math.max(-1, Math.min(1, v));
+  return {
+    ...framing,
+    panX: slackX > 0 ? clamp(framing.panX - ix / slackX) : 0,
+    panY: slackY > 0 ? clamp(framing.panY - iy / slackY) : 0,
+  };
+};
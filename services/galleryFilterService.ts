@@ -0,0 +1,73 @@
+import { GeneratedImage, Project } from "../types";
+
+export type GallerySort = 'newest' | 'oldest' | 'background' | 'lighting' | 'project';
+
+export type DateRange = 'all' | 'today' | 'week' | 'month';
+
+export const ALL = 'all';
+export const NO_PROJECT = 'none'; // Shots outside any (existing) project
+
+export interface GalleryFilter {
+  projectId: string; // ALL, NO_PROJECT or a project id
+  background: string; // ALL or a background name
+  lighting: string; // ALL or a lighting name
+  dateRange: DateRange;
+  sort: GallerySort;
+}
+
+export const DEFAULT_GALLERY_FILTER: GalleryFilter = {
+  projectId: ALL,
+  background: ALL,
+  lighting: ALL,
+  dateRange: 'all',
+  sort: 'newest',
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const rangeStart = (range: DateRange): number => {
+  if (range === 'all') return 0;
+  const midnight = new Date();
+  midnight.setHours(0, 0, 0, 0);
+  return midnight.getTime() - (range === 'week' ? 6 : range === 'month' ? 29 : 0) * DAY_MS;
+};
+
+export const matchesProject = (projectId: string | undefined, filterId: string, projects: Project[]) => {
+  if (filterId === ALL) return true;
+  if (filterId === NO_PROJECT) return !projectId || !projects.some(p => p.id === projectId);
+  return projectId === filterId;
+};
+
+// Number of filters narrowing the list (sort order doesn't count)
+export const countActiveFilters = (filter: GalleryFilter) =>
+  [filter.projectId !== ALL, filter.background !== ALL, filter.lighting !== ALL, filter.dateRange !== 'all'].filter(Boolean).length;
+
+// Distinct values for the filter dropdowns
+export const listFilterOptions = (images: GeneratedImage[]) => ({
+  backgrounds: [...new Set(images.map(img => img.settings.backgroundName))].sort(),
+  lightings: [...new Set(images.map(img => img.settings.lightingName).filter((name): name is string => !!name))].sort(),
+});
+
+export const filterGallery = (images: GeneratedImage[], filter: GalleryFilter, projects: Project[]): GeneratedImage[] => {
+  const since = rangeStart(filter.dateRange);
+  const projectName = (img: GeneratedImage) => projects.find(p => p.id === img.projectId)?.name || '';
+
+  const matching = images.filter(img =>
+    matchesProject(img.projectId, filter.projectId, projects)
+    && (filter.background === ALL || img.settings.backgroundName === filter.background)
+    && (filter.lighting === ALL || img.settings.lightingName === filter.lighting)
+    && img.timestamp >= since
+  );
+
+  // Named sorts keep the newest first within each group
+  const byName = (key: (img: GeneratedImage) => string) => (a: GeneratedImage, b: GeneratedImage) =>
+    key(a).localeCompare(key(b)) || b.timestamp - a.timestamp;
+
+  switch (filter.sort) {
+    case 'oldest': return matching.sort((a, b) => a.timestamp - b.timestamp);
+    case 'background': return matching.sort(byName(img => img.settings.backgroundName));
+    case 'lighting': return matching.sort(byName(img => img.settings.lightingName || ''));
+    case 'project': return matching.sort(byName(projectName));
+    default: return matching.sort((a, b) => b.timestamp - a.timestamp);
+  }
+};
@@ -1,151 +1,182 @@
-import { GoogleGenAI } from "@google/genai";
-import { BackgroundOption, LightingOption, CameraSettings } from "../types";
-
-export const generateStudioShot = async (
-  imageBase64: string,
-  background: BackgroundOption,
-  lighting: LightingOption,
-  settings: CameraSettings
-): Promise<string> => {
-  // Use process.env.API_KEY directly as required
-  const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-  
+import { GenerateContentResponse, GoogleGenAI } from "@google/genai";
+import { StudioShotProvider, StudioShotRequest, StudioShotResult } from "./studioShotProvider";
+import { GenerationError, classifyError, isRetryable } from "./generationErrors";
+import { buildPrompt } from "./promptTemplateService";
+
+const PRO_MODEL = 'gemini-3-pro-image-preview';
+const FLASH_MODEL = 'gemini-2.5-flash-image';
+
+export interface ModelStep {
+  model: string;
+  promptStyle: 'detailed' | 'simple'; // Pro-grade instructions vs. the compact Flash prompt
+  retries: number; // Extra attempts on quota/network errors before moving down the chain
+  imageSize?: '1K' | '2K' | '4K'; // Only models that support imageConfig
+}
+
+export interface FallbackChainConfig {
+  steps: ModelStep[];
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+// Tried in order; a step is skipped after its retries run out or on a non-retryable error
+export const DEFAULT_FALLBACK_CHAIN: FallbackChainConfig = {
+  steps: [
+    { model: PRO_MODEL, promptStyle: 'detailed', retries: 1, imageSize: '4K' },
+    { model: FLASH_MODEL, promptStyle: 'simple', retries: 2 },
+  ],
+  baseDelayMs: 1000,
+  maxDelayMs: 8000,
+};
+
+const SAFETY_FINISH_REASONS = ['SAFETY', 'IMAGE_SAFETY', 'PROHIBITED_CONTENT', 'BLOCKLIST', 'RECITATION'];
+
+const sleep = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  const timer = setTimeout(resolve, ms);
+  signal?.addEventListener('abort', () => {
+    clearTimeout(timer);
+    reject(new DOMException('Generation cancelled', 'AbortError'));
+  }, { once: true });
+});
+
+const throwIfAborted = (signal?: AbortSignal) => {
+  if (signal?.aborted) throw new DOMException('Generation cancelled', 'AbortError');
+};
+
+// Exponential backoff with jitter: base, 2x base, 4x base... capped
+const backoffDelay = (attempt: number, config: FallbackChainConfig): number => {
+  const delay = Math.min(config.maxDelayMs, config.baseDelayMs * 2 ** attempt);
+  return delay / 2 + Math.random() * delay / 2;
+};
+
+const stripDataUrl = (dataUrl: string) => dataUrl.replace(/^data:image\/(png|jpeg|webp);base64,/, "");
+
+const getMimeType = (dataUrl: string) => dataUrl.match(/^data:(image\/(png|jpeg|webp));/)?.[1] || 'image/jpeg';
+
+const buildParts = ({ imageBase64, background, refinement, mask, backgroundPlate, styleReference }: StudioShotRequest, prompt: string): any[] => {
   // Clean base64 string
-  const productBase64 = imageBase64.replace(/^data:image\/(png|jpeg|webp);base64,/, "");
-  
-  let bgDescription = background.value;
-  
-  // Refine prompt based on background type
-  if (background.type === 'solid') {
-    bgDescription = `a solid, flat, matte background of this exact color: ${background.value}`;
-  }
+  const productBase64 = stripDataUrl(imageBase64);
+  // A refined shot already contains its scene
+  const hasBgImage = !refinement && background.type === 'image' && !!background.imageSrc;
 
-  // Map direction to descriptive text
-  const directionMap: Record<string, string> = {
-    'left': 'coming from the left side',
-    'right': 'coming from the right side',
-    'top': 'overhead lighting coming from the top',
-    'top-left': 'coming from the top-left',
-    'top-right': 'coming from the top-right',
-    'front': 'direct frontal lighting',
-    'bottom': 'coming from below (uplighting)',
-    'back': 'backlighting (rim light)'
-  };
-  const lightDirText = directionMap[settings.lightingDirection] || 'professional studio lighting';
-
-  // Core system instructions for PRO model
-  // ENHANCED PROMPT: Focused on strict subject preservation, isolation, and 4K quality
-  let prompt = `
-    You are a professional commercial product photographer and high-end retoucher.
-    
-    OBJECTIVE:
-    Identify the SINGLE MAIN SUBJECT in the foreground of the input image. Isolate it completely from the original environment and composite it onto a new background: "${bgDescription}".
-
-    CRITICAL SEGMENTATION RULES:
-    1. IGNORE SURROUNDINGS: Discard the original background, table surfaces, and any surrounding clutter. 
-    2. IGNORE INTERFERENCE: If hands are holding the object or other objects are partially visible at the edges, REMOVE THEM. Keep only the main product.
-    3. FOCUS: The camera has focused on the main product. Everything else is irrelevant.
-
-    STRICT RULES FOR SUBJECT PRESERVATION (DO NOT IGNORE):
-    1. THE PRODUCT IS SACRED: Do NOT redraw, stylize, or alter the internal details of the product.
-    2. PRESERVE TEXT & LOGOS: Any text, logos, or labels on the product must remain legible and unchanged.
-    3. PRESERVE TEXTURE: Keep the original surface texture and material finish of the product.
-    4. NO HALLUCINATIONS: Do not add parts to the product that are not there. The input image is the source of truth.
-    
-    PHOTOGRAPHY SETTINGS:
-    - OUTPUT QUALITY: 4K Ultra High Definition (3840x2160).
-    - LIGHTING: Apply "${lighting.value}".
-    - LIGHT DIRECTION: Light source ${lightDirText}.
-    - SHADOWS: Cast realistic, physically accurate shadows from the product onto the new background.
-  `;
-  
-  const parts: any[] = [
-      { inlineData: { mimeType: 'image/jpeg', data: productBase64 } }
+  // A background plate is made without the product, so it can't leak into the set
+  const parts: any[] = backgroundPlate ? [] : [
+      { inlineData: { mimeType: getMimeType(imageBase64), data: productBase64 } }
   ];
 
-  if (background.type === 'image' && background.imageSrc) {
-    const bgBase64 = background.imageSrc.replace(/^data:image\/(png|jpeg|webp);base64,/, "");
-    parts.push({ inlineData: { mimeType: 'image/jpeg', data: bgBase64 } });
-    
-    prompt = `
-      You are an expert high-end commercial retoucher.
-      
-      TASK:
-      Composite the product from Image 1 onto the background scene in Image 2.
-
-      RULES:
-      1. PRESERVE IDENTITY: The product from Image 1 must look exactly the same in the final output. Do not alter its shape, color, or details.
-      2. ISOLATION: Remove the original background from Image 1 completely. Only transfer the main product.
-      3. PERSPECTIVE: Place the product naturally within the scene of Image 2.
-      4. LIGHTING MATCH: Apply lighting style "${lighting.value}" with direction ${lightDirText} to match the background environment.
-      5. QUALITY: 4K Ultra High Definition.
-    `;
+  if (hasBgImage) {
+    parts.push({ inlineData: { mimeType: 'image/jpeg', data: stripDataUrl(background.imageSrc!) } });
+  }
+
+  if (mask?.mode === 'guide' && !refinement && !backgroundPlate) {
+    parts.push({ inlineData: { mimeType: 'image/png', data: stripDataUrl(mask.maskUrl) } });
+  }
+
+  // Always last, as the prompt refers to it that way
+  if (styleReference && !refinement) {
+    parts.push({ inlineData: { mimeType: getMimeType(styleReference), data: stripDataUrl(styleReference) } });
   }
 
   parts.push({ text: prompt });
+  return parts;
+};
 
-  // Attempt generation with Pro model first
+const callModel = async (ai: GoogleGenAI, request: StudioShotRequest, step: ModelStep, prompt: string): Promise<string> => {
+  let response: GenerateContentResponse;
   try {
-    const response = await ai.models.generateContent({
-      model: 'gemini-3-pro-image-preview',
-      contents: { parts: parts },
-      config: {
+    response = await ai.models.generateContent({
+      model: step.model,
+      contents: { parts: buildParts(request, prompt) },
+      config: step.imageSize ? {
         imageConfig: {
-          imageSize: '4K',
-          aspectRatio: settings.aspectRatio
+          imageSize: step.imageSize,
+          aspectRatio: request.settings.aspectRatio
         }
-      }
+      } : undefined
     });
+  } catch (error) {
+    throw classifyError(error, step.model);
+  }
 
-    const img = extractImage(response);
-    if (img) return img;
-    
-    throw new Error("Pro model returned no image.");
-
-  } catch (error: any) {
-    console.warn("Pro Model failed, falling back to Flash:", error);
-    
-    // Fallback to Flash if Pro fails (e.g. Permission Denied 403)
-    try {
-      // Simplified prompt for Flash model
-      let flashPrompt = `Professional Product Photography. 
-      1. Identify the MAIN PRODUCT. Ignore background, clutter, and holding hands.
-      2. Keep the product EXACTLY as it looks in the original image. Do not alter text or details.
-      3. Place ONLY the product onto this background: ${bgDescription}.
-      4. Lighting: ${lighting.value}. High quality 4K.`;
-      
-      const flashParts: any[] = [
-          { inlineData: { mimeType: 'image/jpeg', data: productBase64 } }
-      ];
-
-      if (background.type === 'image' && background.imageSrc) {
-          const bgBase64 = background.imageSrc.replace(/^data:image\/(png|jpeg|webp);base64,/, "");
-          flashParts.push({ inlineData: { mimeType: 'image/jpeg', data: bgBase64 } });
-          flashPrompt = `Composite product from image 1 into image 2. Isolate product. Keep product exact. High quality.`;
-      }
-      
-      flashParts.push({ text: flashPrompt });
-
-      const response = await ai.models.generateContent({
-        model: 'gemini-2.5-flash-image',
-        contents: { parts: flashParts },
-      });
-      
-      const img = extractImage(response);
-      if (!img) {
-         const text = response.candidates?.[0]?.content?.parts?.[0]?.text;
-         if (text) throw new Error("AI Refusal: " + text.substring(0, 100));
-         throw new Error("No image generated by fallback model.");
+  const img = extractImage(response);
+  if (img) return img;
+
+  const candidate = response?.candidates?.[0];
+  const blockReason = response?.promptFeedback?.blockReason;
+  const text = candidate?.content?.parts?.find((p: any) => p.text)?.text;
+
+  if (blockReason || SAFETY_FINISH_REASONS.includes(candidate?.finishReason)) {
+    const reason = text ? text.substring(0, 100) : (blockReason || candidate.finishReason);
+    throw new GenerationError('refusal', `Declined by ${step.model}: ${reason}`, { model: step.model });
+  }
+
+  throw new GenerationError(
+    'no-image',
+    text ? `${step.model} replied without an image: ${text.substring(0, 100)}` : `${step.model} returned no image.`,
+    { model: step.model }
+  );
+};
+
+/**
+ * Builds a Gemini provider that walks the given fallback chain.
+ * Refusals stop the chain (another model won't accept it either); permission,
+ * rejected and no-image errors skip to the next model; quota and network
+ * errors are retried with exponential backoff first.
+ */
+export const createGeminiProvider = (chain: FallbackChainConfig = DEFAULT_FALLBACK_CHAIN): StudioShotProvider => {
+  const generate = async (request: StudioShotRequest): Promise<StudioShotResult> => {
+    const startedAt = Date.now();
+    // Use process.env.API_KEY directly as required
+    const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+
+    let lastError: GenerationError | null = null;
+
+    for (const [index, step] of chain.steps.entries()) {
+      const prompt = buildPrompt(request, step.promptStyle);
+      for (let attempt = 0; attempt <= step.retries; attempt++) {
+        throwIfAborted(request.signal);
+        const callStartedAt = Date.now();
+        const report = (error?: GenerationError) => request.onCall?.({
+          provider: provider.id,
+          model: step.model,
+          ok: !error,
+          errorKind: error?.kind,
+          durationMs: Date.now() - callStartedAt,
+          imageSize: step.imageSize || '1K',
+          fallback: index > 0,
+        });
+        try {
+          const imageUrl = await callModel(ai, request, step, prompt);
+          report();
+          return {
+            imageUrl,
+            metadata: { provider: provider.id, model: step.model, durationMs: Date.now() - startedAt, prompt }
+          };
+        } catch (error) {
+          lastError = classifyError(error, step.model);
+          report(lastError);
+          console.warn(`${step.model} failed (${lastError.kind}, attempt ${attempt + 1}/${step.retries + 1}):`, lastError.cause || lastError);
+
+          if (lastError.kind === 'refusal') throw lastError;
+          if (!isRetryable(lastError) || attempt === step.retries) break;
+          await sleep(backoffDelay(attempt, chain), request.signal);
+        }
       }
-      return img;
-    } catch (fallbackError: any) {
-       console.error("Fallback failed:", fallbackError);
-       // Throw the fallback error if it exists, otherwise the original error
-       throw new Error(fallbackError.message || error.message || "Failed to generate image.");
     }
-  }
+
+    throw lastError || new GenerationError('no-image', "No models configured.");
+  };
+
+  const provider: StudioShotProvider = {
+    id: 'gemini',
+    name: 'Google Gemini',
+    generate,
+  };
+  return provider;
 };
 
+export const geminiProvider = createGeminiProvider();
+
 function extractImage(response: any): string | null {
   try {
     const contentParts = response.candidates?.[0]?.content?.parts;
@@ -160,4 +191,4 @@ function extractImage(response: any): string | null {
     console.error("Error extracting image:", e);
   }
   return null;
-}
\ No newline at end of file
+}
@@ -0,0 +1,105 @@
+export type GenerationErrorKind = 'quota' | 'permission' | 'refusal' | 'no-image' | 'network' | 'rejected' | 'budget';
+
+/**
+ * Typed failure from a studio shot provider. `kind` drives retry decisions
+ * in the fallback chain and the message shown to the user.
+ */
+export class GenerationError extends Error {
+  kind: GenerationErrorKind;
+  model?: string;
+  cause?: unknown;
+
+  constructor(kind: GenerationErrorKind, message: string, options: { model?: string; cause?: unknown } = {}) {
+    super(message);
+    this.name = 'GenerationError';
+    this.kind = kind;
+    this.model = options.model;
+    this.cause = options.cause;
+  }
+}
+
+// Only transient failures are worth retrying on the same model
+export const isRetryable = (error: GenerationError): boolean =>
+  error.kind === 'quota' || error.kind === 'network';
+
+const getStatus = (error: any): number | undefined => {
+  const status = error?.status ?? error?.code ?? error?.error?.code;
+  if (typeof status === 'number') return status;
+  // The SDK sometimes only exposes the status inside the message, e.g. "got status: 429"
+  const match = typeof error?.message === 'string' ? error.message.match(/\b(4\d\d|5\d\d)\b/) : null;
+  return match ? Number(match[1]) : undefined;
+};
+
+/**
+ * Maps any thrown value (SDK error, fetch failure, ...) onto a GenerationError.
+ */
+export const classifyError = (error: unknown, model?: string): GenerationError => {
+  if (error instanceof GenerationError) return error;
+
+  const err = error as any;
+  const message: string = err?.message || String(error);
+  const status = getStatus(err);
+
+  if (status === 429 || /RESOURCE_EXHAUSTED|quota|rate limit/i.test(message)) {
+    return new GenerationError('quota', message, { model, cause: error });
+  }
+  if (status === 401 || status === 403 || /PERMISSION_DENIED|UNAUTHENTICATED|API key/i.test(message)) {
+    return new GenerationError('permission', message, { model, cause: error });
+  }
+  if (/SAFETY|blocked|PROHIBITED/i.test(message)) {
+    return new GenerationError('refusal', message, { model, cause: error });
+  }
+  // 5xx, request timeouts, dropped connections
+  if ((status !== undefined && (status >= 500 || status === 408))
+    || (status === undefined && /fetch|network|timed? ?out|ECONN|socket|UNAVAILABLE|DEADLINE_EXCEEDED|Load failed/i.test(message))) {
+    return new GenerationError('network', message, { model, cause: error });
+  }
+  // Other 4xx (bad argument, unknown model...) and anything unrecognised: retrying won't change the answer
+  return new GenerationError('rejected', message, { model, cause: error });
+};
+
+export interface GenerationErrorDescription {
+  title: string;
+  nextStep: string;
+}
+
+export const describeGenerationError = (kind: GenerationErrorKind): GenerationErrorDescription => {
+  switch (kind) {
+    case 'quota':
+      return {
+        title: "Generation limit reached",
+        nextStep: "Wait a minute and try again, or check the billing quota of your API key.",
+      };
+    case 'permission':
+      return {
+        title: "API key not accepted",
+        nextStep: "Check that your Gemini API key is valid and has access to the image models.",
+      };
+    case 'refusal':
+      return {
+        title: "The model declined this photo",
+        nextStep: "Reframe the product so only the item is visible, or pick a different background.",
+      };
+    case 'budget':
+      return {
+        title: "Spending limit reached",
+        nextStep: "Raise the budget in Usage, or retry once the next period starts.",
+      };
+    case 'no-image':
+      return {
+        title: "No image came back",
+        nextStep: "Try again. If it keeps happening, use a simpler background or lighting.",
+      };
+    case 'rejected':
+      return {
+        title: "The request was rejected",
+        nextStep: "Try again with a different photo or setup. If it keeps happening, the model may not support these options.",
+      };
+    case 'network':
+    default:
+      return {
+        title: "Could not reach the image service",
+        nextStep: "Check your connection and try again.",
+      };
+  }
+};
@@ -0,0 +1,86 @@
+import { AspectRatio } from "../types";
+
+export const ASPECT_RATIOS: Record<AspectRatio, number> = { '1:1': 1, '3:4': 3/4, '4:3': 4/3, '16:9': 16/9, '9:16': 9/16 };
+
+export const getRatio = (ratio: AspectRatio): number => ASPECT_RATIOS[ratio] || 1;
+
+export interface CropRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * Largest centered rectangle of the target ratio that fits inside the source.
+ */
+export const getCenterCrop = (sourceW: number, sourceH: number, ratio: AspectRatio): CropRect => {
+  const sourceRatio = sourceW / sourceH;
+  const targetRatio = getRatio(ratio);
+
+  if (sourceRatio > targetRatio) {
+    const width = sourceH * targetRatio;
+    return { x: (sourceW - width) / 2, y: 0, width, height: sourceH };
+  }
+  const height = sourceW / targetRatio;
+  return { x: 0, y: (sourceH - height) / 2, width: sourceW, height };
+};
+
+export type RGB = [number, number, number];
+
+const median = (values: number[]) => {
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.floor(sorted.length / 2)];
+};
+
+// Coordinate range holding the middle `keep` share of the values (drops stray specks)
+const robustRange = (values: number[], keep = 0.96): [number, number] => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const cut = Math.floor(sorted.length * (1 - keep) / 2);
+  return [sorted[cut], sorted[sorted.length - 1 - cut]];
+};
+
+/**
+ * Backdrop colour of a studio shot: the per-channel median along the border.
+ */
+export const estimateBackdropColor = (rgba: Uint8ClampedArray, width: number, height: number): RGB => {
+  const border: number[][] = [[], [], []];
+  const sample = (x: number, y: number) => {
+    const i = (y * width + x) * 4;
+    for (let c = 0; c < 3; c++) border[c].push(rgba[i + c]);
+  };
+  for (let x = 0; x < width; x++) { sample(x, 0); sample(x, height - 1); }
+  for (let y = 0; y < height; y++) { sample(0, y); sample(width - 1, y); }
+  return border.map(median) as RGB;
+};
+
+export const colorDistance = (rgba: Uint8ClampedArray, i: number, [r, g, b]: RGB) =>
+  Math.hypot(rgba[i] - r, rgba[i + 1] - g, rgba[i + 2] - b);
+
+/**
+ * Bounding box of everything that differs from the backdrop by more than
+ * `threshold` (RGB distance), or null if less than 1% of the image does.
+ */
+export const findForegroundBounds = (
+  rgba: Uint8ClampedArray,
+  width: number,
+  height: number,
+  backdrop: RGB,
+  threshold: number
+): CropRect | null => {
+  const xs: number[] = [];
+  const ys: number[] = [];
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (colorDistance(rgba, (y * width + x) * 4, backdrop) > threshold) {
+        xs.push(x);
+        ys.push(y);
+      }
+    }
+  }
+  if (xs.length < width * height * 0.01) return null;
+
+  const [x0, x1] = robustRange(xs);
+  const [y0, y1] = robustRange(ys);
+  return { x: x0, y: y0, width: x1 - x0 + 1, height: y1 - y0 + 1 };
+};
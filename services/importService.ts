@@ -0,0 +1,73 @@
+import { AspectRatio } from "../types";
+import { getCenterCrop } from "./imageUtils";
+
+// Same cap as a 4K camera frame; larger photos are scaled down before upload
+const MAX_LONG_EDGE = 3840;
+
+export const ACCEPTED_IMPORT_TYPES = 'image/jpeg,image/png,image/webp,image/heic,image/heif,.heic,.heif';
+
+const isHeic = (file: File) =>
+  /image\/hei[cf]/i.test(file.type) || /\.hei[cf]$/i.test(file.name);
+
+// Orientation is applied by the decoder itself ('from-image'), so a phone
+// photo shot in portrait lands upright without parsing EXIF by hand.
+const decode = async (blob: Blob): Promise<ImageBitmap | HTMLImageElement> => {
+  if (typeof createImageBitmap === 'function') {
+    return createImageBitmap(blob, { imageOrientation: 'from-image' });
+  }
+
+  // Older browsers: <img> honours EXIF orientation by default (image-orientation: from-image)
+  const url = URL.createObjectURL(blob);
+  try {
+    return await new Promise<HTMLImageElement>((resolve, reject) => {
+      const img = new Image();
+      img.onload = () => resolve(img);
+      img.onerror = () => reject(new Error("Could not decode image."));
+      img.src = url;
+    });
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+};
+
+const decodeFile = async (file: File): Promise<ImageBitmap | HTMLImageElement> => {
+  try {
+    return await decode(file);
+  } catch (error) {
+    // Only Safari decodes HEIC natively; elsewhere convert it first
+    if (!isHeic(file)) throw error;
+    const { default: heic2any } = await import('heic2any');
+    const converted = await heic2any({ blob: file, toType: 'image/jpeg', quality: 0.95 });
+    return decode(Array.isArray(converted) ? converted[0] : converted);
+  }
+};
+
+/**
+ * Decodes an imported photo (JPEG/PNG/WebP/HEIC) and applies the same centered
+ * aspect-ratio crop as a live camera capture. Returns a JPEG data URL.
+ */
+export const importImageFile = async (file: File, aspectRatio: AspectRatio): Promise<string> => {
+  const image = await decodeFile(file);
+  const sourceW = image.width;
+  const sourceH = image.height;
+  const crop = getCenterCrop(sourceW, sourceH, aspectRatio);
+
+  const scale = Math.min(1, MAX_LONG_EDGE / Math.max(crop.width, crop.height));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(crop.width * scale);
+  canvas.height = Math.round(crop.height * scale);
+
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error("Canvas not supported in this browser.");
+
+  // Flatten transparency (PNG/WebP) onto white so it doesn't turn black in JPEG
+  ctx.fillStyle = '#FFFFFF';
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  ctx.drawImage(image, crop.x, crop.y, crop.width, crop.height, 0, 0, canvas.width, canvas.height);
+  if ('close' in image) image.close();
+
+  return canvas.toDataURL('image/jpeg', 0.95);
+};
+
+export const isImportableFile = (file: File) =>
+  file.type.startsWith('image/') || isHeic(file);
@@ -0,0 +1,147 @@
+import { LightingDirection, LightingOption, LightingSetup } from "../types";
+import { loadJson, saveJson } from "./localStore";
+
+const STORAGE_KEY = 'lighting-presets';
+const EXPORT_FORMAT = 'instant-studio/lighting-presets';
+const ID_PREFIX = 'user-light-';
+
+export const MIN_TEMPERATURE = 2500;
+export const MAX_TEMPERATURE = 8000;
+
+export const DEFAULT_LIGHTING_SETUP: LightingSetup = {
+  key: 80,
+  fill: 40,
+  rim: 20,
+  temperature: 5500,
+  softness: 70,
+  secondaryDirection: 'none',
+};
+
+// Unit vector pointing from the subject towards the light source (canvas coordinates)
+export const LIGHT_VECTORS: Record<LightingDirection, [number, number]> = {
+  'left': [-1, 0],
+  'right': [1, 0],
+  'top': [0, -1],
+  'top-left': [-0.7, -0.7],
+  'top-right': [0.7, -0.7],
+  'front': [0, -0.3],
+  'back': [0, 0],
+  'bottom': [0, 1],
+};
+
+// Map direction to descriptive text
+export const LIGHT_DIRECTION_DESCRIPTIONS: Record<LightingDirection, string> = {
+  'left': 'coming from the left side',
+  'right': 'coming from the right side',
+  'top': 'overhead lighting coming from the top',
+  'top-left': 'coming from the top-left',
+  'top-right': 'coming from the top-right',
+  'front': 'direct frontal lighting',
+  'bottom': 'coming from below (uplighting)',
+  'back': 'backlighting (rim light)'
+};
+
+const describeLevel = (value: number) =>
+  value >= 80 ? 'strong' : value >= 50 ? 'medium' : value >= 20 ? 'subtle' : 'very faint';
+
+const describeTemperature = (kelvin: number) =>
+  kelvin < 3500 ? 'warm tungsten tones'
+    : kelvin < 4800 ? 'slightly warm tones'
+    : kelvin <= 6000 ? 'neutral daylight-balanced tones'
+    : kelvin <= 7000 ? 'slightly cool tones'
+    : 'cool blue tones';
+
+const describeSoftness = (softness: number) =>
+  softness >= 67 ? 'large diffused light sources with soft, gradual shadow edges'
+    : softness >= 34 ? 'moderately soft light with smooth but defined shadows'
+    : 'hard, direct light with crisp, sharp-edged shadows';
+
+/**
+ * Turns editor settings into the prompt text used as LightingOption.value.
+ */
+export const compileLightingPrompt = (setup: LightingSetup): string => {
+  const parts = [
+    `three-point studio lighting with a ${describeLevel(setup.key)} key light`,
+    setup.fill > 0 ? `a ${describeLevel(setup.fill)} fill light` : 'no fill light (deep shadows on the unlit side)',
+    setup.rim > 0 ? `a ${describeLevel(setup.rim)} rim light separating the product from the background` : 'no rim light',
+  ];
+  const ratio = setup.fill > 0 ? Math.max(1, Math.round(setup.key / setup.fill)) : null;
+
+  let prompt = parts.join(', ');
+  if (ratio) prompt += `, key-to-fill ratio about ${ratio}:1`;
+  prompt += `; colour temperature ${setup.temperature}K (${describeTemperature(setup.temperature)})`;
+  prompt += `; ${describeSoftness(setup.softness)}`;
+  if (setup.secondaryDirection !== 'none') {
+    prompt += `; a second light ${LIGHT_DIRECTION_DESCRIPTIONS[setup.secondaryDirection]}`;
+  }
+  return prompt;
+};
+
+const newPresetId = () => `${ID_PREFIX}${Date.now().toString(36)}-${Math.random().toString(36).substring(2, 6)}`;
+
+export const createLightingPreset = (name: string, setup: LightingSetup, id?: string): LightingOption => ({
+  id: id || newPresetId(),
+  name,
+  value: compileLightingPrompt(setup),
+  icon: '🎛️',
+  setup,
+});
+
+const isValidPreset = (p: any): p is LightingOption =>
+  p && typeof p.id === 'string' && typeof p.name === 'string' && typeof p.value === 'string';
+
+export const loadLightingPresets = (): LightingOption[] =>
+  loadJson<LightingOption[]>(STORAGE_KEY, []).filter(isValidPreset);
+
+export const saveLightingPresets = (presets: LightingOption[]) => saveJson(STORAGE_KEY, presets);
+
+export const exportLightingPresets = (presets: LightingOption[]) => ({
+  format: EXPORT_FORMAT,
+  version: 1,
+  presets,
+});
+
+const inRange = (value: unknown, min: number, max: number): value is number =>
+  typeof value === 'number' && Number.isFinite(value) && value >= min && value <= max;
+
+// Each field is taken from the file only if it is something the editor could have produced
+const parseSetup = (setup: any): LightingSetup => {
+  const level = (key: 'key' | 'fill' | 'rim' | 'softness') =>
+    inRange(setup?.[key], 0, 100) ? setup[key] : DEFAULT_LIGHTING_SETUP[key];
+  const direction = setup?.secondaryDirection;
+  return {
+    key: level('key'),
+    fill: level('fill'),
+    rim: level('rim'),
+    softness: level('softness'),
+    temperature: inRange(setup?.temperature, MIN_TEMPERATURE, MAX_TEMPERATURE) ? setup.temperature : DEFAULT_LIGHTING_SETUP.temperature,
+    secondaryDirection: direction === 'none' || (typeof direction === 'string' && Object.prototype.hasOwnProperty.call(LIGHT_DIRECTION_DESCRIPTIONS, direction))
+      ? direction
+      : DEFAULT_LIGHTING_SETUP.secondaryDirection,
+  };
+};
+
+/**
+ * Validates a file produced by exportLightingPresets. Prompts are recompiled
+ * from the setup so a hand-edited value can't drift from its sliders.
+ * Presets keep their id, so importing an edited export replaces the local
+ * copy; ids that aren't user-preset ids get a fresh one instead, so a file
+ * can never shadow a built-in preset.
+ */
+export const parseLightingExport = (data: any): LightingOption[] => {
+  if (!data || data.format !== EXPORT_FORMAT || !Array.isArray(data.presets)) {
+    throw new Error("Not a lighting presets file.");
+  }
+  return data.presets
+    .filter(isValidPreset)
+    .map((p: LightingOption): LightingOption => {
+      const id = p.id.startsWith(ID_PREFIX) ? p.id : undefined;
+      if (p.setup) return createLightingPreset(p.name, parseSetup(p.setup), id);
+      return {
+        id: id || newPresetId(),
+        name: p.name,
+        value: p.value,
+        icon: typeof p.icon === 'string' ? p.icon : '🎛️',
+      };
+    });
+};
@@ -0,0 +1,38 @@
+// Small JSON helpers for settings that live in localStorage (presets, libraries...)
+
+const PREFIX = 'instant-studio:';
+
+export const loadJson = <T>(key: string, fallback: T): T => {
+  try {
+    const raw = localStorage.getItem(PREFIX + key);
+    return raw ? JSON.parse(raw) as T : fallback;
+  } catch (e) {
+    console.warn(`Could not read ${key}:`, e);
+    return fallback;
+  }
+};
+
+export const saveJson = (key: string, value: unknown): boolean => {
+  try {
+    localStorage.setItem(PREFIX + key, JSON.stringify(value));
+    return true;
+  } catch (e) {
+    console.warn(`Could not save ${key}:`, e);
+    return false;
+  }
+};
+
+export const downloadJson = (filename: string, data: unknown) => {
+  const blob = new Blob([JSON.stringify(data, null, 2)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  a.click();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+export const readJsonFile = async <T = unknown>(file: File): Promise<T> => {
+  const text = await file.text();
+  return JSON.parse(text) as T;
+};
@@ -0,0 +1,88 @@
+import { estimateBackdropColor, colorDistance } from "./imageUtils";
+
+// Subject masks are painted on a working canvas in the editor, then rendered
+// out as a black/white PNG at the capture's full size.
+
+export const MASK_LONG_EDGE = 1024; // Working resolution of the paint canvas
+export const MASK_COLOR = '#3B82F6'; // studio-accent; only alpha matters for the mask
+
+const AUTO_EDGE = 256;
+const AUTO_DISTANCE = 48; // RGB distance from the border colour that counts as product
+
+export const getMaskSize = (width: number, height: number) => {
+  const scale = Math.min(1, MASK_LONG_EDGE / Math.max(width, height));
+  return { width: Math.round(width * scale), height: Math.round(height * scale) };
+};
+
+const createCanvas = (width: number, height: number) => {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error("Canvas not supported in this browser.");
+  return { canvas, ctx };
+};
+
+const fillEllipse = (ctx: CanvasRenderingContext2D, width: number, height: number) => {
+  ctx.beginPath();
+  ctx.ellipse(width / 2, height / 2, width * 0.3, height * 0.35, 0, 0, Math.PI * 2);
+  ctx.fill();
+};
+
+/**
+ * Starting mask for the editor: everything that stands out from the colour
+ * along the frame border. Falls back to a centred ellipse when that finds
+ * almost nothing (or almost everything), as on a busy table.
+ */
+export const drawAutoMask = (target: HTMLCanvasElement, image: HTMLImageElement) => {
+  const ctx = target.getContext('2d');
+  if (!ctx) return;
+  ctx.clearRect(0, 0, target.width, target.height);
+  ctx.fillStyle = MASK_COLOR;
+
+  const scale = AUTO_EDGE / Math.max(image.naturalWidth, image.naturalHeight);
+  const small = createCanvas(Math.max(1, Math.round(image.naturalWidth * scale)), Math.max(1, Math.round(image.naturalHeight * scale)));
+  small.ctx.drawImage(image, 0, 0, small.canvas.width, small.canvas.height);
+  const pixels = small.ctx.getImageData(0, 0, small.canvas.width, small.canvas.height);
+  const backdrop = estimateBackdropColor(pixels.data, pixels.width, pixels.height);
+
+  let covered = 0;
+  for (let i = 0; i < pixels.data.length; i += 4) {
+    const isProduct = colorDistance(pixels.data, i, backdrop) > AUTO_DISTANCE;
+    if (isProduct) covered++;
+    pixels.data[i + 3] = isProduct ? 255 : 0;
+  }
+  const share = covered / (pixels.width * pixels.height);
+  if (share < 0.02 || share > 0.9) {
+    fillEllipse(ctx, target.width, target.height);
+    return;
+  }
+
+  // Tint the hits and scale them up smoothly to the working canvas
+  small.ctx.putImageData(pixels, 0, 0);
+  small.ctx.globalCompositeOperation = 'source-in';
+  small.ctx.fillStyle = MASK_COLOR;
+  small.ctx.fillRect(0, 0, small.canvas.width, small.canvas.height);
+  ctx.imageSmoothingQuality = 'high';
+  ctx.drawImage(small.canvas, 0, 0, target.width, target.height);
+};
+
+/**
+ * Renders the painted mask as a black/white PNG at the capture's size.
+ * `feather` softens the edge, in working-canvas pixels.
+ */
+export const renderMask = (paint: HTMLCanvasElement, width: number, height: number, feather: number): string => {
+  const white = createCanvas(width, height);
+  white.ctx.imageSmoothingQuality = 'high';
+  white.ctx.drawImage(paint, 0, 0, width, height);
+  white.ctx.globalCompositeOperation = 'source-in';
+  white.ctx.fillStyle = '#FFFFFF';
+  white.ctx.fillRect(0, 0, width, height);
+
+  const out = createCanvas(width, height);
+  out.ctx.fillStyle = '#000000';
+  out.ctx.fillRect(0, 0, width, height);
+  if (feather > 0) out.ctx.filter = `blur(${feather * width / paint.width}px)`;
+  out.ctx.drawImage(white.canvas, 0, 0);
+  return out.canvas.toDataURL('image/png');
+};
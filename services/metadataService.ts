@@ -0,0 +1,263 @@
+import { AspectRatio, BackgroundType, GeneratedImage, LightingDirection } from "../types";
+import { crc32 } from "./zipService";
+
+// Embeds how a shot was made into the downloaded file itself (PNG text chunks,
+// JPEG EXIF, and XMP in both), and reads it back when such a file is imported.
+
+export interface ShotMetadata {
+  backgroundName: string;
+  backgroundType: BackgroundType;
+  backgroundValue: string;
+  lightingName?: string;
+  lightingDirection?: LightingDirection;
+  aspectRatio?: AspectRatio;
+  model?: string;
+  promptTemplate?: string;
+  promptVersion?: number;
+  timestamp: number;
+}
+
+const SOFTWARE = 'Instant Studio';
+const STUDIO_NS = 'https://instant-studio.app/ns/1.0/';
+const XMP_KEYWORD = 'XML:com.adobe.xmp'; // PNG iTXt keyword for XMP
+const XMP_JPEG_HEADER = 'http://ns.adobe.com/xap/1.0/\0'; // JPEG APP1 identifier for XMP
+
+const PNG_SIGNATURE = [0x89, 0x50, 0x4E, 0x47, 0x0D, 0x0A, 0x1A, 0x0A];
+
+const FIELDS: (keyof ShotMetadata)[] = [
+  'backgroundName', 'backgroundType', 'backgroundValue', 'lightingName', 'lightingDirection',
+  'aspectRatio', 'model', 'promptTemplate', 'promptVersion', 'timestamp',
+];
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+export const toShotMetadata = (image: GeneratedImage): ShotMetadata => ({
+  backgroundName: image.settings.backgroundName,
+  backgroundType: image.settings.type,
+  backgroundValue: image.settings.value,
+  lightingName: image.settings.lightingName,
+  lightingDirection: image.settings.lightingDirection as LightingDirection | undefined,
+  aspectRatio: image.settings.aspectRatio,
+  model: image.generation?.model,
+  promptTemplate: image.generation?.promptTemplate?.name,
+  promptVersion: image.generation?.promptTemplate?.version,
+  timestamp: image.timestamp,
+});
+
+const describe = (meta: ShotMetadata) =>
+  [meta.backgroundName, meta.lightingName, meta.lightingDirection && `light ${meta.lightingDirection}`, meta.aspectRatio]
+    .filter(Boolean).join(', ');
+
+const escapeXml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const unescapeXml = (text: string) =>
+  text.replace(/&lt;/g, '<').replace(/&gt;/g, '>').replace(/&quot;/g, '"').replace(/&apos;/g, "'").replace(/&amp;/g, '&');
+
+const buildXmp = (meta: ShotMetadata) => {
+  const attributes = FIELDS
+    .filter(field => meta[field] !== undefined && meta[field] !== '')
+    .map(field => `\n    studio:${field}="${escapeXml(String(meta[field]))}"`)
+    .join('');
+  return `<?xpacket begin="\uFEFF" id="W5M0MpCehiHzreSzNTczkc9d"?>
+<x:xmpmeta xmlns:x="adobe:ns:meta/">
+ <rdf:RDF xmlns:rdf="http://www.w3.org/1999/02/22-rdf-syntax-ns#">
+  <rdf:Description rdf:about=""
+    xmlns:xmp="http://ns.adobe.com/xap/1.0/"
+    xmlns:studio="${STUDIO_NS}"
+    xmp:CreatorTool="${SOFTWARE}"
+    xmp:CreateDate="${new Date(meta.timestamp).toISOString()}"${attributes}/>
+ </rdf:RDF>
+</x:xmpmeta>
+<?xpacket end="r"?>`;
+};
+
+const parseXmp = (xmp: string): ShotMetadata | null => {
+  if (!xmp.includes(STUDIO_NS)) return null;
+  const values: Record<string, string> = {};
+  for (const match of xmp.matchAll(/studio:(\w+)="([^"]*)"/g)) values[match[1]] = unescapeXml(match[2]);
+  if (!values.backgroundName || !values.backgroundValue) return null;
+
+  return {
+    backgroundName: values.backgroundName,
+    backgroundType: (values.backgroundType || 'solid') as BackgroundType,
+    backgroundValue: values.backgroundValue,
+    lightingName: values.lightingName,
+    lightingDirection: values.lightingDirection as LightingDirection | undefined,
+    aspectRatio: values.aspectRatio as AspectRatio | undefined,
+    model: values.model,
+    promptTemplate: values.promptTemplate,
+    promptVersion: values.promptVersion ? Number(values.promptVersion) : undefined,
+    timestamp: Number(values.timestamp) || Date.now(),
+  };
+};
+
+const concat = (parts: Uint8Array[]) => {
+  const out = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    out.set(part, offset);
+    offset += part.length;
+  }
+  return out;
+};
+
+// Latin-1 only (tEXt keywords/values and EXIF ASCII); anything else becomes '?'
+const latin1 = (text: string) => Uint8Array.from(text, ch => ch.charCodeAt(0) < 256 ? ch.charCodeAt(0) : 0x3F);
+
+const isPng = (bytes: Uint8Array) => PNG_SIGNATURE.every((b, i) => bytes[i] === b);
+const isJpeg = (bytes: Uint8Array) => bytes[0] === 0xFF && bytes[1] === 0xD8;
+
+// --- PNG ---
+
+const pngChunk = (type: string, data: Uint8Array) => {
+  const body = concat([latin1(type), data]);
+  const chunk = new Uint8Array(12 + data.length);
+  const view = new DataView(chunk.buffer);
+  view.setUint32(0, data.length);
+  chunk.set(body, 4);
+  view.setUint32(8 + data.length, crc32(body));
+  return chunk;
+};
+
+const textChunk = (keyword: string, text: string) =>
+  pngChunk('tEXt', concat([latin1(keyword), new Uint8Array([0]), latin1(text)]));
+
+// Uncompressed iTXt: keyword, flag, method, empty language and translated keyword, UTF-8 text
+const itxtChunk = (keyword: string, text: string) =>
+  pngChunk('iTXt', concat([latin1(keyword), new Uint8Array([0, 0, 0, 0, 0]), encoder.encode(text)]));
+
+const embedPng = (bytes: Uint8Array, meta: ShotMetadata) => {
+  // New chunks go right after IHDR, which is always first
+  const ihdrEnd = 8 + 12 + new DataView(bytes.buffer, bytes.byteOffset).getUint32(8);
+  return concat([
+    bytes.subarray(0, ihdrEnd),
+    textChunk('Software', SOFTWARE),
+    textChunk('Creation Time', new Date(meta.timestamp).toUTCString()),
+    textChunk('Description', describe(meta)),
+    itxtChunk(XMP_KEYWORD, buildXmp(meta)),
+    bytes.subarray(ihdrEnd),
+  ]);
+};
+
+const readPngXmp = (bytes: Uint8Array): string | null => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  for (let offset = 8; offset + 12 <= bytes.length;) {
+    const length = view.getUint32(offset);
+    const type = decoder.decode(bytes.subarray(offset + 4, offset + 8));
+    const data = bytes.subarray(offset + 8, offset + 8 + length);
+    if (type === 'iTXt' && decoder.decode(data.subarray(0, XMP_KEYWORD.length + 1)) === `${XMP_KEYWORD}\0` && data[XMP_KEYWORD.length + 1] === 0) {
+      // Skip keyword, flags, then the two null-terminated language fields
+      let start = XMP_KEYWORD.length + 3;
+      start = data.indexOf(0, start) + 1;
+      start = data.indexOf(0, start) + 1;
+      return decoder.decode(data.subarray(start));
+    }
+    if (type === 'IEND') break;
+    offset += 12 + length;
+  }
+  return null;
+};
+
+// --- JPEG ---
+
+const jpegSegment = (marker: number, payload: Uint8Array) => {
+  const segment = new Uint8Array(4 + payload.length);
+  const view = new DataView(segment.buffer);
+  view.setUint16(0, 0xFF00 | marker);
+  view.setUint16(2, payload.length + 2);
+  segment.set(payload, 4);
+  return segment;
+};
+
+const exifDateTime = (timestamp: number) => {
+  const d = new Date(timestamp);
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${d.getFullYear()}:${pad(d.getMonth() + 1)}:${pad(d.getDate())} ${pad(d.getHours())}:${pad(d.getMinutes())}:${pad(d.getSeconds())}`;
+};
+
+// Minimal little-endian TIFF with one IFD of ASCII tags, sorted by tag id
+const buildExif = (meta: ShotMetadata) => {
+  const tags: [number, string][] = [
+    [0x010E, describe(meta)], // ImageDescription
+    [0x0131, SOFTWARE], // Software
+    [0x0132, exifDateTime(meta.timestamp)], // DateTime
+  ];
+  const ifdSize = 2 + tags.length * 12 + 4;
+  const values = tags.map(([, text]) => concat([latin1(text), new Uint8Array([0])]));
+  const tiff = new Uint8Array(8 + ifdSize + values.reduce((sum, v) => sum + v.length, 0));
+  const view = new DataView(tiff.buffer);
+
+  view.setUint16(0, 0x4949); // "II"
+  view.setUint16(2, 42, true);
+  view.setUint32(4, 8, true);
+  view.setUint16(8, tags.length, true);
+  let dataOffset = 8 + ifdSize;
+  tags.forEach(([tag], i) => {
+    const entry = 10 + i * 12;
+    view.setUint16(entry, tag, true);
+    view.setUint16(entry + 2, 2, true); // ASCII
+    view.setUint32(entry + 4, values[i].length, true);
+    if (values[i].length <= 4) {
+      tiff.set(values[i], entry + 8);
+    } else {
+      view.setUint32(entry + 8, dataOffset, true);
+      tiff.set(values[i], dataOffset);
+      dataOffset += values[i].length;
+    }
+  });
+  return concat([latin1('Exif\0\0'), tiff]);
+};
+
+const embedJpeg = (bytes: Uint8Array, meta: ShotMetadata) => {
+  // Keep a JFIF APP0 segment first, as the JFIF spec requires
+  let insertAt = 2;
+  if (bytes[2] === 0xFF && bytes[3] === 0xE0) insertAt = 4 + new DataView(bytes.buffer, bytes.byteOffset).getUint16(4);
+  return concat([
+    bytes.subarray(0, insertAt),
+    jpegSegment(0xE1, buildExif(meta)),
+    jpegSegment(0xE1, concat([latin1(XMP_JPEG_HEADER), encoder.encode(buildXmp(meta))])),
+    bytes.subarray(insertAt),
+  ]);
+};
+
+const readJpegXmp = (bytes: Uint8Array): string | null => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  for (let offset = 2; offset + 4 <= bytes.length;) {
+    if (bytes[offset] !== 0xFF) break;
+    const marker = bytes[offset + 1];
+    if (marker === 0xDA || marker === 0xD9) break; // Image data starts; no more metadata
+    const length = view.getUint16(offset + 2);
+    const payload = bytes.subarray(offset + 4, offset + 2 + length);
+    if (marker === 0xE1 && decoder.decode(payload.subarray(0, XMP_JPEG_HEADER.length)) === XMP_JPEG_HEADER) {
+      return decoder.decode(payload.subarray(XMP_JPEG_HEADER.length));
+    }
+    offset += 2 + length;
+  }
+  return null;
+};
+
+/**
+ * Returns a copy of a PNG or JPEG file with the shot's settings embedded.
+ * Other formats (e.g. WebP) are returned unchanged.
+ */
+export const embedMetadata = async (blob: Blob, meta: ShotMetadata): Promise<Blob> => {
+  const bytes = new Uint8Array(await blob.arrayBuffer());
+  const tagged = isPng(bytes) ? embedPng(bytes, meta) : isJpeg(bytes) ? embedJpeg(bytes, meta) : null;
+  return tagged ? new Blob([tagged] as BlobPart[], { type: blob.type }) : blob;
+};
+
+/**
+ * Reads settings embedded by embedMetadata, or null if the file has none.
+ */
+export const readMetadata = async (blob: Blob): Promise<ShotMetadata | null> => {
+  try {
+    const bytes = new Uint8Array(await blob.arrayBuffer());
+    const xmp = isPng(bytes) ? readPngXmp(bytes) : isJpeg(bytes) ? readJpegXmp(bytes) : null;
+    return xmp ? parseXmp(xmp) : null;
+  } catch (e) {
+    console.warn("Could not read embedded metadata:", e);
+    return null;
+  }
+};
@@ -0,0 +1,150 @@
+import { StudioShotProvider, StudioShotRequest, StudioShotResult } from "./studioShotProvider";
+import { getRatio } from "./imageUtils";
+import { buildPrompt } from "./promptTemplateService";
+import { LIGHT_VECTORS } from "./lightingService";
+import { applyMask } from "./compositeService";
+
+// Offline provider: composites the capture locally on a canvas.
+// Output is fully deterministic for a given input, so it is safe for demos and e2e tests.
+
+const OUTPUT_LONG_EDGE = 1024;
+
+// Stable string hash so textual backgrounds always map to the same colours
+const hashString = (str: string): number => {
+  let hash = 0;
+  for (let i = 0; i < str.length; i++) {
+    hash = (hash * 31 + str.charCodeAt(i)) | 0;
+  }
+  return Math.abs(hash);
+};
+
+const loadImage = (src: string): Promise<HTMLImageElement> =>
+  new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error("Mock provider could not decode image."));
+    img.src = src;
+  });
+
+const drawBackground = async (ctx: CanvasRenderingContext2D, width: number, height: number, request: StudioShotRequest) => {
+  const { background } = request;
+
+  if (request.styleReference && !request.refinement) {
+    // Stand-in for matching a product set's look: the reference shot, blurred past recognition
+    const img = await loadImage(request.styleReference);
+    const scale = Math.max(width / img.width, height / img.height);
+    ctx.save();
+    ctx.filter = `blur(${Math.round(Math.max(width, height) * 0.05)}px)`;
+    ctx.drawImage(img, (width - img.width * scale) / 2, (height - img.height * scale) / 2, img.width * scale, img.height * scale);
+    ctx.restore();
+    return;
+  }
+
+  if (background.type === 'solid') {
+    ctx.fillStyle = background.value;
+    ctx.fillRect(0, 0, width, height);
+    return;
+  }
+
+  if (background.type === 'image' && background.imageSrc) {
+    const img = await loadImage(background.imageSrc);
+    // Cover fit
+    const scale = Math.max(width / img.width, height / img.height);
+    const w = img.width * scale;
+    const h = img.height * scale;
+    ctx.drawImage(img, (width - w) / 2, (height - h) / 2, w, h);
+    return;
+  }
+
+  // Gradients and textures are prompt text; derive two stable hues from the description
+  const hash = hashString(background.value);
+  const hueA = hash % 360;
+  const hueB = (hueA + 40 + (hash >> 8) % 120) % 360;
+  const gradient = ctx.createLinearGradient(0, 0, width, height);
+  gradient.addColorStop(0, `hsl(${hueA}, 55%, 60%)`);
+  gradient.addColorStop(1, `hsl(${hueB}, 55%, 35%)`);
+  ctx.fillStyle = gradient;
+  ctx.fillRect(0, 0, width, height);
+};
+
+const generate = async (request: StudioShotRequest): Promise<StudioShotResult> => {
+  if (request.signal?.aborted) throw new DOMException('Generation cancelled', 'AbortError');
+  const startedAt = Date.now();
+  const ratio = getRatio(request.settings.aspectRatio);
+  const width = Math.round(ratio >= 1 ? OUTPUT_LONG_EDGE : OUTPUT_LONG_EDGE * ratio);
+  const height = Math.round(ratio >= 1 ? OUTPUT_LONG_EDGE / ratio : OUTPUT_LONG_EDGE);
+
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error("Canvas not supported in this browser.");
+
+  const [lx, ly] = LIGHT_VECTORS[request.settings.lightingDirection] || [0, -1];
+
+  if (request.backgroundPlate) {
+    // Empty set only; the product is composited on top by the caller
+    await drawBackground(ctx, width, height, request);
+  } else if (request.refinement) {
+    const product = await loadImage(request.imageBase64);
+    // A refinement edits a finished shot: keep it full frame, only relight it below
+    ctx.drawImage(product, 0, 0, width, height);
+  } else {
+    await drawBackground(ctx, width, height, request);
+
+    // A guide mask isolates the product exactly as painted
+    const product: HTMLImageElement | HTMLCanvasElement = request.mask?.mode === 'guide'
+      ? await applyMask(request.imageBase64, request.mask.maskUrl)
+      : await loadImage(request.imageBase64);
+
+    // Fit product into 70% of the frame
+    const scale = Math.min((width * 0.7) / product.width, (height * 0.7) / product.height);
+    const pw = product.width * scale;
+    const ph = product.height * scale;
+    const px = (width - pw) / 2;
+    const py = (height - ph) / 2;
+
+    // Shadow falls away from the light source
+    ctx.save();
+    ctx.shadowColor = 'rgba(0, 0, 0, 0.45)';
+    ctx.shadowBlur = Math.round(OUTPUT_LONG_EDGE * 0.04);
+    ctx.shadowOffsetX = -lx * OUTPUT_LONG_EDGE * 0.02;
+    ctx.shadowOffsetY = -ly * OUTPUT_LONG_EDGE * 0.02 + OUTPUT_LONG_EDGE * 0.01;
+    ctx.drawImage(product, px, py, pw, ph);
+    ctx.restore();
+  }
+
+  // Light falloff from the chosen direction
+  const cx = width / 2 + lx * width / 2;
+  const cy = height / 2 + ly * height / 2;
+  const glow = ctx.createRadialGradient(cx, cy, 0, cx, cy, Math.max(width, height));
+  glow.addColorStop(0, 'rgba(255, 255, 255, 0.18)');
+  glow.addColorStop(1, 'rgba(0, 0, 0, 0.18)');
+  ctx.fillStyle = glow;
+  ctx.fillRect(0, 0, width, height);
+
+  // Label the output so mock shots are never mistaken for real generations
+  ctx.font = `bold ${Math.round(OUTPUT_LONG_EDGE * 0.022)}px sans-serif`;
+  ctx.fillStyle = 'rgba(255, 255, 255, 0.7)';
+  ctx.textAlign = 'right';
+  if (request.refinement) {
+    // Top corner, so the label of the shot being refined stays readable
+    ctx.fillText(`MOCK · Refined: ${request.refinement}`, width - 16, 16 + Math.round(OUTPUT_LONG_EDGE * 0.022));
+  } else if (request.backgroundPlate) {
+    ctx.fillText(`MOCK · Plate · ${request.lighting.name}`, width - 16, 16 + Math.round(OUTPUT_LONG_EDGE * 0.022));
+  } else {
+    ctx.fillText(`MOCK · ${request.lighting.name}`, width - 16, height - 16);
+  }
+
+  request.onCall?.({ provider: mockProvider.id, model: 'canvas-composite', ok: true, durationMs: Date.now() - startedAt, imageSize: '1K', fallback: false });
+  return {
+    imageUrl: canvas.toDataURL('image/png'),
+    metadata: { provider: mockProvider.id, model: 'canvas-composite', durationMs: Date.now() - startedAt, prompt: buildPrompt(request, 'detailed') }
+  };
+};
+
+export const mockProvider: StudioShotProvider = {
+  id: 'mock',
+  name: 'Offline Mock',
+  generate,
+};
@@ -0,0 +1,94 @@
+import { PreviewQualitySettings } from "../types";
+import { loadJson, saveJson } from "./localStore";
+import { CropRect, estimateBackdropColor, findForegroundBounds } from "./imageUtils";
+import { scoreSharpness } from "./captureService";
+
+// Live quality checks on the camera preview, so a blurry, badly exposed or
+// badly framed product is caught before it costs a generation. Frames are
+// analysed on a small canvas a couple of times per second.
+
+const STORAGE_KEY = 'preview-quality';
+
+export const DEFAULT_PREVIEW_QUALITY: PreviewQualitySettings = {
+  enabled: true,
+  blockCritical: false,
+};
+
+export const PREVIEW_CHECK_INTERVAL_MS = 600;
+
+const WORK_EDGE = 160;
+const DARK_LEVEL = 8; // Luma at or below this counts as clipped shadows
+const BRIGHT_LEVEL = 247; // Luma at or above this counts as clipped highlights
+const FOREGROUND_DISTANCE = 48; // RGB distance from the backdrop that counts as product
+const EDGE_MARGIN = 0.02; // Product closer than this to the frame edge is cut off
+const MIN_PRODUCT_AREA = 0.08; // Share of the frame the product's box should cover
+const BLUR_WARNING = 60; // Laplacian variance; see captureService
+const BLUR_CRITICAL = 20;
+
+export type QualityWarningId = 'underexposed' | 'overexposed' | 'blurry' | 'no-product' | 'too-small' | 'cut-off';
+
+export interface QualityWarning {
+  id: QualityWarningId;
+  label: string;
+  severity: 'warning' | 'critical';
+}
+
+const warn = (id: QualityWarningId, label: string, critical: boolean): QualityWarning =>
+  ({ id, label, severity: critical ? 'critical' : 'warning' });
+
+/**
+ * Checks exposure, sharpness and product framing inside `crop` of the
+ * current video frame.
+ */
+export const analyzePreview = (video: HTMLVideoElement, crop: CropRect): QualityWarning[] => {
+  const scale = WORK_EDGE / Math.max(crop.width, crop.height);
+  const width = Math.max(1, Math.round(crop.width * scale));
+  const height = Math.max(1, Math.round(crop.height * scale));
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) return [];
+  ctx.drawImage(video, crop.x, crop.y, crop.width, crop.height, 0, 0, width, height);
+  const rgba = ctx.getImageData(0, 0, width, height).data;
+
+  const warnings: QualityWarning[] = [];
+
+  // Exposure: share of clipped shadows and highlights
+  let dark = 0;
+  let bright = 0;
+  const pixels = width * height;
+  for (let i = 0; i < rgba.length; i += 4) {
+    const luma = 0.299 * rgba[i] + 0.587 * rgba[i + 1] + 0.114 * rgba[i + 2];
+    if (luma <= DARK_LEVEL) dark++;
+    else if (luma >= BRIGHT_LEVEL) bright++;
+  }
+  // White sweeps legitimately sit near clipping, so highlights get more room than shadows
+  if (dark / pixels > 0.25) warnings.push(warn('underexposed', 'Too dark', dark / pixels > 0.5));
+  if (bright / pixels > 0.4) warnings.push(warn('overexposed', 'Blown highlights', bright / pixels > 0.7));
+
+  const sharpness = scoreSharpness(video, crop);
+  if (sharpness < BLUR_WARNING) warnings.push(warn('blurry', 'Blurry', sharpness < BLUR_CRITICAL));
+
+  // Framing: the product's box against the capture frame
+  const bounds = findForegroundBounds(rgba, width, height, estimateBackdropColor(rgba, width, height), FOREGROUND_DISTANCE);
+  if (!bounds) {
+    warnings.push(warn('no-product', 'No product found', false));
+  } else {
+    const marginX = width * EDGE_MARGIN;
+    const marginY = height * EDGE_MARGIN;
+    const cutOff = bounds.x <= marginX || bounds.y <= marginY
+      || bounds.x + bounds.width >= width - marginX || bounds.y + bounds.height >= height - marginY;
+    if (cutOff) warnings.push(warn('cut-off', 'Cut off by frame', true));
+    else if ((bounds.width * bounds.height) / pixels < MIN_PRODUCT_AREA) warnings.push(warn('too-small', 'Product too small', false));
+  }
+
+  return warnings;
+};
+
+export const hasCriticalWarning = (warnings: QualityWarning[]) => warnings.some(w => w.severity === 'critical');
+
+export const loadPreviewQualitySettings = (): PreviewQualitySettings =>
+  ({ ...DEFAULT_PREVIEW_QUALITY, ...loadJson<Partial<PreviewQualitySettings>>(STORAGE_KEY, {}) });
+
+export const savePreviewQualitySettings = (settings: PreviewQualitySettings) => saveJson(STORAGE_KEY, settings);
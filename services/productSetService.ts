@@ -0,0 +1,84 @@
+import { GeneratedImage, GenerationJob, ProductSet, ProductSetRef, ProjectSetup } from "../types";
+import { loadJson, saveJson } from "./localStore";
+import { getRootId, latestVersions } from "./versionService";
+
+const STORAGE_KEY = 'product-sets';
+const ACTIVE_KEY = 'active-product-set';
+
+export const DEFAULT_ANGLES = ['Front', 'Side', 'Back', 'Detail'];
+
+// "Front, Side" or one per line
+export const parseAngles = (text: string) =>
+  [...new Set(text.split(/[,\n]/).map(angle => angle.trim()).filter(Boolean))];
+
+export const createProductSet = (name: string, angles: string[], setup: ProjectSetup, projectId?: string): ProductSet => ({
+  id: `set-${Date.now().toString(36)}`,
+  name,
+  angles,
+  setup: { ...setup, settings: { ...setup.settings } },
+  acceptedIds: [],
+  projectId,
+  createdAt: Date.now(),
+});
+
+export const toProductSetRef = (set: ProductSet, angle: string): ProductSetRef => ({ id: set.id, name: set.name, angle });
+
+// Newest version of every shot taken for the set
+export const getSetShots = (images: GeneratedImage[], setId: string) =>
+  latestVersions(images.filter(img => img.productSet?.id === setId));
+
+/**
+ * Accepted shots in acceptance order (newest version of each); the first
+ * one is the style reference for the rest of the set.
+ */
+export const getAcceptedShots = (set: ProductSet, images: GeneratedImage[]): GeneratedImage[] => {
+  const shots = getSetShots(images, set.id);
+  return set.acceptedIds
+    .map(rootId => shots.find(img => getRootId(img) === rootId))
+    .filter((img): img is GeneratedImage => !!img);
+};
+
+export const getReferenceShot = (set: ProductSet, images: GeneratedImage[]) => getAcceptedShots(set, images)[0] || null;
+
+/**
+ * Accepts a shot for its angle, replacing an earlier pick for the same
+ * angle in place (so the reference keeps its position), or un-accepts it.
+ */
+export const toggleAccepted = (set: ProductSet, image: GeneratedImage, images: GeneratedImage[]): ProductSet => {
+  const rootId = getRootId(image);
+  if (set.acceptedIds.includes(rootId)) {
+    return { ...set, acceptedIds: set.acceptedIds.filter(id => id !== rootId) };
+  }
+  const sameAngle = getAcceptedShots(set, images).find(img => img.productSet?.angle === image.productSet?.angle);
+  const acceptedIds = sameAngle
+    ? set.acceptedIds.map(id => id === getRootId(sameAngle) ? rootId : id)
+    : [...set.acceptedIds, rootId];
+  return { ...set, acceptedIds };
+};
+
+/**
+ * The angle to shoot next: the first one with no shot or queued job yet,
+ * then the first one still without an accepted shot.
+ */
+export const getNextAngle = (set: ProductSet, images: GeneratedImage[], jobs: GenerationJob[]): string | null => {
+  const shots = getSetShots(images, set.id);
+  const accepted = getAcceptedShots(set, images);
+  const covered = (angle: string) =>
+    shots.some(img => img.productSet?.angle === angle)
+    || jobs.some(job => job.productSet?.id === set.id && job.productSet.angle === angle && job.status !== 'failed');
+  return set.angles.find(angle => !covered(angle))
+    || set.angles.find(angle => !accepted.some(img => img.productSet?.angle === angle))
+    || null;
+};
+
+const isValidSet = (s: any): s is ProductSet =>
+  s && typeof s.id === 'string' && Array.isArray(s.angles) && Array.isArray(s.acceptedIds) && s.setup;
+
+export const loadProductSets = (): ProductSet[] =>
+  loadJson<ProductSet[]>(STORAGE_KEY, []).filter(isValidSet);
+
+export const saveProductSets = (sets: ProductSet[]) => saveJson(STORAGE_KEY, sets);
+
+export const loadActiveProductSetId = () => loadJson<string | null>(ACTIVE_KEY, null);
+
+export const saveActiveProductSetId = (id: string | null) => saveJson(ACTIVE_KEY, id);
@@ -0,0 +1,33 @@
+import { Project, ProjectSetup } from "../types";
+import { loadJson, saveJson } from "./localStore";
+
+const STORAGE_KEY = 'projects';
+const ACTIVE_KEY = 'active-project';
+
+export type ProjectFields = Pick<Project, 'name' | 'client' | 'skus' | 'notes'>;
+
+export const createProject = (fields: ProjectFields, existing?: Project): Project => ({
+  ...existing,
+  ...fields,
+  id: existing?.id || `project-${Date.now().toString(36)}`,
+  createdAt: existing?.createdAt || Date.now(),
+});
+
+export const withSetup = (project: Project, setup: ProjectSetup): Project =>
+  ({ ...project, lastSetup: { ...setup, settings: { ...setup.settings } } });
+
+// "SKU-1, SKU-2" or one per line
+export const parseSkus = (text: string) =>
+  [...new Set(text.split(/[,\n]/).map(sku => sku.trim()).filter(Boolean))];
+
+const isValidProject = (p: any): p is Project =>
+  p && typeof p.id === 'string' && typeof p.name === 'string' && Array.isArray(p.skus);
+
+export const loadProjects = (): Project[] =>
+  loadJson<Project[]>(STORAGE_KEY, []).filter(isValidProject);
+
+export const saveProjects = (projects: Project[]) => saveJson(STORAGE_KEY, projects);
+
+export const loadActiveProjectId = () => loadJson<string | null>(ACTIVE_KEY, null);
+
+export const saveActiveProjectId = (id: string | null) => saveJson(ACTIVE_KEY, id);
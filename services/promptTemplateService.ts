@@ -0,0 +1,175 @@
+import { BackgroundOption, CameraSettings, LightingOption, PromptTemplate, PromptTemplateRef, PromptVariant, SubjectMask } from "../types";
+import { LIGHT_DIRECTION_DESCRIPTIONS } from "./lightingService";
+import { loadJson, saveJson } from "./localStore";
+
+const STORAGE_KEY = 'prompt-templates';
+
+export const PROMPT_VARIABLES = ['background', 'lighting', 'direction', 'aspectRatio'] as const;
+export type PromptVariable = typeof PROMPT_VARIABLES[number];
+
+export const PROMPT_VARIANTS: { variant: PromptVariant; label: string }[] = [
+  { variant: 'detailed', label: 'Pro' },
+  { variant: 'detailedComposite', label: 'Pro · Scene' },
+  { variant: 'simple', label: 'Flash' },
+  { variant: 'simpleComposite', label: 'Flash · Scene' },
+];
+
+// The studio's original photography instructions
+export const DEFAULT_PROMPT_TEMPLATE: PromptTemplate = {
+  id: 'studio-default',
+  name: 'Studio Default',
+  version: 1,
+  prompts: {
+    detailed: `You are a professional commercial product photographer and high-end retoucher.
+
+OBJECTIVE:
+Identify the SINGLE MAIN SUBJECT in the foreground of the input image. Isolate it completely from the original environment and composite it onto a new background: "{{background}}".
+
+CRITICAL SEGMENTATION RULES:
+1. IGNORE SURROUNDINGS: Discard the original background, table surfaces, and any surrounding clutter.
+2. IGNORE INTERFERENCE: If hands are holding the object or other objects are partially visible at the edges, REMOVE THEM. Keep only the main product.
+3. FOCUS: The camera has focused on the main product. Everything else is irrelevant.
+
+STRICT RULES FOR SUBJECT PRESERVATION (DO NOT IGNORE):
+1. THE PRODUCT IS SACRED: Do NOT redraw, stylize, or alter the internal details of the product.
+2. PRESERVE TEXT & LOGOS: Any text, logos, or labels on the product must remain legible and unchanged.
+3. PRESERVE TEXTURE: Keep the original surface texture and material finish of the product.
+4. NO HALLUCINATIONS: Do not add parts to the product that are not there. The input image is the source of truth.
+
+PHOTOGRAPHY SETTINGS:
+- OUTPUT QUALITY: 4K Ultra High Definition (3840x2160).
+- LIGHTING: Apply "{{lighting}}".
+- LIGHT DIRECTION: Light source {{direction}}.
+- SHADOWS: Cast realistic, physically accurate shadows from the product onto the new background.`,
+    detailedComposite: `You are an expert high-end commercial retoucher.
+
+TASK:
+Composite the product from Image 1 onto the background scene in Image 2.
+
+RULES:
+1. PRESERVE IDENTITY: The product from Image 1 must look exactly the same in the final output. Do not alter its shape, color, or details.
+2. ISOLATION: Remove the original background from Image 1 completely. Only transfer the main product.
+3. PERSPECTIVE: Place the product naturally within the scene of Image 2.
+4. LIGHTING MATCH: Apply lighting style "{{lighting}}" with direction {{direction}} to match the background environment.
+5. QUALITY: 4K Ultra High Definition.`,
+    simple: `Professional Product Photography.
+1. Identify the MAIN PRODUCT. Ignore background, clutter, and holding hands.
+2. Keep the product EXACTLY as it looks in the original image. Do not alter text or details.
+3. Place ONLY the product onto this background: {{background}}.
+4. Lighting: {{lighting}}. High quality 4K.`,
+    simpleComposite: `Composite product from image 1 into image 2. Isolate product. Keep product exact. High quality.`,
+  },
+};
+
+export const getPromptVariables = (
+  background: BackgroundOption,
+  lighting: LightingOption,
+  settings: CameraSettings
+): Record<PromptVariable, string> => ({
+  background: background.type === 'solid'
+    ? `a solid, flat, matte background of this exact color: ${background.value}`
+    : background.value,
+  lighting: lighting.value,
+  direction: LIGHT_DIRECTION_DESCRIPTIONS[settings.lightingDirection] || 'professional studio lighting',
+  aspectRatio: settings.aspectRatio,
+});
+
+// Unknown placeholders are left as-is so typos stay visible in the preview
+export const renderTemplate = (text: string, variables: Record<string, string>): string =>
+  text.replace(/\{\{\s*(\w+)\s*\}\}/g, (match, name) => Object.prototype.hasOwnProperty.call(variables, name) ? variables[name] : match);
+
+export interface PromptInput {
+  background: BackgroundOption;
+  lighting: LightingOption;
+  settings: CameraSettings;
+  template?: PromptTemplate;
+  promptAdditions?: string; // Brand kit rules and the user's own instructions
+  refinement?: string; // Follow-up edit of a finished shot; replaces the template
+  mask?: SubjectMask;
+  backgroundPlate?: boolean; // Empty set only; replaces the template
+  styleReference?: string; // Only checked for presence; the image itself goes to the provider
+}
+
+// Pixel-exact compositing: the model paints only the set, the real product is laid over it later
+const PLATE_PROMPTS: Record<'detailed' | 'simple', string> = {
+  detailed: `You are a professional commercial product photographer.
+
+Create an EMPTY studio background plate: "{{background}}".
+
+RULES:
+1. NOTHING ON SET: Do not include any product, object, hand, person or text. Only the empty background and surface.
+2. COMPOSITION: {{aspectRatio}} frame, camera at product height, with a clear area in the center where a product will be placed later.
+3. LIGHTING: Apply "{{lighting}}", light source {{direction}}.
+4. QUALITY: 4K Ultra High Definition.`,
+  simple: `Empty product photography background plate: {{background}}. Lighting: {{lighting}}, {{direction}}. {{aspectRatio}} frame. No product, no objects, no text.`,
+};
+
+const MASK_GUIDE_RULE = `SUBJECT MASK:
+The black-and-white input image is a mask of the first one. White marks exactly the product to keep; remove everything that is black (hands, props, table, background). Do not cut into the white area.`;
+
+// Product sets: later angles copy the look of the first accepted shot
+const STYLE_REFERENCE_RULE = `STYLE REFERENCE:
+The last input image is an approved shot from the same product set. Match its background, surface, lighting direction and softness, shadow style, colour grading and camera height exactly. Only the product's angle may differ; never copy the product from it.`;
+
+// A refinement starts from the finished shot, so only the requested change is described
+const REFINEMENT_PROMPTS: Record<'detailed' | 'simple', string> = {
+  detailed: `You are a professional commercial product photographer and high-end retoucher.
+
+The input image is a finished studio product shot. Apply ONLY this change: "{{instruction}}".
+
+RULES:
+1. KEEP EVERYTHING ELSE: Product, background, composition, framing and lighting stay as they are unless the change asks otherwise.
+2. THE PRODUCT IS SACRED: Do not alter its shape, color, text, logos, labels or texture.
+3. QUALITY: Keep the resolution and photographic quality of the input.`,
+  simple: `Edit this product photo. Only change: {{instruction}}. Keep the product, its text and everything else exactly the same.`,
+};
+
+/**
+ * Renders the final prompt text for one model tier.
+ */
+export const buildPrompt = (
+  { background, lighting, settings, template = DEFAULT_PROMPT_TEMPLATE, promptAdditions, refinement, mask, backgroundPlate, styleReference }: PromptInput,
+  style: 'detailed' | 'simple'
+): string => {
+  const hasBgImage = background.type === 'image' && !!background.imageSrc;
+  const variant: PromptVariant = hasBgImage ? `${style}Composite` : style;
+  const variables = getPromptVariables(background, lighting, settings);
+  let prompt = refinement
+    ? REFINEMENT_PROMPTS[style].replace('{{instruction}}', () => refinement.trim()) // Keeps "$&" in the user's text literal
+    : backgroundPlate
+      ? renderTemplate(PLATE_PROMPTS[style], variables) + (hasBgImage ? '\nBase the set on the provided scene image.' : '')
+      : renderTemplate(template.prompts[variant], variables);
+
+  if (mask?.mode === 'guide' && !refinement && !backgroundPlate) {
+    prompt += `\n\n${MASK_GUIDE_RULE}`;
+  }
+
+  if (styleReference && !refinement) {
+    prompt += `\n\n${STYLE_REFERENCE_RULE}`;
+  }
+
+  if (promptAdditions?.trim()) {
+    prompt += `\n\nADDITIONAL RULES:\n${promptAdditions.trim()}`;
+  }
+  return prompt;
+};
+
+export const toPromptTemplateRef = (template: PromptTemplate): PromptTemplateRef =>
+  ({ id: template.id, name: template.name, version: template.version });
+
+// Saving over an existing template bumps its version
+export const createPromptTemplate = (name: string, prompts: Record<PromptVariant, string>, existing?: PromptTemplate): PromptTemplate => ({
+  id: existing && existing.id !== DEFAULT_PROMPT_TEMPLATE.id ? existing.id : `user-prompt-${Date.now().toString(36)}`,
+  name,
+  version: existing && existing.id !== DEFAULT_PROMPT_TEMPLATE.id ? existing.version + 1 : 1,
+  prompts,
+});
+
+const isValidTemplate = (t: any): t is PromptTemplate =>
+  t && typeof t.id === 'string' && typeof t.name === 'string' && typeof t.version === 'number'
+  && t.prompts && PROMPT_VARIANTS.every(({ variant }) => typeof t.prompts[variant] === 'string');
+
+export const loadPromptTemplates = (): PromptTemplate[] =>
+  loadJson<PromptTemplate[]>(STORAGE_KEY, []).filter(isValidTemplate);
+
+export const savePromptTemplates = (templates: PromptTemplate[]) => saveJson(STORAGE_KEY, templates);
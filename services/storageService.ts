@@ -0,0 +1,292 @@
+import { GeneratedImage, GenerationJob, LibraryBackground } from "../types";
+
+const DB_NAME = 'instant-studio';
+const DB_VERSION = 3;
+const IMAGE_STORE = 'images';
+const JOB_STORE = 'jobs';
+const BACKGROUND_STORE = 'backgrounds';
+
+// Shape stored in IndexedDB: data URLs are kept as Blobs to avoid the ~33% base64 overhead
+interface StoredImage extends Omit<GeneratedImage, 'originalUrl' | 'generatedUrl'> {
+  originalBlob: Blob;
+  generatedBlob: Blob;
+}
+
+interface StoredJob extends Omit<GenerationJob, 'originalUrl'> {
+  originalBlob: Blob;
+}
+
+interface StoredBackground extends Omit<LibraryBackground, 'imageSrc'> {
+  imageBlob?: Blob;
+}
+
+export interface StorageUsage {
+  usage: number; // bytes
+  quota: number; // bytes
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error("IndexedDB not supported in this browser."));
+      return;
+    }
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(IMAGE_STORE)) {
+        const store = db.createObjectStore(IMAGE_STORE, { keyPath: 'id' });
+        store.createIndex('timestamp', 'timestamp');
+      }
+      if (!db.objectStoreNames.contains(JOB_STORE)) {
+        db.createObjectStore(JOB_STORE, { keyPath: 'id' });
+      }
+      if (!db.objectStoreNames.contains(BACKGROUND_STORE)) {
+        db.createObjectStore(BACKGROUND_STORE, { keyPath: 'id' });
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+  // Allow a later call to retry if opening failed (e.g. private mode)
+  dbPromise.catch(() => { dbPromise = null; });
+  return dbPromise;
+};
+
+const promisifyRequest = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const promisifyTransaction = (tx: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error || new DOMException('Transaction aborted', 'AbortError'));
+  });
+
+export const dataUrlToBlob = async (dataUrl: string): Promise<Blob> => {
+  const res = await fetch(dataUrl);
+  return res.blob();
+};
+
+export const blobToDataUrl = (blob: Blob): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onloadend = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+
+export const isQuotaError = (error: any): boolean =>
+  !!error && (
+    error.name === 'QuotaExceededError' ||
+    error.name === 'NS_ERROR_DOM_QUOTA_REACHED' ||
+    error.code === 22
+  );
+
+/**
+ * Runs the writes for one record in the order they were issued. Saves convert
+ * data URLs to blobs before their put, so a delete issued meanwhile could land
+ * first and the record would come back on reload.
+ */
+export const createWriteChain = () => {
+  const pending = new Map<string, Promise<unknown>>();
+  return <T>(id: string, write: () => Promise<T>): Promise<T> => {
+    const next = (pending.get(id) || Promise.resolve()).catch(() => undefined).then(write);
+    pending.set(id, next);
+    const settle = () => {
+      if (pending.get(id) === next) pending.delete(id);
+    };
+    next.then(settle, settle);
+    return next;
+  };
+};
+
+const toStored = async (image: GeneratedImage): Promise<StoredImage> => {
+  const { originalUrl, generatedUrl, ...rest } = image;
+  return {
+    ...rest,
+    originalBlob: await dataUrlToBlob(originalUrl),
+    generatedBlob: await dataUrlToBlob(generatedUrl),
+  };
+};
+
+const fromStored = async (stored: StoredImage): Promise<GeneratedImage> => {
+  const { originalBlob, generatedBlob, ...rest } = stored;
+  return {
+    ...rest,
+    originalUrl: await blobToDataUrl(originalBlob),
+    generatedUrl: await blobToDataUrl(generatedBlob),
+  };
+};
+
+/**
+ * Loads all persisted gallery images, newest first.
+ */
+export const loadImages = async (): Promise<GeneratedImage[]> => {
+  const db = await openDb();
+  const tx = db.transaction(IMAGE_STORE, 'readonly');
+  const stored = await promisifyRequest(tx.objectStore(IMAGE_STORE).getAll()) as StoredImage[];
+  const images = await Promise.all(stored.map(fromStored));
+  return images.sort((a, b) => b.timestamp - a.timestamp);
+};
+
+const putStored = async (stored: StoredImage): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction(IMAGE_STORE, 'readwrite');
+  tx.objectStore(IMAGE_STORE).put(stored);
+  await promisifyTransaction(tx);
+};
+
+/**
+ * Removes the N oldest images. Returns the ids that were evicted.
+ */
+export const evictOldest = async (count: number): Promise<string[]> => {
+  const db = await openDb();
+  const tx = db.transaction(IMAGE_STORE, 'readwrite');
+  const index = tx.objectStore(IMAGE_STORE).index('timestamp');
+  const evicted: string[] = [];
+
+  await new Promise<void>((resolve, reject) => {
+    const cursorRequest = index.openCursor();
+    cursorRequest.onsuccess = () => {
+      const cursor = cursorRequest.result;
+      if (!cursor || evicted.length >= count) {
+        resolve();
+        return;
+      }
+      evicted.push((cursor.value as StoredImage).id);
+      cursor.delete();
+      cursor.continue();
+    };
+    cursorRequest.onerror = () => reject(cursorRequest.error);
+  });
+
+  await promisifyTransaction(tx);
+  return evicted;
+};
+
+/**
+ * Persists an image. When the browser quota is hit, the oldest entries are
+ * evicted one at a time until the write succeeds.
+ * Returns the ids that had to be evicted to make room.
+ */
+export const saveImage = async (image: GeneratedImage, maxEvictions = 20): Promise<string[]> => {
+  const stored = await toStored(image);
+  const evicted: string[] = [];
+
+  while (true) {
+    try {
+      await putStored(stored);
+      return evicted;
+    } catch (error: any) {
+      if (!isQuotaError(error) || evicted.length >= maxEvictions) throw error;
+      const removed = await evictOldest(1);
+      // Nothing left to evict, the image alone doesn't fit
+      if (removed.length === 0) throw error;
+      evicted.push(...removed);
+    }
+  }
+};
+
+export const deleteImage = async (id: string): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction(IMAGE_STORE, 'readwrite');
+  tx.objectStore(IMAGE_STORE).delete(id);
+  await promisifyTransaction(tx);
+};
+
+/**
+ * Loads queued generation jobs, oldest first. Jobs that were running when the
+ * page went away are handed back as pending so they run again.
+ */
+export const loadJobs = async (): Promise<GenerationJob[]> => {
+  const db = await openDb();
+  const tx = db.transaction(JOB_STORE, 'readonly');
+  const stored = await promisifyRequest(tx.objectStore(JOB_STORE).getAll()) as StoredJob[];
+  const jobs = await Promise.all(stored.map(async ({ originalBlob, ...rest }): Promise<GenerationJob> => ({
+    ...rest,
+    status: rest.status === 'running' ? 'pending' : rest.status,
+    originalUrl: await blobToDataUrl(originalBlob),
+  })));
+  return jobs.sort((a, b) => a.createdAt - b.createdAt);
+};
+
+export const saveJob = async (job: GenerationJob): Promise<void> => {
+  const { originalUrl, ...rest } = job;
+  const stored: StoredJob = { ...rest, originalBlob: await dataUrlToBlob(originalUrl) };
+  const db = await openDb();
+  const tx = db.transaction(JOB_STORE, 'readwrite');
+  tx.objectStore(JOB_STORE).put(stored);
+  await promisifyTransaction(tx);
+};
+
+export const deleteJob = async (id: string): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction(JOB_STORE, 'readwrite');
+  tx.objectStore(JOB_STORE).delete(id);
+  await promisifyTransaction(tx);
+};
+
+export const loadBackgrounds = async (): Promise<LibraryBackground[]> => {
+  const db = await openDb();
+  const tx = db.transaction(BACKGROUND_STORE, 'readonly');
+  const stored = await promisifyRequest(tx.objectStore(BACKGROUND_STORE).getAll()) as StoredBackground[];
+  const backgrounds = await Promise.all(stored.map(async ({ imageBlob, ...rest }): Promise<LibraryBackground> => ({
+    ...rest,
+    ...(imageBlob ? { imageSrc: await blobToDataUrl(imageBlob) } : {}),
+  })));
+  return backgrounds.sort((a, b) => a.createdAt - b.createdAt);
+};
+
+export const saveBackground = async (background: LibraryBackground): Promise<void> => {
+  const { imageSrc, ...rest } = background;
+  const stored: StoredBackground = { ...rest, ...(imageSrc ? { imageBlob: await dataUrlToBlob(imageSrc) } : {}) };
+  const db = await openDb();
+  const tx = db.transaction(BACKGROUND_STORE, 'readwrite');
+  tx.objectStore(BACKGROUND_STORE).put(stored);
+  await promisifyTransaction(tx);
+};
+
+export const deleteBackground = async (id: string): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction(BACKGROUND_STORE, 'readwrite');
+  tx.objectStore(BACKGROUND_STORE).delete(id);
+  await promisifyTransaction(tx);
+};
+
+export const getStorageUsage = async (): Promise<StorageUsage | null> => {
+  if (!navigator.storage?.estimate) return null;
+  try {
+    const { usage = 0, quota = 0 } = await navigator.storage.estimate();
+    return { usage, quota };
+  } catch (e) {
+    console.warn("Could not estimate storage:", e);
+    return null;
+  }
+};
+
+// Ask the browser not to clear our data under storage pressure (best-effort)
+export const requestPersistentStorage = async (): Promise<boolean> => {
+  if (!navigator.storage?.persist) return false;
+  try {
+    if (await navigator.storage.persisted()) return true;
+    return await navigator.storage.persist();
+  } catch (e) {
+    return false;
+  }
+};
+
+export const formatBytes = (bytes: number): string => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(0)} KB`;
+  if (bytes < 1024 * 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+  return `${(bytes / (1024 * 1024 * 1024)).toFixed(2)} GB`;
+};
@@ -0,0 +1,47 @@
+import { StudioShotProvider, StudioShotRequest, StudioShotResult } from "./studioShotProvider";
+import { geminiProvider } from "./geminiService";
+import { mockProvider } from "./mockProvider";
+import { compositeOnPlate } from "./compositeService";
+
+const PROVIDERS: Record<string, StudioShotProvider> = {
+  [geminiProvider.id]: geminiProvider,
+  [mockProvider.id]: mockProvider,
+};
+
+const DEFAULT_PROVIDER_ID = geminiProvider.id;
+
+/**
+ * Resolves the provider from configuration (STUDIO_PROVIDER, see vite.config.ts).
+ * A `?provider=mock` query parameter overrides it, which is handy for demos and e2e runs.
+ */
+export const getStudioShotProvider = (): StudioShotProvider => {
+  const fromQuery = typeof window !== 'undefined'
+    ? new URLSearchParams(window.location.search).get('provider')
+    : null;
+  const id = fromQuery || process.env.STUDIO_PROVIDER || DEFAULT_PROVIDER_ID;
+
+  const provider = Object.prototype.hasOwnProperty.call(PROVIDERS, id) ? PROVIDERS[id] : undefined;
+  if (!provider) {
+    console.warn(`Unknown provider "${id}", using ${DEFAULT_PROVIDER_ID}.`);
+    return PROVIDERS[DEFAULT_PROVIDER_ID];
+  }
+  return provider;
+};
+
+/**
+ * Generates a shot with the configured provider. With a 'composite' subject
+ * mask the provider only renders the empty set, and the product pixels from
+ * the capture are laid over it locally, so they reach the output unchanged.
+ */
+export const generateStudioShot = async (request: StudioShotRequest): Promise<StudioShotResult> => {
+  const provider = getStudioShotProvider();
+  const { mask } = request;
+  if (mask?.mode !== 'composite' || request.refinement) return provider.generate(request);
+
+  const plate = await provider.generate({ ...request, backgroundPlate: true });
+  if (request.signal?.aborted) throw new DOMException('Generation cancelled', 'AbortError');
+  const imageUrl = await compositeOnPlate(request.imageBase64, mask.maskUrl, plate.imageUrl, request.settings.lightingDirection);
+  return { ...plate, imageUrl };
+};
+
+export const isAbortError = (error: any): boolean => error?.name === 'AbortError';
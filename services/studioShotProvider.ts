@@ -0,0 +1,49 @@
+import { BackgroundOption, LightingOption, CameraSettings, PromptTemplate, SubjectMask } from "../types";
+import { GenerationErrorKind } from "./generationErrors";
+
+export interface StudioShotRequest {
+  imageBase64: string; // Product capture as a data URL
+  background: BackgroundOption;
+  lighting: LightingOption;
+  settings: CameraSettings;
+  template?: PromptTemplate; // Prompt wording; DEFAULT_PROMPT_TEMPLATE when omitted
+  promptAdditions?: string; // Brand kit rules and user instructions, appended to the template
+  refinement?: string; // Follow-up edit; imageBase64 is then a finished shot to change, not a raw capture
+  mask?: SubjectMask; // Hand-painted subject mask for imageBase64
+  backgroundPlate?: boolean; // Generate only the empty set (the product is composited locally afterwards)
+  styleReference?: string; // Finished shot (data URL) whose background and lighting should be matched
+  signal?: AbortSignal; // Aborts pending retries/fallbacks; an in-flight call may still complete
+  onCall?: (call: StudioShotCall) => void; // Reported after every model call, including retries and fallbacks
+}
+
+// One request to a model, for usage tracking
+export interface StudioShotCall {
+  provider: string;
+  model: string;
+  ok: boolean;
+  errorKind?: GenerationErrorKind;
+  durationMs: number;
+  imageSize?: string; // '1K' | '2K' | '4K'
+  fallback: boolean; // Not the first model of the chain
+}
+
+export interface StudioShotMetadata {
+  provider: string;
+  model: string;
+  durationMs: number;
+  prompt?: string; // Final prompt text, for providers that use one
+}
+
+export interface StudioShotResult {
+  imageUrl: string; // Generated image as a data URL
+  metadata: StudioShotMetadata;
+}
+
+/**
+ * A backend that turns a raw product capture into a studio shot.
+ */
+export interface StudioShotProvider {
+  id: string;
+  name: string;
+  generate: (request: StudioShotRequest) => Promise<StudioShotResult>;
+}
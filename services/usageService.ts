@@ -0,0 +1,114 @@
+import { ModelPrice, UsageEntry, UsageSettings } from "../types";
+import { StudioShotCall } from "./studioShotProvider";
+import { loadJson, saveJson } from "./localStore";
+
+// Usage ledger: every model call with its outcome, latency and estimated
+// cost, plus the budget that warns and then stops the queue.
+
+const LEDGER_KEY = 'usage-ledger';
+const SETTINGS_KEY = 'usage-settings';
+const MAX_ENTRIES = 5000; // Oldest calls are dropped beyond this, to stay within localStorage
+
+// List prices at the time of writing; editable in the usage dashboard
+export const DEFAULT_PRICES: ModelPrice[] = [
+  { model: 'gemini-3-pro-image-preview', perImage: 0.134, perImage4K: 0.24 },
+  { model: 'gemini-2.5-flash-image', perImage: 0.039 },
+  { model: 'canvas-composite', perImage: 0 },
+];
+
+export const DEFAULT_USAGE_SETTINGS: UsageSettings = {
+  prices: DEFAULT_PRICES,
+  budget: null,
+  period: 'month',
+  warnAt: 0.8,
+};
+
+export type BudgetStatus = 'ok' | 'warning' | 'blocked';
+
+export interface UsageSummary {
+  key: string;
+  calls: number;
+  failures: number;
+  fallbacks: number;
+  cost: number;
+  avgLatencyMs: number;
+}
+
+/**
+ * Estimated price of one call. Failed calls return no image and are
+ * counted as free; unknown models too, until they get a price.
+ */
+export const estimateCost = (call: Pick<StudioShotCall, 'model' | 'ok' | 'imageSize'>, prices: ModelPrice[]): number => {
+  if (!call.ok) return 0;
+  const price = prices.find(p => p.model === call.model);
+  if (!price) return 0;
+  return call.imageSize === '4K' && price.perImage4K !== undefined ? price.perImage4K : price.perImage;
+};
+
+export const createUsageEntry = (call: StudioShotCall, prices: ModelPrice[], projectId?: string): UsageEntry => ({
+  ...call,
+  id: `usage-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`,
+  timestamp: Date.now(),
+  cost: estimateCost(call, prices),
+  projectId,
+});
+
+export const getPeriodStart = (period: UsageSettings['period'], now = Date.now()): number => {
+  const d = new Date(now);
+  return period === 'day'
+    ? new Date(d.getFullYear(), d.getMonth(), d.getDate()).getTime()
+    : new Date(d.getFullYear(), d.getMonth(), 1).getTime();
+};
+
+export const getPeriodSpend = (entries: UsageEntry[], period: UsageSettings['period'], now = Date.now()): number => {
+  const start = getPeriodStart(period, now);
+  return entries.filter(e => e.timestamp >= start).reduce((sum, e) => sum + e.cost, 0);
+};
+
+export const getBudgetStatus = (entries: UsageEntry[], settings: UsageSettings, now = Date.now()): BudgetStatus => {
+  if (settings.budget === null) return 'ok';
+  const spend = getPeriodSpend(entries, settings.period, now);
+  if (spend >= settings.budget) return 'blocked';
+  return spend >= settings.budget * settings.warnAt ? 'warning' : 'ok';
+};
+
+// Local calendar day, e.g. "2025-01-31"
+export const dayKey = (timestamp: number) => {
+  const d = new Date(timestamp);
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}`;
+};
+
+/**
+ * Totals per key (day, project...), highest key first.
+ */
+export const summarizeUsage = (entries: UsageEntry[], keyOf: (entry: UsageEntry) => string): UsageSummary[] => {
+  const groups = new Map<string, UsageSummary & { totalLatency: number }>();
+  for (const entry of entries) {
+    const key = keyOf(entry);
+    const group = groups.get(key) || { key, calls: 0, failures: 0, fallbacks: 0, cost: 0, avgLatencyMs: 0, totalLatency: 0 };
+    group.calls++;
+    if (!entry.ok) group.failures++;
+    if (entry.fallback) group.fallbacks++;
+    group.cost += entry.cost;
+    group.totalLatency += entry.durationMs;
+    groups.set(key, group);
+  }
+  return [...groups.values()]
+    .map(({ totalLatency, ...summary }) => ({ ...summary, avgLatencyMs: totalLatency / summary.calls }))
+    .sort((a, b) => b.key.localeCompare(a.key));
+};
+
+export const formatCost = (usd: number) => `$${usd.toFixed(usd < 10 ? 2 : 0)}`;
+
+const isValidEntry = (e: any): e is UsageEntry =>
+  e && typeof e.timestamp === 'number' && typeof e.model === 'string' && typeof e.cost === 'number';
+
+export const loadUsageLedger = (): UsageEntry[] => loadJson<UsageEntry[]>(LEDGER_KEY, []).filter(isValidEntry);
+
+export const saveUsageLedger = (entries: UsageEntry[]) => saveJson(LEDGER_KEY, entries.slice(-MAX_ENTRIES));
+
+export const loadUsageSettings = (): UsageSettings =>
+  ({ ...DEFAULT_USAGE_SETTINGS, ...loadJson<Partial<UsageSettings>>(SETTINGS_KEY, {}) });
+
+export const saveUsageSettings = (settings: UsageSettings) => saveJson(SETTINGS_KEY, settings);
@@ -0,0 +1,47 @@
+import { BackgroundOption, CameraSettings, GeneratedImage, LightingDirection, LightingOption, ProjectSetup } from "../types";
+
+// Refined shots are stored as separate gallery images linked to their parent;
+// these helpers put the chain back together.
+
+export const getRootId = (image: GeneratedImage) => image.refinement?.rootId || image.id;
+
+// Every version of the shot, oldest first
+export const getVersions = (images: GeneratedImage[], image: GeneratedImage): GeneratedImage[] => {
+  const rootId = getRootId(image);
+  return images.filter(img => getRootId(img) === rootId).sort((a, b) => a.timestamp - b.timestamp);
+};
+
+// Only the newest version of each shot, keeping the gallery order
+export const latestVersions = (images: GeneratedImage[]): GeneratedImage[] => {
+  const latest = new Map<string, GeneratedImage>();
+  for (const image of images) {
+    const current = latest.get(getRootId(image));
+    if (!current || image.timestamp > current.timestamp) latest.set(getRootId(image), image);
+  }
+  return images.filter(img => latest.get(getRootId(img)) === img);
+};
+
+/**
+ * The background, lighting and options a shot was made with, matched against
+ * the current presets and library. Anything no longer there is rebuilt from
+ * what the shot recorded.
+ */
+export const getImageSetup = (
+  image: GeneratedImage,
+  available: { backgrounds: BackgroundOption[]; lightings: LightingOption[]; settings: CameraSettings }
+): ProjectSetup => {
+  const { settings: shot } = image;
+  const background = available.backgrounds.find(bg => bg.type === shot.type && bg.value === shot.value)
+    || { id: 'custom-restored', name: shot.backgroundName, type: shot.type, value: shot.value, previewClass: shot.previewClass };
+  const lighting = available.lightings.find(light => light.name === shot.lightingName)
+    || (shot.lightingName ? { id: 'restored-lighting', name: shot.lightingName, value: shot.lightingName, icon: '💡' } : available.lightings[0]);
+
+  return {
+    background,
+    lighting,
+    settings: {
+      aspectRatio: shot.aspectRatio || available.settings.aspectRatio,
+      lightingDirection: (shot.lightingDirection as LightingDirection) || available.settings.lightingDirection,
+    },
+  };
+};
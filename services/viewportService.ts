@@ -0,0 +1,54 @@
+// Zoom/pan maths shared by the comparison views. A transform maps content
+// coordinates (the unzoomed stage, in CSS px) to screen: screen = content * scale + offset.
+
+export const MAX_VIEW_ZOOM = 8;
+
+export interface ViewTransform {
+  scale: number;
+  x: number;
+  y: number;
+}
+
+export const IDENTITY_VIEW: ViewTransform = { scale: 1, x: 0, y: 0 };
+
+// Keeps the zoomed content covering the whole stage (no empty edges)
+export const clampView = (view: ViewTransform, width: number, height: number): ViewTransform => {
+  const scale = Math.max(1, Math.min(MAX_VIEW_ZOOM, view.scale));
+  return {
+    scale,
+    x: Math.min(0, Math.max(width - width * scale, view.x)),
+    y: Math.min(0, Math.max(height - height * scale, view.y)),
+  };
+};
+
+/**
+ * Zooms by `factor` around the stage point (px, py), so that point stays put.
+ */
+export const zoomAt = (view: ViewTransform, factor: number, px: number, py: number, width: number, height: number): ViewTransform => {
+  const scale = Math.max(1, Math.min(MAX_VIEW_ZOOM, view.scale * factor));
+  const applied = scale / view.scale;
+  return clampView({
+    scale,
+    x: px - (px - view.x) * applied,
+    y: py - (py - view.y) * applied,
+  }, width, height);
+};
+
+export const panBy = (view: ViewTransform, dx: number, dy: number, width: number, height: number): ViewTransform =>
+  clampView({ ...view, x: view.x + dx, y: view.y + dy }, width, height);
+
+// Stage point -> fraction (0..1) of the unzoomed stage
+export const toContentFraction = (view: ViewTransform, px: number, py: number, width: number, height: number) => ({
+  u: (px - view.x) / view.scale / width,
+  v: (py - view.y) / view.scale / height,
+});
+
+/**
+ * Where an image of natW x natH lands inside a box with object-fit: contain.
+ */
+export const getContainRect = (natW: number, natH: number, boxW: number, boxH: number) => {
+  const scale = Math.min(boxW / natW, boxH / natH);
+  const width = natW * scale;
+  const height = natH * scale;
+  return { x: (boxW - width) / 2, y: (boxH - height) / 2, width, height };
+};
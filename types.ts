@@ -1,4 +1,4 @@
-
+import type { GenerationErrorKind } from './services/generationErrors';
 
 export type BackgroundType = 'solid' | 'gradient' | 'texture' | 'image';
 
@@ -11,11 +11,118 @@ export interface BackgroundOption {
   imageSrc?: string;
 }
 
+// A background saved to the user's library
+export interface LibraryBackground extends BackgroundOption {
+  tags: string[];
+  favorite: boolean;
+  createdAt: number;
+}
+
 export interface LightingOption {
   id: string;
   name: string;
   value: string; // Prompt description
   icon: string;
+  setup?: LightingSetup; // Only for user presets built in the lighting editor
+}
+
+// Parameters of the lighting editor, compiled into LightingOption.value
+export interface LightingSetup {
+  key: number; // 0-100
+  fill: number; // 0-100
+  rim: number; // 0-100
+  temperature: number; // Kelvin
+  softness: number; // 0 (hard) - 100 (very soft)
+  secondaryDirection: LightingDirection | 'none';
+}
+
+// A client's house style: everything needed to reproduce their look in one pick
+export interface BrandKit {
+  id: string;
+  name: string;
+  settings: CameraSettings;
+  background: BackgroundOption;
+  lighting: LightingOption;
+  promptAdditions: string; // Extra rules appended to the prompt, e.g. "leave 20% headroom for text"
+  createdAt: number;
+}
+
+// Prompt wording per model tier (detailed = Pro, simple = Flash), with and without an uploaded scene
+export type PromptVariant = 'detailed' | 'detailedComposite' | 'simple' | 'simpleComposite';
+
+// Named, versioned prompt wording with {{variable}} placeholders
+export interface PromptTemplate {
+  id: string;
+  name: string;
+  version: number; // Bumped on every saved edit
+  prompts: Record<PromptVariant, string>;
+}
+
+// What an image keeps about the template it was made with
+export interface PromptTemplateRef {
+  id: string;
+  name: string;
+  version: number;
+}
+
+// A client job or shooting session that groups gallery shots
+export interface Project {
+  id: string;
+  name: string;
+  client: string;
+  skus: string[];
+  notes: string;
+  createdAt: number;
+  lastSetup?: ProjectSetup; // Restored when switching back to the project
+}
+
+export interface ProjectSetup {
+  settings: CameraSettings;
+  background: BackgroundOption;
+  lighting: LightingOption;
+}
+
+// A multi-angle shoot of one product: every angle uses the same setup, and the
+// first accepted shot is sent to the later angles as a style reference
+export interface ProductSet {
+  id: string;
+  name: string;
+  angles: string[]; // e.g. Front, Side, Back, Detail
+  setup: ProjectSetup; // Locked when the set is started
+  acceptedIds: string[]; // Root ids of accepted shots, in order; the first is the style reference
+  projectId?: string;
+  createdAt: number;
+}
+
+// What a job/image keeps about the set it was shot for
+export interface ProductSetRef {
+  id: string;
+  name: string;
+  angle: string;
+}
+
+// 'guide' sends the mask with the capture to steer the model's isolation;
+// 'composite' only asks the model for an empty background plate and lays the
+// untouched product pixels over it locally
+export type MaskMode = 'guide' | 'composite';
+
+// Hand-painted subject mask for one capture
+export interface SubjectMask {
+  maskUrl: string; // Black/white PNG data URL, white = product, same size as the capture
+  mode: MaskMode;
+}
+
+// A follow-up edit of an existing shot; every version of a shot shares the rootId
+export interface Refinement {
+  parentId: string;
+  rootId: string; // Id of the first version
+  instruction: string; // e.g. "make the shadow softer"
+}
+
+// What a job/image keeps about the kit it was made with
+export interface BrandKitRef {
+  id: string;
+  name: string;
 }
 
 export type AspectRatio = '1:1' | '3:4' | '4:3' | '16:9' | '9:16';
@@ -27,6 +134,95 @@ export interface CameraSettings {
   lightingDirection: LightingDirection;
 }
 
+// Manual framing chosen in the review step, relative to the full camera frame
+export interface Framing {
+  zoom: number; // 1 = largest crop that still fills the frame
+  panX: number; // -1..1 across the room left by the zoom
+  panY: number;
+  quarterTurns: number; // 0-3 clockwise 90° turns
+  straighten: number; // Fine rotation in degrees
+}
+
+// How the shutter button takes the photo
+export type CaptureMode = 'instant' | 'timer2' | 'timer5' | 'burst' | 'stable';
+
+// Manual camera controls saved per device; unset fields stay on the camera's automatic default
+export interface CameraControlSettings {
+  exposureMode?: 'continuous' | 'manual';
+  exposureCompensation?: number; // EV, used in continuous mode
+  exposureTime?: number; // Manual mode, in 100µs units as reported by the track
+  iso?: number; // Manual mode
+  whiteBalanceMode?: 'continuous' | 'manual';
+  colorTemperature?: number; // Kelvin, manual white balance
+  zoom?: number;
+  torch?: boolean;
+}
+
+export const DEFAULT_FRAMING: Framing = { zoom: 1, panX: 0, panY: 0, quarterTurns: 0, straighten: 0 };
+
+// Result of comparing the product in a generated shot with the original capture
+export interface FidelityReport {
+  score: number; // 0..1 structural similarity of the product crop
+  hashDistance: number; // 0..64 perceptual-hash distance of the same crops
+  checkedAt: number;
+}
+
+export interface FidelitySettings {
+  enabled: boolean;
+  threshold: number; // Scores below this are flagged
+  autoRegenerate: boolean;
+  maxRegenerations: number; // Per capture, so a stubborn product can't loop forever
+}
+
+// Live checks of the camera preview before a capture
+export interface PreviewQualitySettings {
+  enabled: boolean;
+  blockCritical: boolean; // Disable the shutter while a critical warning is shown
+}
+
+// One model call in the usage ledger
+export interface UsageEntry {
+  id: string;
+  timestamp: number;
+  provider: string;
+  model: string;
+  ok: boolean;
+  errorKind?: GenerationErrorKind; // Set on failed calls
+  durationMs: number;
+  imageSize?: string; // '1K' | '2K' | '4K' as requested
+  fallback: boolean; // Made after an earlier model in the chain gave up
+  cost: number; // Estimate from the price table at the time of the call, in USD
+  projectId?: string;
+}
+
+export interface ModelPrice {
+  model: string;
+  perImage: number; // USD per successful image
+  perImage4K?: number; // When 4K output is priced separately
+}
+
+export interface UsageSettings {
+  prices: ModelPrice[];
+  budget: number | null; // USD per period; null = no limit
+  period: 'day' | 'month';
+  warnAt: number; // 0..1 share of the budget that shows the warning
+}
+
+export type ExportFormat = 'jpeg' | 'webp' | 'png';
+
+// Target spec for downloads, e.g. a marketplace's main-image rules
+export interface ExportProfile {
+  id: string;
+  name: string;
+  width: number; // Exact output size in px
+  height: number;
+  format: ExportFormat;
+  quality: number; // 0..1 starting quality for JPEG/WebP
+  maxBytes?: number; // Quality is lowered until the file fits
+  whiteBackground: boolean; // Replace the backdrop with pure #FFFFFF
+  minProductFill?: number; // 0..1 share of the frame the product must span
+}
+
 export interface GeneratedImage {
   id: string;
   originalUrl: string;
@@ -39,15 +235,65 @@ export interface GeneratedImage {
     previewClass: string;
     lightingName?: string;
     lightingDirection?: string;
+    aspectRatio?: AspectRatio;
   };
+  batchId?: string; // Shared by all shots rendered from one batch capture
+  framing?: Framing;
+  generation?: {
+    provider: string; // Provider id, e.g. 'gemini' or 'mock'
+    model: string; // Model that actually produced the image
+    promptTemplate?: PromptTemplateRef;
+    prompt?: string; // Exact prompt text sent to that model
+  };
+  brandKit?: BrandKitRef;
+  fidelity?: FidelityReport;
+  projectId?: string;
+  refinement?: Refinement; // Set on every version after the first
+  variantGroupId?: string; // Regenerations of the same capture, waiting for the user to pick one
+  maskMode?: MaskMode; // Set when the capture was generated with a subject mask
+  productSet?: ProductSetRef;
+}
+
+export type ControlTab = 'background' | 'adjustments' | 'batch';
+
+export interface BatchSelection {
+  enabled: boolean;
+  backgroundIds: string[];
+  lightingIds: string[];
+  concurrency: number; // Max generations in flight at once
+}
+
+// A finished job leaves the queue and becomes a GeneratedImage in the gallery
+export type JobStatus = 'pending' | 'running' | 'failed';
+
+export interface GenerationJob {
+  id: string;
+  status: JobStatus;
+  originalUrl: string;
+  background: BackgroundOption;
+  lighting: LightingOption;
+  settings: CameraSettings;
+  createdAt: number;
+  batchId?: string;
+  framing?: Framing;
+  brandKit?: BrandKitRef;
+  promptAdditions?: string;
+  template?: PromptTemplate; // Snapshot, so later template edits don't change queued jobs
+  regeneration?: number; // How many times this shot was re-queued after failing the fidelity check
+  projectId?: string; // Project that was active at capture time
+  refinement?: Refinement;
+  variantGroupId?: string;
+  mask?: SubjectMask;
+  productSet?: ProductSetRef;
+  styleReferenceUrl?: string; // Accepted shot of the same product set whose look should be matched
+  sourceUrl?: string; // Image sent to the provider instead of originalUrl (the parent shot when refining)
+  error?: string;
+  errorKind?: GenerationErrorKind; // Kind of the last failure
 }
 
 export enum AppState {
   IDLE = 'IDLE',
-  CAPTURING = 'CAPTURING',
-  PROCESSING = 'PROCESSING',
-  ERROR = 'ERROR',
-  SUCCESS = 'SUCCESS'
+  CAPTURING = 'CAPTURING'
 }
 
 export const PRESET_LIGHTING: LightingOption[] = [
@@ -8,7 +8,9 @@ export default defineConfig({
     // This allows the code to access process.env.API_KEY safely in the browser without crashing.
     // For the competition, users will likely use the manual key entry method, so we default this to empty.
     'process.env': {
-      API_KEY: process.env.API_KEY || ''
+      API_KEY: process.env.API_KEY || '',
+      // Image backend: 'gemini' (default) or 'mock' for offline development
+      STUDIO_PROVIDER: process.env.STUDIO_PROVIDER || ''
     }
   }
 });
\ No newline at end of file